@@ -1,13 +1,31 @@
 // API Service for Event Management System
 
 import { envConfig } from '../utils/envConfig';
+import {
+  ApiError,
+  ApiResponseHandler,
+  NetworkError,
+  NotFoundError,
+  SessionRevokedError,
+  TimeoutError,
+  type ApiRequestInfo,
+  type ApiResponse,
+} from '../types';
 
 // Request interfaces
 import type {
   LoginRequest,
+  SsoLoginRequest,
+  VerifyMfaRequest,
+  VerifyRecoveryCodeRequest,
   RegisterUserRequest,
   RegisterAdminRequest,
   RefreshRequest,
+  ForgotPasswordRequest,
+  ValidateResetTokenRequest,
+  ResetPasswordRequest,
+  VerifyEmailRequest,
+  ResendVerificationRequest,
 } from "../contracts/request/AuthenticationRequests";
 
 import type {
@@ -18,6 +36,8 @@ import type {
 import type {
   CreateEventRequest,
   UpdateEventRequest,
+  UpdateEventOccurrenceRequest,
+  GetEventsByIdsRequest,
 } from "../contracts/request/EventRequests";
 
 import type {
@@ -26,9 +46,19 @@ import type {
 
 // Response interfaces
 import type {
+  Credentials,
   LoginResponse,
+  SsoLoginResponse,
+  VerifyMfaResponse,
+  VerifyRecoveryCodeResponse,
   RegisterResponse,
   RefreshResponse,
+  ForgotPasswordResponse,
+  ValidateResetTokenResponse,
+  ResetPasswordResponse,
+  VerifyEmailResponse,
+  ResendVerificationResponse,
+  GetPasswordPolicyResponse,
 } from "../contracts/response/AuthenticationResponses";
 
 import type {
@@ -42,9 +72,11 @@ import type {
 import type {
   CreateEventResponse,
   UpdateEventResponse,
+  UpdateEventOccurrenceResponse,
   DeleteEventResponse,
   GetEventResponse,
   GetAllEventsResponse,
+  GetEventsByIdsResponse,
 } from "../contracts/response/EventResponses";
 
 import type {
@@ -59,7 +91,77 @@ import type {
   GetOwnerEventsResponse,
 } from "../contracts/response/OwnerEventResponses";
 
-// Model interfaces are used implicitly through response interfaces
+import type {
+  UpdateProfileRequest,
+  ChangePasswordRequest,
+  ChangeEmailRequest,
+  EnableMfaRequest,
+  DisableMfaRequest,
+  RegenerateRecoveryCodesRequest,
+} from "../contracts/request/AccountRequests";
+
+import type {
+  GetProfileResponse,
+  UpdateProfileResponse,
+  ChangePasswordResponse,
+  ChangeEmailResponse,
+  UploadAvatarResponse,
+  DeleteAvatarResponse,
+  SetupMfaResponse,
+  EnableMfaResponse,
+  DisableMfaResponse,
+  RegenerateRecoveryCodesResponse,
+  GetSessionsResponse,
+  RevokeSessionResponse,
+  RevokeAllSessionsResponse,
+} from "../contracts/response/AccountResponses";
+
+import type {
+  CreateInvitationRequest,
+  ValidateInvitationRequest,
+} from "../contracts/request/InvitationRequests";
+
+import type {
+  GetInvitationsResponse,
+  CreateInvitationResponse,
+  ValidateInvitationResponse,
+} from "../contracts/response/InvitationResponses";
+
+import type { Event } from "../models";
+
+import { RequestBatcher, runWithConcurrency } from "./RequestBatcher";
+import { createTokenStore, migrateLegacyTokens, type TokenStore } from "./tokenStore";
+
+// Runtime contract decoders
+import { decodeResponse, array, string, type Decoder } from "../contracts/decoders";
+import {
+  apiResponseDecoder,
+  credentialsDecoder,
+  eventDecoder,
+  eventRegistrationDecoder,
+  getEventsExtendedResponseDecoder,
+  invitationDecoder,
+  invitationInfoDecoder,
+  mfaRecoveryCodesDecoder,
+  mfaSetupDecoder,
+  passwordPolicyDecoder,
+  resetTokenInfoDecoder,
+  resendVerificationDataDecoder,
+  userProfileDecoder,
+  userSessionDecoder,
+} from "../contracts/response/ResponseDecoders";
+
+// Decoders shared by several endpoints
+const credentialsResponseDecoder = apiResponseDecoder(credentialsDecoder);
+const eventResponseDecoder = apiResponseDecoder(eventDecoder);
+const eventListResponseDecoder = apiResponseDecoder(array(eventDecoder));
+const userProfileResponseDecoder = apiResponseDecoder(userProfileDecoder);
+const mfaRecoveryCodesResponseDecoder = apiResponseDecoder(mfaRecoveryCodesDecoder);
+const registrationListResponseDecoder = apiResponseDecoder(array(eventRegistrationDecoder));
+
+// Event batching limits
+const MAX_EVENTS_PER_BATCH = 100; // Largest id list sent to /api/events/batch
+const FALLBACK_CONCURRENCY = 6; // Parallel getEvent requests when the batch endpoint is missing
 
 export class ApiService {
   private baseUrl: string;
@@ -68,80 +170,58 @@ export class ApiService {
   private authTokenExp?: string; // Auth token expiration
   private refreshTokenExp?: string; // Refresh token expiration
   private debugMode: boolean;
-  private tokenStorageKey: string;
-  private fallbackTokenKey: string;
-
-  constructor(baseUrl?: string) {
+  private tokenStore: TokenStore; // Where the refresh token survives page loads
+  private storeWrites: Promise<void> = Promise.resolve(); // Serializes async store writes
+  readonly ready: Promise<void>; // Resolves once tokens have been loaded from the store
+  private refreshPromise: Promise<Credentials | null> | null = null; // In-flight refresh shared by concurrent callers
+  private onUnauthorized?: (reason?: ApiError) => void; // Called when a 401 cannot be recovered by refreshing tokens
+  private onTokensRefreshed?: (credentials: Credentials) => void; // Called after every successful refresh
+  private batchEndpointSupported = true; // Set to false once /api/events/batch answers 404/405
+  private eventBatcher = new RequestBatcher<string, Event>((ids, signal) => this.loadEventBatch(ids, signal));
+
+  constructor(baseUrl?: string, tokenStore?: TokenStore) {
     this.baseUrl = baseUrl || envConfig.apiBaseUrl;
     this.debugMode = envConfig.debugApi;
-    this.tokenStorageKey = envConfig.tokenStorageKey;
-    this.fallbackTokenKey = envConfig.fallbackTokenKey;
+    this.tokenStore = tokenStore || createTokenStore(envConfig.tokenStorage);
     
-    // Initialize tokens from storage
-    this.initializeTokensFromStorage();
+    // Initialize tokens from storage (requests wait for this)
+    this.ready = this.initializeTokensFromStorage();
   }
 
-  // NEW: Initialize tokens from storage on startup
-  private initializeTokensFromStorage() {
-    // Load refresh token and its expiration
-    const storedRefreshToken = localStorage.getItem('refresh_token');
-    const storedRefreshTokenExp = localStorage.getItem('refresh_token_exp');
-    if (storedRefreshToken && storedRefreshTokenExp) {
-      try {
-        this.refreshToken = JSON.parse(storedRefreshToken);
-        this.refreshTokenExp = JSON.parse(storedRefreshTokenExp);
-        
-        // Check if refresh token is still valid
-        const expiration = new Date(this.refreshTokenExp!);
-        const now = new Date();
-        
-        if (expiration > now) {
-          this.log('Refresh token loaded from storage');
-        } else {
-          this.log('Refresh token expired, clearing storage');
-          localStorage.removeItem('refresh_token');
-          localStorage.removeItem('refresh_token_exp');
-          this.refreshToken = undefined;
-          this.refreshTokenExp = undefined;
-        }
-      } catch (error) {
-        this.log('Error parsing stored refresh token:', error);
-        localStorage.removeItem('refresh_token');
-        localStorage.removeItem('refresh_token_exp');
+  // NEW: Initialize tokens from the token store on startup, migrating legacy keys first
+  private async initializeTokensFromStorage(): Promise<void> {
+    try {
+      const migrated = await migrateLegacyTokens(this.tokenStore);
+      if (migrated?.authToken) {
+        this.authToken = migrated.authToken;
+        this.authTokenExp = migrated.authTokenExp;
+        this.log('Auth token loaded from legacy storage');
       }
-    }
 
-    // Load auth token and its expiration (legacy support)
-    const storedUserData = localStorage.getItem(this.tokenStorageKey);
-    if (storedUserData) {
-      try {
-        const appUser = JSON.parse(storedUserData);
-        if (appUser.token && appUser.tokenExpiration) {
-          const expirationDate = new Date(appUser.tokenExpiration);
-          const currentDate = new Date();
-          
-          if (expirationDate > currentDate) {
-            this.authToken = appUser.token;
-            this.authTokenExp = appUser.tokenExpiration;
-            this.log('Auth token loaded from AppUser storage');
-          } else {
-            localStorage.removeItem(this.tokenStorageKey);
-            this.log('Auth token expired during initialization');
-          }
-        }
-      } catch (error) {
-        this.log('Error parsing stored user data:', error);
-        localStorage.removeItem(this.tokenStorageKey);
-      }
-    } else {
-      // Fallback: check for old token-only storage
-      this.authToken = localStorage.getItem(this.fallbackTokenKey) || undefined;
-      if (this.authToken) {
-        this.log('Found old token storage, consider migrating to AppUser storage');
+      const stored = await this.tokenStore.load();
+      if (!stored) return;
+
+      // Check if refresh token is still valid
+      if (stored.refreshTokenExp && new Date(stored.refreshTokenExp) > new Date()) {
+        this.refreshToken = stored.refreshToken;
+        this.refreshTokenExp = stored.refreshTokenExp;
+        this.log(`Refresh token loaded from ${this.tokenStore.name} store`);
+      } else {
+        this.log('Refresh token expired, clearing storage');
+        await this.tokenStore.clear();
       }
+    } catch (error) {
+      this.log('Error loading tokens from storage:', error);
     }
   }
 
+  // Queue a store operation after the ones already pending, so writes land in order
+  private queueStoreWrite(write: () => Promise<void>) {
+    this.storeWrites = this.storeWrites
+      .then(write)
+      .catch(error => this.log('Token store write failed:', error));
+  }
+
   // Logging helper that respects debug mode
   private log(message: string, ...args: unknown[]) {
     if (this.debugMode) {
@@ -163,7 +243,7 @@ export class ApiService {
     
     if (token) {
       this.log('Auth token set');
-      // Don't store auth token in localStorage - it's short-lived
+      // Don't persist the auth token - it's short-lived
       // Only store it in memory for immediate use
     } else {
       this.log('Auth token cleared');
@@ -176,14 +256,10 @@ export class ApiService {
     this.refreshTokenExp = refreshTokenExp;
     
     if (refreshToken) {
-      localStorage.setItem("refresh_token", JSON.stringify(refreshToken));
-      if (refreshTokenExp) {
-        localStorage.setItem("refresh_token_exp", JSON.stringify(refreshTokenExp));
-      }
+      this.queueStoreWrite(() => this.tokenStore.save({ refreshToken, refreshTokenExp }));
       this.log('Refresh token stored');
     } else {
-      localStorage.removeItem("refresh_token");
-      localStorage.removeItem("refresh_token_exp");
+      this.queueStoreWrite(() => this.tokenStore.clear());
       this.log('Refresh token cleared');
     }
   }
@@ -191,19 +267,7 @@ export class ApiService {
   
   // Enhanced getRefreshToken
   getRefreshToken(): string | null {
-    if (this.refreshToken) return this.refreshToken;
-    
-    const stored = localStorage.getItem('refresh_token');
-    if (stored) {
-      try {
-        this.refreshToken = JSON.parse(stored);
-        return this.refreshToken || null;
-      } catch {
-        localStorage.removeItem('refresh_token');
-        return null;
-      }
-    }
-    return null;
+    return this.refreshToken || null;
   }
 
   // NEW: Get auth token
@@ -253,10 +317,7 @@ export class ApiService {
     this.refreshToken = undefined;
     this.authTokenExp = undefined;
     this.refreshTokenExp = undefined;
-    localStorage.removeItem(this.fallbackTokenKey);
-    localStorage.removeItem(this.tokenStorageKey);
-    localStorage.removeItem('refresh_token');
-    localStorage.removeItem('refresh_token_exp');
+    this.queueStoreWrite(() => this.tokenStore.clear());
     this.log('All authentication tokens and expirations cleared');
   }
 
@@ -265,8 +326,38 @@ export class ApiService {
     this.clearAllTokens();
   }
 
+  // NEW: Register the handler that logs the user out when a 401 cannot be recovered
+  // The reason is set when the server said why, e.g. SessionRevokedError
+  setUnauthorizedHandler(handler?: (reason?: ApiError) => void) {
+    this.onUnauthorized = handler;
+  }
+
+  // NEW: Register the handler notified with new credentials after each successful refresh (e.g. to sync other tabs)
+  setTokensRefreshedHandler(handler?: (credentials: Credentials) => void) {
+    this.onTokensRefreshed = handler;
+  }
+
   // NEW: Refresh tokens and update storage
-  async refreshTokens(): Promise<{ authToken: string; refreshToken: string; authTokenExp: string; refreshTokenExp: string } | null> {
+  // Concurrent callers share a single refresh request so the refresh token is only rotated once
+  // Resolves with null when the session is gone (tokens cleared); rejects with NetworkError/TimeoutError when the server could not be reached
+  // Rejects with SessionRevokedError (tokens cleared) when the session was signed out from another device
+  async refreshTokens(): Promise<Credentials | null> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performTokenRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    } else {
+      this.log('Token refresh already in progress, waiting for it to finish');
+    }
+    return this.refreshPromise;
+  }
+
+  private async performTokenRefresh(): Promise<Credentials | null> {
+    await this.ready;
+
+    // Another tab may have rotated the refresh token since we loaded it
+    await this.adoptStoredRefreshToken();
+
     const currentRefreshToken = this.getRefreshToken();
     if (!currentRefreshToken) {
       this.log('No refresh token available');
@@ -282,15 +373,13 @@ export class ApiService {
 
     try {
       const refreshResponse = await this.refresh({ refreshToken: currentRefreshToken });
-      
-      // Import ApiResponseHandler here to avoid circular dependencies
-      const { ApiResponseHandler } = await import('../types');
-      const credentials = await ApiResponseHandler.handleResponse(refreshResponse);
+      const credentials = ApiResponseHandler.handleResponse(refreshResponse);
 
       if (credentials?.authToken && credentials?.refreshToken && credentials?.authTokenExp && credentials?.refreshTokenExp) {
         // Store new tokens with their expirations
         this.setTokens(credentials.authToken, credentials.refreshToken, credentials.authTokenExp, credentials.refreshTokenExp);
         this.log('Tokens refreshed successfully');
+        this.onTokensRefreshed?.(credentials);
         return credentials;
       } else {
         this.log('Invalid credentials received during refresh');
@@ -298,22 +387,61 @@ export class ApiService {
         return null;
       }
     } catch (error) {
+      // Keep the tokens when the server could not be reached so the caller can retry later
+      if (ApiResponseHandler.isTransientError(error)) {
+        this.log('Token refresh failed on the network, keeping tokens:', error);
+        throw error;
+      }
+
       this.log('Token refresh failed:', error);
       this.clearAllTokens();
+
+      // Let the caller tell the user why they were signed out
+      if (error instanceof SessionRevokedError) {
+        throw error;
+      }
       return null;
     }
   }
 
+  // Pick up a refresh token written to the shared store by another tab
+  private async adoptStoredRefreshToken() {
+    try {
+      await this.storeWrites;
+      const stored = await this.tokenStore.load();
+      if (stored && stored.refreshToken !== this.refreshToken) {
+        this.refreshToken = stored.refreshToken;
+        this.refreshTokenExp = stored.refreshTokenExp;
+        this.log('Adopted refresh token rotated by another tab');
+      }
+    } catch (error) {
+      this.log('Error reading stored refresh token:', error);
+    }
+  }
+
+  // Authentication endpoints never trigger a refresh-and-replay (avoids refresh loops on login/refresh/logout)
+  private canRetryWithRefresh(endpoint: string): boolean {
+    return !endpoint.startsWith('/api/authentication/') && !!this.getRefreshToken();
+  }
+
   // Generic HTTP request method
+  // A 401 triggers one shared token refresh and a single replay of the original request
+  // A decoder checks the response body against its contract before it reaches callers
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    decoder?: Decoder<T>,
+    isRetry: boolean = false
   ): Promise<T> {
+    // Tokens from the store must be loaded before the first request
+    await this.ready;
+
     const url = `${this.baseUrl}${endpoint}`;
     const timeout = envConfig.apiTimeout;
     
+    // Let the browser set the multipart boundary for FormData bodies
     const headers: Record<string, string> = {
-      "Content-Type": "application/json",
+      ...(options.body instanceof FormData ? {} : { "Content-Type": "application/json" }),
       ...(options.headers as Record<string, string>),
     };
 
@@ -326,227 +454,569 @@ export class ApiService {
       headers,
     };
 
-    this.log(`Making request to ${url}`, { method: config.method || 'GET', hasAuth: !!this.authToken });
+    const requestInfo: ApiRequestInfo = { method: config.method || 'GET', endpoint, url };
 
-    try {
-      // Create timeout promise
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error(`Request timeout after ${timeout}ms`)), timeout);
-      });
+    this.log(`Making request to ${url}`, { method: requestInfo.method, hasAuth: !!this.authToken, isRetry, mock: envConfig.useMockApi });
 
-      // Race between fetch and timeout
-      const response = await Promise.race([
-        fetch(url, config),
-        timeoutPromise
-      ]);
+    let response: Response;
+    let data: unknown;
+
+    // Combine the caller's signal with the timeout so a timed-out fetch is actually cancelled
+    const controller = new AbortController();
+    const callerSignal = options.signal ?? undefined;
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+    const abortFromCaller = () => controller.abort();
+
+    if (callerSignal?.aborted) {
+      abortFromCaller();
+    } else {
+      callerSignal?.addEventListener('abort', abortFromCaller, { once: true });
+    }
+
+    try {
+      const fetchImpl = await this.getFetch();
+      response = await fetchImpl(url, { ...config, signal: controller.signal });
 
       this.log(`Response from ${url}:`, { status: response.status, ok: response.ok });
       
-      // Always parse JSON first
-      const data = await response.json();
+      // Always parse JSON first (empty or non-JSON bodies are treated as null)
+      data = await this.parseResponseBody(response);
       this.log('Parsed response data:', data);
-      
-      if (!response.ok) {
-        // Handle error responses with your backend structure
-        const errorMessage = data?.error || data?.message || `HTTP error! status: ${response.status}`;
-        
-        // Create a more specific error for 401 Unauthorized
-        if (response.status === 401) {
-          const unauthorizedError = new Error(`401: ${errorMessage}`) as Error & { status: number };
-          unauthorizedError.status = 401;
-          throw unauthorizedError;
+    } catch (error) {
+      if (timedOut) {
+        const timeoutError = new TimeoutError(timeout, requestInfo);
+        this.log("API request failed:", timeoutError);
+        throw timeoutError;
+      }
+      if (callerSignal?.aborted) {
+        this.log("API request aborted by caller", requestInfo);
+        throw error;
+      }
+      const networkError = new NetworkError(
+        error instanceof Error ? error.message : 'Network request failed',
+        requestInfo
+      );
+      this.log("API request failed:", networkError);
+      throw networkError;
+    } finally {
+      clearTimeout(timeoutId);
+      callerSignal?.removeEventListener('abort', abortFromCaller);
+    }
+
+    if (response.status === 401 && !isRetry && this.canRetryWithRefresh(endpoint)) {
+      this.log(`401 from ${endpoint}, refreshing tokens before replaying request`);
+      let credentials: Credentials | null;
+      try {
+        credentials = await this.refreshTokens();
+      } catch (error) {
+        if (error instanceof SessionRevokedError) {
+          this.log('Session was revoked, notifying unauthorized handler');
+          this.onUnauthorized?.(error);
         }
-        
-        throw new Error(errorMessage);
+        throw error;
       }
 
-      return data;
-    } catch (error) {
+      if (credentials) {
+        return this.request<T>(endpoint, options, decoder, true);
+      }
+
+      this.log('Token refresh failed after 401, notifying unauthorized handler');
+      this.onUnauthorized?.();
+    }
+
+    if (!response.ok) {
+      // Map the backend error body to the matching ApiError subclass
+      const error = ApiResponseHandler.createError(
+        this.toErrorResponse(data, response.status),
+        requestInfo,
+        this.parseRetryAfter(response.headers.get('Retry-After'))
+      );
       this.log("API request failed:", error);
       throw error;
     }
+
+    return decoder ? decodeResponse(decoder, data, response.status, requestInfo) : data as T;
+  }
+
+  // NEW: Demo mode serves every endpoint from the in-browser mock backend
+  // Loaded lazily so the mock is split out of the bundle when it is not used
+  private async getFetch(): Promise<typeof fetch> {
+    if (!envConfig.useMockApi) {
+      return fetch;
+    }
+    const { mockFetch } = await import('./mock');
+    return mockFetch;
+  }
+
+  // Read the body as JSON, tolerating empty bodies (e.g. 204 from logout)
+  private async parseResponseBody(response: Response): Promise<unknown> {
+    const text = await response.text();
+    if (!text) return null;
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      this.log('Response body is not valid JSON', { status: response.status });
+      return null;
+    }
+  }
+
+  // Retry-After is either a number of seconds or an HTTP date
+  private parseRetryAfter(header: string | null): number | null {
+    if (!header) return null;
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return Math.max(0, Math.ceil(seconds));
+    const date = new Date(header).getTime();
+    return isNaN(date) ? null : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+
+  // Normalize any error body into the standard ApiResponse envelope
+  private toErrorResponse(data: unknown, status: number): ApiResponse<unknown> {
+    const body = (data && typeof data === 'object' ? data : {}) as Partial<ApiResponse<unknown>> & {
+      errors?: unknown;
+    };
+
+    return {
+      isSuccess: false,
+      status,
+      message: body.message ?? null,
+      error: body.error || body.message || `HTTP error! status: ${status}`,
+      // ASP.NET problem details put field errors under "errors"
+      value: body.value ?? body.errors ?? null,
+      code: body.code ?? null,
+    };
   }
 
   // Authentication Methods
-  async login(request: LoginRequest): Promise<LoginResponse> {
+  async login(request: LoginRequest, signal?: AbortSignal): Promise<LoginResponse> {
     return this.request<LoginResponse>("/api/authentication/login", {
       method: "POST",
       body: JSON.stringify(request),
-    });
+      signal,
+    }, credentialsResponseDecoder);
+  }
+
+  // The backend validates the ID token with the identity provider and signs the user in (or up)
+  async loginWithSso(request: SsoLoginRequest, signal?: AbortSignal): Promise<SsoLoginResponse> {
+    return this.request<SsoLoginResponse>("/api/authentication/sso", {
+      method: "POST",
+      body: JSON.stringify(request),
+      signal,
+    }, credentialsResponseDecoder);
+  }
+
+  // Second login step; only now are tokens issued
+  async verifyMfa(request: VerifyMfaRequest, signal?: AbortSignal): Promise<VerifyMfaResponse> {
+    return this.request<VerifyMfaResponse>("/api/authentication/mfa/verify", {
+      method: "POST",
+      body: JSON.stringify(request),
+      signal,
+    }, credentialsResponseDecoder);
+  }
+
+  async verifyRecoveryCode(request: VerifyRecoveryCodeRequest, signal?: AbortSignal): Promise<VerifyRecoveryCodeResponse> {
+    return this.request<VerifyRecoveryCodeResponse>("/api/authentication/mfa/recovery", {
+      method: "POST",
+      body: JSON.stringify(request),
+      signal,
+    }, credentialsResponseDecoder);
   }
 
-  async refresh(request: RefreshRequest): Promise<RefreshResponse> {
+  async refresh(request: RefreshRequest, signal?: AbortSignal): Promise<RefreshResponse> {
     return this.request<RefreshResponse>("/api/authentication/refresh", {
       method: "POST",
       body: JSON.stringify(request),
-    });
+      signal,
+    }, credentialsResponseDecoder);
   }
 
-  async logout(): Promise<void> {
+  async logout(signal?: AbortSignal): Promise<void> {
     return this.request<void>("/api/authentication/logout", {
       method: "POST",
+      signal,
     });
   }
 
-  async registerUser(request: RegisterUserRequest): Promise<RegisterResponse> {
+  async registerUser(request: RegisterUserRequest, signal?: AbortSignal): Promise<RegisterResponse> {
     return this.request<RegisterResponse>("/api/authentication/register/user", {
       method: "POST",
       body: JSON.stringify(request),
+      signal,
     });
   }
 
-  async registerAdmin(request: RegisterAdminRequest): Promise<RegisterResponse> {
+  async registerAdmin(request: RegisterAdminRequest, signal?: AbortSignal): Promise<RegisterResponse> {
     return this.request<RegisterResponse>("/api/authentication/register/admin", {
       method: "POST",
       body: JSON.stringify(request),
+      signal,
+    });
+  }
+
+  // Password Recovery Methods
+  async forgotPassword(request: ForgotPasswordRequest, signal?: AbortSignal): Promise<ForgotPasswordResponse> {
+    return this.request<ForgotPasswordResponse>("/api/authentication/forgot-password", {
+      method: "POST",
+      body: JSON.stringify(request),
+      signal,
+    });
+  }
+
+  async validateResetToken(request: ValidateResetTokenRequest, signal?: AbortSignal): Promise<ValidateResetTokenResponse> {
+    return this.request<ValidateResetTokenResponse>("/api/authentication/reset-password/validate", {
+      method: "POST",
+      body: JSON.stringify(request),
+      signal,
+    }, apiResponseDecoder(resetTokenInfoDecoder));
+  }
+
+  async resetPassword(request: ResetPasswordRequest, signal?: AbortSignal): Promise<ResetPasswordResponse> {
+    return this.request<ResetPasswordResponse>("/api/authentication/reset-password", {
+      method: "POST",
+      body: JSON.stringify(request),
+      signal,
+    });
+  }
+
+  // Email Verification Methods
+  async verifyEmail(request: VerifyEmailRequest, signal?: AbortSignal): Promise<VerifyEmailResponse> {
+    return this.request<VerifyEmailResponse>("/api/authentication/verify-email", {
+      method: "POST",
+      body: JSON.stringify(request),
+      signal,
+    });
+  }
+
+  async resendVerification(request: ResendVerificationRequest, signal?: AbortSignal): Promise<ResendVerificationResponse> {
+    return this.request<ResendVerificationResponse>("/api/authentication/resend-verification", {
+      method: "POST",
+      body: JSON.stringify(request),
+      signal,
+    }, apiResponseDecoder(resendVerificationDataDecoder));
+  }
+
+  async getPasswordPolicy(signal?: AbortSignal): Promise<GetPasswordPolicyResponse> {
+    return this.request<GetPasswordPolicyResponse>("/api/authentication/password-policy", { signal }, apiResponseDecoder(passwordPolicyDecoder));
+  }
+
+  // Account Methods (the signed-in user's own profile)
+  async getProfile(signal?: AbortSignal): Promise<GetProfileResponse> {
+    return this.request<GetProfileResponse>("/api/account/profile", { signal }, userProfileResponseDecoder);
+  }
+
+  async updateProfile(request: UpdateProfileRequest, signal?: AbortSignal): Promise<UpdateProfileResponse> {
+    return this.request<UpdateProfileResponse>("/api/account/profile", {
+      method: "PUT",
+      body: JSON.stringify(request),
+      signal,
+    }, userProfileResponseDecoder);
+  }
+
+  async changePassword(request: ChangePasswordRequest, signal?: AbortSignal): Promise<ChangePasswordResponse> {
+    return this.request<ChangePasswordResponse>("/api/account/change-password", {
+      method: "POST",
+      body: JSON.stringify(request),
+      signal,
+    });
+  }
+
+  async changeEmail(request: ChangeEmailRequest, signal?: AbortSignal): Promise<ChangeEmailResponse> {
+    return this.request<ChangeEmailResponse>("/api/account/change-email", {
+      method: "POST",
+      body: JSON.stringify(request),
+      signal,
+    }, userProfileResponseDecoder);
+  }
+
+  async uploadAvatar(avatarFile: File, signal?: AbortSignal): Promise<UploadAvatarResponse> {
+    const formData = new FormData();
+    formData.append('avatarFile', avatarFile);
+
+    this.log('Uploading avatar', { fileName: avatarFile.name, fileSize: avatarFile.size });
+
+    return this.request<UploadAvatarResponse>("/api/account/avatar", {
+      method: "POST",
+      body: formData,
+      signal,
+    }, userProfileResponseDecoder);
+  }
+
+  async deleteAvatar(signal?: AbortSignal): Promise<DeleteAvatarResponse> {
+    return this.request<DeleteAvatarResponse>("/api/account/avatar", {
+      method: "DELETE",
+      signal,
+    }, userProfileResponseDecoder);
+  }
+
+  // Two-Factor Methods (authenticator app enrollment)
+  async setupMfa(signal?: AbortSignal): Promise<SetupMfaResponse> {
+    return this.request<SetupMfaResponse>("/api/account/mfa/setup", {
+      method: "POST",
+      signal,
+    }, apiResponseDecoder(mfaSetupDecoder));
+  }
+
+  async enableMfa(request: EnableMfaRequest, signal?: AbortSignal): Promise<EnableMfaResponse> {
+    return this.request<EnableMfaResponse>("/api/account/mfa/enable", {
+      method: "POST",
+      body: JSON.stringify(request),
+      signal,
+    }, mfaRecoveryCodesResponseDecoder);
+  }
+
+  async disableMfa(request: DisableMfaRequest, signal?: AbortSignal): Promise<DisableMfaResponse> {
+    return this.request<DisableMfaResponse>("/api/account/mfa/disable", {
+      method: "POST",
+      body: JSON.stringify(request),
+      signal,
+    }, userProfileResponseDecoder);
+  }
+
+  async regenerateRecoveryCodes(request: RegenerateRecoveryCodesRequest, signal?: AbortSignal): Promise<RegenerateRecoveryCodesResponse> {
+    return this.request<RegenerateRecoveryCodesResponse>("/api/account/mfa/recovery-codes", {
+      method: "POST",
+      body: JSON.stringify(request),
+      signal,
+    }, mfaRecoveryCodesResponseDecoder);
+  }
+
+  // Session Methods (devices signed in to the user's account)
+  async getSessions(signal?: AbortSignal): Promise<GetSessionsResponse> {
+    return this.request<GetSessionsResponse>("/api/account/sessions", { signal }, apiResponseDecoder(array(userSessionDecoder)));
+  }
+
+  async revokeSession(sessionId: string, signal?: AbortSignal): Promise<RevokeSessionResponse> {
+    return this.request<RevokeSessionResponse>(`/api/account/sessions/${sessionId}`, {
+      method: "DELETE",
+      signal,
+    });
+  }
+
+  // Signs out every session, including this one
+  async revokeAllSessions(signal?: AbortSignal): Promise<RevokeAllSessionsResponse> {
+    return this.request<RevokeAllSessionsResponse>("/api/account/sessions", {
+      method: "DELETE",
+      signal,
     });
   }
 
   // Event Registration Methods
-  async registerForEvent(request: RegisterForEventRequest): Promise<RegisterForEventResponse> {
+  async registerForEvent(request: RegisterForEventRequest, signal?: AbortSignal): Promise<RegisterForEventResponse> {
     return this.request<RegisterForEventResponse>("/api/event-registrations/", {
       method: "POST",
       body: JSON.stringify(request),
-    });
+      signal,
+    }, apiResponseDecoder(eventRegistrationDecoder));
   }
 
   async cancelEventRegistration(
     registrationId: string,
-    request: CancelEventRegistrationRequest
+    request: CancelEventRegistrationRequest,
+    signal?: AbortSignal
   ): Promise<CancelEventRegistrationResponse> {
     return this.request<CancelEventRegistrationResponse>(
       `/api/event-registrations/${registrationId}`,
       {
         method: "DELETE",
         body: JSON.stringify(request),
+        signal,
       }
     );
   }
 
-  async getUserEventRegistrations(userId: string): Promise<GetUserEventRegistrationsResponse> {
+  async getUserEventRegistrations(userId: string, signal?: AbortSignal): Promise<GetUserEventRegistrationsResponse> {
     return this.request<GetUserEventRegistrationsResponse>(
-      `/api/event-registrations/user/${userId}`
+      `/api/event-registrations/user/${userId}`,
+      { signal },
+      registrationListResponseDecoder
     );
   }
 
-  async getEventRegistrations(eventId: string): Promise<GetEventRegistrationsResponse> {
+  async getEventRegistrations(eventId: string, signal?: AbortSignal): Promise<GetEventRegistrationsResponse> {
     return this.request<GetEventRegistrationsResponse>(
-      `/api/event-registrations/event/${eventId}`
+      `/api/event-registrations/event/${eventId}`,
+      { signal },
+      registrationListResponseDecoder
     );
   }
 
-  async uploadEventImage(eventId: string, imageFile: File): Promise<UploadEventImageResponse> {
-    const url = `${this.baseUrl}/api/events/event-image`;
-    const timeout = envConfig.apiTimeout;
-    
+  async uploadEventImage(eventId: string, imageFile: File, signal?: AbortSignal): Promise<UploadEventImageResponse> {
     // Create FormData for multipart/form-data upload
     const formData = new FormData();
     formData.append('eventId', eventId);
     formData.append('imageFile', imageFile);
 
-    const headers: Record<string, string> = {};
-
-    if (this.authToken) {
-      headers.Authorization = `Bearer ${this.authToken}`;
-    }
-
-    // Note: Don't set Content-Type header - let browser set it automatically for FormData
-    const config: RequestInit = {
-      method: "POST",
-      headers,
-      body: formData,
-    };
-
-    this.log(`Making image upload request to ${url}`, { 
+    this.log('Uploading event image', { 
       fileName: imageFile.name, 
       fileSize: imageFile.size,
       eventId 
     });
 
-    try {
-      // Create timeout promise
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error(`Upload timeout after ${timeout}ms`)), timeout);
-      });
-
-      // Race between fetch and timeout
-      const response = await Promise.race([
-        fetch(url, config),
-        timeoutPromise
-      ]);
-
-      this.log(`Image upload response from ${url}:`, { status: response.status, ok: response.ok });
-      
-      // Always parse JSON first
-      const data = await response.json();
-      this.log('Parsed image upload response data:', data);
-      
-      if (!response.ok) {
-        // Handle error responses with your backend structure
-        const errorMessage = data?.error || data?.message || `HTTP error! status: ${response.status}`;
-        
-        // Create a more specific error for 401 Unauthorized
-        if (response.status === 401) {
-          const unauthorizedError = new Error(`401: ${errorMessage}`) as Error & { status: number };
-          unauthorizedError.status = 401;
-          throw unauthorizedError;
-        }
-        
-        throw new Error(errorMessage);
-      }
-
-      return data;
-    } catch (error) {
-      this.log("Image upload request failed:", error);
-      throw error;
-    }
+    return this.request<UploadEventImageResponse>("/api/events/event-image", {
+      method: "POST",
+      body: formData,
+      signal,
+    });
   }
 
   // Event Methods
-  async createEvent(request: CreateEventRequest): Promise<CreateEventResponse> {
+  async createEvent(request: CreateEventRequest, signal?: AbortSignal): Promise<CreateEventResponse> {
     return this.request<CreateEventResponse>("/api/events/", {
       method: "POST",
       body: JSON.stringify(request),
-    });
+      signal,
+    }, eventResponseDecoder);
   }
 
-  async updateEvent(eventId: string, request: UpdateEventRequest): Promise<UpdateEventResponse> {
+  async updateEvent(eventId: string, request: UpdateEventRequest, signal?: AbortSignal): Promise<UpdateEventResponse> {
     return this.request<UpdateEventResponse>(`/api/events/${eventId}`, {
       method: "PUT",
       body: JSON.stringify(request),
-    });
+      signal,
+    }, eventResponseDecoder);
+  }
+
+  async updateEventOccurrence(eventId: string, request: UpdateEventOccurrenceRequest, signal?: AbortSignal): Promise<UpdateEventOccurrenceResponse> {
+    return this.request<UpdateEventOccurrenceResponse>(`/api/events/${eventId}/occurrences`, {
+      method: "POST",
+      body: JSON.stringify(request),
+      signal,
+    }, eventResponseDecoder);
   }
 
-  async deleteEvent(eventId: string): Promise<DeleteEventResponse> {
+  async deleteEvent(eventId: string, signal?: AbortSignal): Promise<DeleteEventResponse> {
     return this.request<DeleteEventResponse>(`/api/events/${eventId}`, {
       method: "DELETE",
+      signal,
     });
   }
 
-  async getEvent(eventId: string): Promise<GetEventResponse> {
-    return this.request<GetEventResponse>(`/api/events/${eventId}`);
+  // getEvent calls made in the same tick are coalesced into one getEventsByIds request
+  async getEvent(eventId: string, signal?: AbortSignal): Promise<GetEventResponse> {
+    const event = await this.eventBatcher.load(eventId, signal);
+
+    if (!event) {
+      const endpoint = `/api/events/${eventId}`;
+      throw new NotFoundError('Event not found.', undefined, { method: 'GET', endpoint, url: `${this.baseUrl}${endpoint}` });
+    }
+
+    return { isSuccess: true, message: null, status: 200, error: null, value: event };
+  }
+
+  // Unbatched single event request
+  private async fetchEvent(eventId: string, signal?: AbortSignal): Promise<GetEventResponse> {
+    return this.request<GetEventResponse>(`/api/events/${eventId}`, { signal }, eventResponseDecoder);
   }
 
-  async getAllEvents(): Promise<GetAllEventsResponse> {
-    return this.request<GetAllEventsResponse>("/api/events/");
+  // Batch function for eventBatcher; a lone id uses the plain endpoint
+  private async loadEventBatch(eventIds: string[], signal: AbortSignal): Promise<Map<string, Event>> {
+    if (eventIds.length === 1) {
+      const event = ApiResponseHandler.handleResponse(await this.fetchEvent(eventIds[0], signal));
+      return new Map([[event.id, event]]);
+    }
+
+    this.log(`Coalesced ${eventIds.length} getEvent calls into one batch`);
+    const events = ApiResponseHandler.handleResponse(await this.getEventsByIds(eventIds, signal));
+    return new Map(events.map(event => [event.id, event]));
   }
 
-  async getEventsExtended(request: GetEventsExtendedRequest): Promise<GetEventsExtendedResponse> {
+  // NEW: Load many events at once; falls back to individual requests when the backend has no batch endpoint
+  async getEventsByIds(eventIds: string[], signal?: AbortSignal): Promise<GetEventsByIdsResponse> {
+    const uniqueIds = Array.from(new Set(eventIds));
+    const chunks: string[][] = [];
+    for (let i = 0; i < uniqueIds.length; i += MAX_EVENTS_PER_BATCH) {
+      chunks.push(uniqueIds.slice(i, i + MAX_EVENTS_PER_BATCH));
+    }
+
+    const results = await Promise.all(chunks.map(chunk => this.fetchEventChunk(chunk, signal)));
+
+    return {
+      isSuccess: true,
+      message: 'Events retrieved successfully',
+      status: 200,
+      error: null,
+      value: results.flat(),
+    };
+  }
+
+  private async fetchEventChunk(eventIds: string[], signal?: AbortSignal): Promise<Event[]> {
+    if (this.batchEndpointSupported) {
+      try {
+        const request: GetEventsByIdsRequest = { eventIds };
+        const response = await this.request<GetEventsByIdsResponse>("/api/events/batch", {
+          method: "POST",
+          body: JSON.stringify(request),
+          signal,
+        }, eventListResponseDecoder);
+        return ApiResponseHandler.handleResponse(response);
+      } catch (error) {
+        if (!(error instanceof ApiError) || (error.status !== 404 && error.status !== 405)) {
+          throw error;
+        }
+        this.log('Batch endpoint not available, falling back to individual requests');
+        this.batchEndpointSupported = false;
+      }
+    }
+
+    const events = await runWithConcurrency(eventIds, FALLBACK_CONCURRENCY, async (eventId) => {
+      try {
+        return ApiResponseHandler.handleResponse(await this.fetchEvent(eventId, signal));
+      } catch (error) {
+        // Match the batch endpoint, which omits events that do not exist
+        if (error instanceof NotFoundError) return null;
+        throw error;
+      }
+    });
+
+    return events.filter((event): event is Event => event !== null);
+  }
+
+  async getAllEvents(signal?: AbortSignal): Promise<GetAllEventsResponse> {
+    return this.request<GetAllEventsResponse>("/api/events/", { signal }, eventListResponseDecoder);
+  }
+
+  async getEventsExtended(request: GetEventsExtendedRequest, signal?: AbortSignal): Promise<GetEventsExtendedResponse> {
     return this.request<GetEventsExtendedResponse>("/api/events/GetSorted", {
       method: "POST",
       body: JSON.stringify(request),
-    });
+      signal,
+    }, getEventsExtendedResponseDecoder);
   }
 
-  async getEventTypes(): Promise<GetEventTypesResponse> {
-    return this.request<GetEventTypesResponse>("/api/events/types");
+  async getEventTypes(signal?: AbortSignal): Promise<GetEventTypesResponse> {
+    return this.request<GetEventTypesResponse>("/api/events/types", { signal }, apiResponseDecoder(array(string)));
   }
 
   // Owner Event Methods
-  async getOwnerEvents(ownerId: string = "any-guid"): Promise<GetOwnerEventsResponse> {
+  async getOwnerEvents(ownerId: string = "any-guid", signal?: AbortSignal): Promise<GetOwnerEventsResponse> {
     // Note: The ownerId parameter is ignored by the backend - actual owner comes from JWT token
     // We include it to match the endpoint URL structure: /api/events/owner/{ownerId}
-    return this.request<GetOwnerEventsResponse>(`/api/events/owner/${ownerId}`);
+    return this.request<GetOwnerEventsResponse>(`/api/events/owner/${ownerId}`, { signal }, eventListResponseDecoder);
+  }
+
+  // Invitation Methods (admin only, except validating a link)
+  async getInvitations(signal?: AbortSignal): Promise<GetInvitationsResponse> {
+    return this.request<GetInvitationsResponse>("/api/invitations", { signal }, apiResponseDecoder(array(invitationDecoder)));
+  }
+
+  async createInvitation(request: CreateInvitationRequest, signal?: AbortSignal): Promise<CreateInvitationResponse> {
+    return this.request<CreateInvitationResponse>("/api/invitations", {
+      method: "POST",
+      body: JSON.stringify(request),
+      signal,
+    }, apiResponseDecoder(invitationDecoder));
+  }
+
+  async validateInvitation(request: ValidateInvitationRequest, signal?: AbortSignal): Promise<ValidateInvitationResponse> {
+    return this.request<ValidateInvitationResponse>("/api/invitations/validate", {
+      method: "POST",
+      body: JSON.stringify(request),
+      signal,
+    }, apiResponseDecoder(invitationInfoDecoder));
   }
 }
 
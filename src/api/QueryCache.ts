@@ -0,0 +1,311 @@
+// Client-side query cache with stale-while-revalidate semantics
+
+import { envConfig } from '../utils/envConfig';
+
+export type QueryKey = readonly unknown[];
+
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface QueryOptions {
+  staleTime?: number; // How long data is served without revalidation (ms)
+  cacheTime?: number; // How long unused data is kept after the last subscriber leaves (ms)
+}
+
+export interface QueryState<T = unknown> {
+  data: T | undefined;
+  error: unknown;
+  updatedAt: number; // 0 until the first successful fetch
+  isFetching: boolean;
+  isInvalidated: boolean;
+}
+
+interface CacheEntry<T = unknown> {
+  key: QueryKey;
+  state: QueryState<T>;
+  staleTime: number;
+  cacheTime: number;
+  promise?: Promise<T>;
+  controller?: AbortController;
+  fetcher?: QueryFetcher<T>; // Of the request in flight, to restart it after an invalidation
+  listeners: Set<() => void>;
+  gcTimeout?: ReturnType<typeof setTimeout>;
+}
+
+const DEFAULT_STALE_TIME = 30 * 1000; // 30 seconds
+const DEFAULT_CACHE_TIME = 5 * 60 * 1000; // 5 minutes
+
+export const IDLE_QUERY_STATE: QueryState<never> = {
+  data: undefined,
+  error: undefined,
+  updatedAt: 0,
+  isFetching: false,
+  isInvalidated: false,
+};
+
+/**
+ * QueryCache - Caches API results keyed by endpoint and request params
+ * - Fresh data is served from memory without a request
+ * - Concurrent fetches of the same key share one request
+ * - Stale data is returned immediately while a background revalidation runs
+ * - Mutations invalidate keys by prefix so subscribed components refetch
+ */
+export class QueryCache {
+  private entries = new Map<string, CacheEntry>();
+
+  /**
+   * Stable string hash for a query key (object keys are sorted so param order does not matter)
+   */
+  static hashKey(key: QueryKey): string {
+    return JSON.stringify(key, (_, value) => {
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        return Object.keys(value)
+          .sort()
+          .reduce<Record<string, unknown>>((sorted, k) => {
+            if (value[k] !== undefined) sorted[k] = value[k];
+            return sorted;
+          }, {});
+      }
+      return value;
+    });
+  }
+
+  private log(message: string, ...args: unknown[]) {
+    if (envConfig.debugApi) {
+      console.log(`[QueryCache] ${message}`, ...args);
+    }
+  }
+
+  private getEntry<T>(key: QueryKey, options: QueryOptions = {}): CacheEntry<T> {
+    const hash = QueryCache.hashKey(key);
+    let entry = this.entries.get(hash) as CacheEntry<T> | undefined;
+
+    if (!entry) {
+      entry = {
+        key,
+        state: IDLE_QUERY_STATE,
+        staleTime: options.staleTime ?? DEFAULT_STALE_TIME,
+        cacheTime: options.cacheTime ?? DEFAULT_CACHE_TIME,
+        listeners: new Set(),
+      };
+      this.entries.set(hash, entry as CacheEntry);
+    } else {
+      // The most recent caller decides the timings for the key
+      if (options.staleTime !== undefined) entry.staleTime = options.staleTime;
+      if (options.cacheTime !== undefined) entry.cacheTime = options.cacheTime;
+    }
+
+    return entry;
+  }
+
+  private setState<T>(entry: CacheEntry<T>, patch: Partial<QueryState<T>>) {
+    // Replace the state object so subscribers can compare snapshots by reference
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach(listener => listener());
+  }
+
+  private isStale(entry: CacheEntry): boolean {
+    return entry.state.isInvalidated ||
+      entry.state.updatedAt === 0 ||
+      Date.now() - entry.state.updatedAt >= entry.staleTime;
+  }
+
+  private startFetch<T>(entry: CacheEntry<T>, fetcher: QueryFetcher<T>): Promise<T> {
+    const controller = new AbortController();
+    entry.controller = controller;
+    entry.fetcher = fetcher;
+
+    const promise = fetcher(controller.signal)
+      .then(data => {
+        if (entry.promise === promise) {
+          this.setState(entry, {
+            data,
+            error: undefined,
+            updatedAt: Date.now(),
+            isFetching: false,
+            isInvalidated: false,
+          });
+        }
+        return data;
+      })
+      .catch(error => {
+        if (entry.promise === promise) {
+          // Keep the last good data so a failed revalidation does not blank the UI
+          this.setState(entry, {
+            error: controller.signal.aborted ? entry.state.error : error,
+            isFetching: false,
+          });
+        }
+        throw error;
+      })
+      .finally(() => {
+        if (entry.promise === promise) {
+          entry.promise = undefined;
+          entry.controller = undefined;
+          entry.fetcher = undefined;
+        }
+      });
+
+    entry.promise = promise;
+    this.setState(entry, { isFetching: true });
+    return promise;
+  }
+
+  /**
+   * Get data for a key, fetching it only when missing or stale
+   */
+  fetch<T>(key: QueryKey, fetcher: QueryFetcher<T>, options: QueryOptions = {}): Promise<T> {
+    const entry = this.getEntry<T>(key, options);
+
+    // Deduplicate: share the request already in flight
+    if (entry.promise) {
+      this.log('Joining in-flight request', key);
+      return entry.promise;
+    }
+
+    if (!this.isStale(entry)) {
+      this.log('Serving fresh data', key);
+      return Promise.resolve(entry.state.data as T);
+    }
+
+    const promise = this.startFetch(entry, fetcher);
+
+    // Stale-while-revalidate: answer with the old data, refresh in the background
+    if (entry.state.updatedAt > 0) {
+      this.log('Serving stale data while revalidating', key);
+      promise.catch(error => this.log('Background revalidation failed', key, error));
+      return Promise.resolve(entry.state.data as T);
+    }
+
+    this.log('Fetching', key);
+    return promise;
+  }
+
+  /**
+   * Current state for a key (stable reference until the entry changes)
+   */
+  getState<T>(key: QueryKey): QueryState<T> {
+    const entry = this.entries.get(QueryCache.hashKey(key)) as CacheEntry<T> | undefined;
+    return entry ? entry.state : IDLE_QUERY_STATE;
+  }
+
+  /**
+   * Whether a key holds data that is not stale yet
+   */
+  isFresh(key: QueryKey): boolean {
+    const entry = this.entries.get(QueryCache.hashKey(key));
+    return !!entry && !this.isStale(entry);
+  }
+
+  /**
+   * Read cached data without fetching
+   */
+  getData<T>(key: QueryKey): T | undefined {
+    return this.getState<T>(key).data;
+  }
+
+  /**
+   * Write data for a key, e.g. with the result of a mutation
+   */
+  setData<T>(key: QueryKey, data: T): void {
+    const entry = this.getEntry<T>(key);
+    this.setState(entry, {
+      data,
+      error: undefined,
+      updatedAt: Date.now(),
+      isInvalidated: false,
+    });
+  }
+
+  /**
+   * Subscribe to changes of a key; the last subscriber leaving cancels an unused first fetch
+   */
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const entry = this.getEntry(key);
+    entry.listeners.add(listener);
+
+    if (entry.gcTimeout) {
+      clearTimeout(entry.gcTimeout);
+      entry.gcTimeout = undefined;
+    }
+
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size > 0) return;
+
+      // Nobody is waiting for a first result anymore (e.g. filters changed) - cancel it
+      if (entry.promise && entry.state.updatedAt === 0) {
+        this.log('Cancelling unused request', entry.key);
+        entry.controller?.abort();
+        entry.promise = undefined;
+        entry.controller = undefined;
+        entry.fetcher = undefined;
+        this.setState(entry, { isFetching: false });
+      }
+
+      entry.gcTimeout = setTimeout(() => {
+        const hash = QueryCache.hashKey(entry.key);
+        if (this.entries.get(hash) === entry && entry.listeners.size === 0 && !entry.promise) {
+          this.entries.delete(hash);
+        }
+      }, entry.cacheTime);
+    };
+  }
+
+  /**
+   * Mark every key starting with the given prefix as stale; subscribed components refetch
+   * A request already in flight may carry data from before the change, so it is replaced:
+   * its callers still get its result, but the result is not cached
+   */
+  invalidate(prefix: QueryKey): void {
+    this.forEachMatching(prefix, (entry) => {
+      this.log('Invalidating', entry.key);
+      this.setState(entry, { isInvalidated: true });
+
+      if (entry.promise && entry.fetcher) {
+        this.log('Restarting in-flight request', entry.key);
+        this.startFetch(entry, entry.fetcher)
+          .catch(error => this.log('Refetch after invalidation failed', entry.key, error));
+      }
+    });
+  }
+
+  /**
+   * Drop the data of every key starting with the given prefix (e.g. a deleted event)
+   * Keys that still have subscribers are reset and flagged so those components refetch
+   */
+  remove(prefix: QueryKey): void {
+    this.forEachMatching(prefix, (entry, hash) => {
+      entry.controller?.abort();
+      entry.promise = undefined;
+      entry.controller = undefined;
+      entry.fetcher = undefined;
+
+      if (entry.listeners.size === 0) {
+        this.entries.delete(hash);
+        return;
+      }
+      this.setState(entry, { ...IDLE_QUERY_STATE, isInvalidated: true });
+    });
+  }
+
+  /**
+   * Clear the whole cache (e.g. on logout so no user-specific data survives)
+   */
+  clear(): void {
+    this.remove([]);
+  }
+
+  private forEachMatching(prefix: QueryKey, callback: (entry: CacheEntry, hash: string) => void) {
+    const prefixHashes = prefix.map(part => QueryCache.hashKey([part]));
+
+    Array.from(this.entries.entries()).forEach(([hash, entry]) => {
+      const matches = prefixHashes.every((partHash, index) =>
+        index < entry.key.length && QueryCache.hashKey([entry.key[index]]) === partHash
+      );
+      if (matches) callback(entry, hash);
+    });
+  }
+}
+
+// Export a singleton instance
+export const queryCache = new QueryCache();
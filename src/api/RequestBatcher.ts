@@ -0,0 +1,113 @@
+// Coalesces single-item lookups made in the same tick into one batched request
+
+type BatchFunction<K, V> = (keys: K[], signal: AbortSignal) => Promise<Map<K, V>>;
+
+interface PendingLoad<K, V> {
+  key: K;
+  signal?: AbortSignal;
+  resolve: (value: V | undefined) => void;
+  reject: (error: unknown) => void;
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('The operation was aborted.', 'AbortError');
+}
+
+/**
+ * RequestBatcher - Collects load(key) calls until the current tick ends, then runs one batch
+ * - Duplicate keys in the same tick share one entry in the batch
+ * - Each caller can abort independently; the batch is only cancelled once every caller has aborted
+ */
+export class RequestBatcher<K, V> {
+  private batchFn: BatchFunction<K, V>;
+  private queue: PendingLoad<K, V>[] = [];
+
+  constructor(batchFn: BatchFunction<K, V>) {
+    this.batchFn = batchFn;
+  }
+
+  /**
+   * Queue a key; resolves with its value, or undefined when the batch did not return it
+   */
+  load(key: K, signal?: AbortSignal): Promise<V | undefined> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    return new Promise((resolve, reject) => {
+      // The first load of a tick schedules the flush
+      if (this.queue.length === 0) {
+        queueMicrotask(() => this.flush());
+      }
+      this.queue.push({ key, signal, resolve, reject });
+    });
+  }
+
+  private flush() {
+    const batch = this.queue;
+    this.queue = [];
+
+    const controller = new AbortController();
+    let activeCallers = batch.length;
+
+    const abortListeners = new Map<PendingLoad<K, V>, () => void>();
+    const settle = (pending: PendingLoad<K, V>, callback: () => void) => {
+      const onAbort = abortListeners.get(pending);
+      if (!onAbort) return; // Already settled
+      abortListeners.delete(pending);
+      pending.signal?.removeEventListener('abort', onAbort);
+      callback();
+    };
+
+    batch.forEach(pending => {
+      const onAbort = () => {
+        settle(pending, () => pending.reject(createAbortError()));
+        activeCallers--;
+        if (activeCallers === 0) {
+          controller.abort();
+        }
+      };
+      abortListeners.set(pending, onAbort);
+      pending.signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    // Callers that aborted while the load was queued
+    batch.forEach(pending => {
+      if (pending.signal?.aborted) abortListeners.get(pending)?.();
+    });
+
+    if (activeCallers === 0) return;
+
+    const keys = Array.from(new Set(batch.map(pending => pending.key)));
+
+    this.batchFn(keys, controller.signal)
+      .then(results => {
+        batch.forEach(pending => settle(pending, () => pending.resolve(results.get(pending.key))));
+      })
+      .catch(error => {
+        batch.forEach(pending => settle(pending, () => pending.reject(error)));
+      });
+  }
+}
+
+/**
+ * Run an async task for every item with at most `limit` tasks in flight
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,193 @@
+// Cached event queries and mutations that keep the query cache consistent
+
+import { apiService } from './ApiService';
+import { queryCache, type QueryOptions } from './QueryCache';
+import { ApiError, ApiResponseHandler } from '../types';
+import type { Event, EventRegistration } from '../models';
+import type { CreateEventRequest, UpdateEventRequest, UpdateEventOccurrenceRequest } from '../contracts/request/EventRequests';
+import type { RegisterForEventRequest, CancelEventRegistrationRequest } from '../contracts/request/EventRegistrationRequests';
+import type { GetEventsExtendedRequest } from '../contracts/request/GetEventsExtendedRequest';
+import type { PaginatedResult } from '../contracts/response/GetEventsExtendedResponse';
+import type { EventImageData } from '../contracts/response/EventRegistrationResponses';
+
+// Query keys - every event query starts with 'events' so it can be invalidated as a group
+export const eventQueryKeys = {
+  all: ['events'] as const,
+  types: () => ['events', 'types'] as const,
+  details: () => ['events', 'detail'] as const,
+  detail: (eventId: string) => ['events', 'detail', eventId] as const,
+  pages: () => ['events', 'page'] as const,
+  page: (request: GetEventsExtendedRequest) => ['events', 'page', request] as const,
+  owner: () => ['events', 'owner'] as const,
+  registrations: (eventId: string) => ['events', 'registrations', eventId] as const,
+  userRegistrations: (userId: string) => ['events', 'user-registrations', userId] as const,
+};
+
+// Cache timings per query
+export const eventQueryOptions = {
+  types: { staleTime: 10 * 60 * 1000 } satisfies QueryOptions, // Event types rarely change
+  detail: { staleTime: 30 * 1000 } satisfies QueryOptions,
+  page: { staleTime: 30 * 1000 } satisfies QueryOptions,
+};
+
+// Fetchers used by both the imperative queries and the hooks
+export const eventFetchers = {
+  types: async (signal: AbortSignal): Promise<string[]> => {
+    const response = await apiService.getEventTypes(signal);
+    return ApiResponseHandler.handleResponse(response) || [];
+  },
+
+  detail: (eventId: string) => async (signal: AbortSignal): Promise<Event> => {
+    const response = await apiService.getEvent(eventId, signal);
+    return ApiResponseHandler.handleResponse(response);
+  },
+
+  page: (request: GetEventsExtendedRequest) => async (signal: AbortSignal): Promise<PaginatedResult<Event>> => {
+    const response = await apiService.getEventsExtended(request, signal);
+
+    if (!response.isSuccess || !response.value) {
+      throw new ApiError(response.message || 'Failed to load events', response.statusCode);
+    }
+
+    // Seed the detail cache so opening an event from the list paints instantly;
+    // list items may omit detail-only fields, so they are marked stale and revalidated on open
+    response.value.items.forEach(event => {
+      const detailKey = eventQueryKeys.detail(event.id);
+      if (!queryCache.getData(detailKey)) {
+        queryCache.setData(detailKey, event);
+        queryCache.invalidate(detailKey);
+      }
+    });
+
+    return response.value;
+  },
+};
+
+// Imperative cached queries (for code outside React components)
+export const eventQueries = {
+  eventTypes: (): Promise<string[]> =>
+    queryCache.fetch(eventQueryKeys.types(), eventFetchers.types, eventQueryOptions.types),
+
+  event: (eventId: string): Promise<Event> =>
+    queryCache.fetch(eventQueryKeys.detail(eventId), eventFetchers.detail(eventId), eventQueryOptions.detail),
+
+  eventsPage: (request: GetEventsExtendedRequest): Promise<PaginatedResult<Event>> =>
+    queryCache.fetch(eventQueryKeys.page(request), eventFetchers.page(request), eventQueryOptions.page),
+
+  /**
+   * Many events by id in one batched request; cached events are not requested again
+   * Events that no longer exist are missing from the returned map
+   */
+  eventsByIds: async (eventIds: string[], signal?: AbortSignal): Promise<Map<string, Event>> => {
+    const events = new Map<string, Event>();
+    const missingIds: string[] = [];
+
+    new Set(eventIds).forEach(eventId => {
+      const detailKey = eventQueryKeys.detail(eventId);
+      const cached = queryCache.getData<Event>(detailKey);
+
+      if (cached && queryCache.isFresh(detailKey)) {
+        events.set(eventId, cached);
+      } else {
+        missingIds.push(eventId);
+      }
+    });
+
+    if (missingIds.length > 0) {
+      const response = await apiService.getEventsByIds(missingIds, signal);
+      ApiResponseHandler.handleResponse(response).forEach(event => {
+        queryCache.setData(eventQueryKeys.detail(event.id), event);
+        events.set(event.id, event);
+      });
+    }
+
+    return events;
+  },
+};
+
+// Lists that show registration counts or ownership of an event
+const invalidateEventLists = () => {
+  queryCache.invalidate(eventQueryKeys.pages());
+  queryCache.invalidate(eventQueryKeys.owner());
+};
+
+// Mutations - call ApiService and invalidate every query the change affects
+export const eventMutations = {
+  createEvent: async (request: CreateEventRequest): Promise<Event> => {
+    const response = await apiService.createEvent(request);
+    const event = ApiResponseHandler.handleResponse(response);
+
+    queryCache.setData(eventQueryKeys.detail(event.id), event);
+    invalidateEventLists();
+    return event;
+  },
+
+  updateEvent: async (eventId: string, request: UpdateEventRequest): Promise<Event> => {
+    const response = await apiService.updateEvent(eventId, request);
+    const event = ApiResponseHandler.handleResponse(response);
+
+    queryCache.setData(eventQueryKeys.detail(eventId), event);
+    invalidateEventLists();
+    return event;
+  },
+
+  /**
+   * Save one date of a series as its own event; the series no longer produces that date
+   */
+  updateEventOccurrence: async (seriesId: string, request: UpdateEventOccurrenceRequest): Promise<Event> => {
+    const response = await apiService.updateEventOccurrence(seriesId, request);
+    const event = ApiResponseHandler.handleResponse(response);
+
+    queryCache.setData(eventQueryKeys.detail(event.id), event);
+    queryCache.invalidate(eventQueryKeys.detail(seriesId));
+    invalidateEventLists();
+    return event;
+  },
+
+  deleteEvent: async (eventId: string): Promise<void> => {
+    const response = await apiService.deleteEvent(eventId);
+    // A successful delete carries no value, so only failures are checked
+    if (!response.isSuccess) {
+      ApiResponseHandler.handleResponse(response);
+    }
+
+    queryCache.remove(eventQueryKeys.detail(eventId));
+    queryCache.remove(eventQueryKeys.registrations(eventId));
+    invalidateEventLists();
+  },
+
+  uploadEventImage: async (eventId: string, imageFile: File): Promise<EventImageData> => {
+    const response = await apiService.uploadEventImage(eventId, imageFile);
+    const image = ApiResponseHandler.handleResponse(response);
+
+    queryCache.invalidate(eventQueryKeys.detail(eventId));
+    invalidateEventLists();
+    return image;
+  },
+
+  registerForEvent: async (request: RegisterForEventRequest): Promise<EventRegistration> => {
+    const response = await apiService.registerForEvent(request);
+    const registration = ApiResponseHandler.handleResponse(response);
+
+    queryCache.invalidate(eventQueryKeys.detail(request.eventId));
+    queryCache.invalidate(eventQueryKeys.registrations(request.eventId));
+    queryCache.invalidate(eventQueryKeys.userRegistrations(request.appUserId));
+    invalidateEventLists();
+    return registration;
+  },
+
+  cancelEventRegistration: async (
+    registration: Pick<EventRegistration, 'id' | 'eventId'>,
+    request: CancelEventRegistrationRequest
+  ): Promise<void> => {
+    const response = await apiService.cancelEventRegistration(registration.id, request);
+    if (!response.isSuccess) {
+      ApiResponseHandler.handleResponse(response);
+    }
+
+    queryCache.invalidate(eventQueryKeys.detail(registration.eventId));
+    queryCache.invalidate(eventQueryKeys.registrations(registration.eventId));
+    queryCache.invalidate(eventQueryKeys.userRegistrations(request.appUserId));
+    invalidateEventLists();
+  },
+};
@@ -1,2 +1,5 @@
 // Export the API service
 export { ApiService, apiService } from "./ApiService";
+export { QueryCache, queryCache } from "./QueryCache";
+export type { QueryKey, QueryFetcher, QueryOptions, QueryState } from "./QueryCache";
+export { eventQueryKeys, eventQueries, eventMutations } from "./eventQueries";
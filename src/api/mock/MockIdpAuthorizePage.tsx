@@ -0,0 +1,84 @@
+import { useSearchParams } from 'react-router-dom';
+import { AlertTriangle, Building2, UserCircle } from 'lucide-react';
+import {
+  buildAuthorizationResponseUrl,
+  createAuthorizationCode,
+  parseAuthorizationRequest,
+  MOCK_IDP_ACCOUNTS,
+  type MockIdpAccount,
+} from './mockIdp';
+
+/**
+ * MockIdpAuthorizePage - Login screen of the stand-in identity provider (/mock-idp/authorize)
+ * Only routed when VITE_USE_MOCK_API=true; pick a directory account instead of entering a password.
+ */
+export function MockIdpAuthorizePage() {
+  const [searchParams] = useSearchParams();
+  const request = parseAuthorizationRequest(searchParams);
+
+  // Like a real IdP, requests from unknown clients or redirect URIs are not sent back
+  if (typeof request === 'string') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-100 py-12 px-4">
+        <div className="max-w-md w-full bg-white rounded-lg shadow p-6 space-y-3 text-center">
+          <AlertTriangle className="h-8 w-8 text-red-600 mx-auto" />
+          <h2 className="text-xl font-semibold text-slate-900">Invalid sign-in request</h2>
+          <p className="text-sm text-slate-600">{request}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const signIn = (account: MockIdpAccount) => {
+    const code = createAuthorizationCode(request, account);
+    console.log('[MockIdp] Signed in', account.email);
+    window.location.assign(buildAuthorizationResponseUrl(request, { code }));
+  };
+
+  const cancel = () => {
+    window.location.assign(buildAuthorizationResponseUrl(request, {
+      error: 'access_denied',
+      errorDescription: 'The user cancelled the sign-in.',
+    }));
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-100 py-12 px-4">
+      <div className="max-w-md w-full bg-white rounded-lg shadow p-6 space-y-6">
+        <div className="text-center">
+          <Building2 className="h-10 w-10 text-slate-700 mx-auto" />
+          <h2 className="mt-3 text-2xl font-semibold text-slate-900">Corporate sign-in</h2>
+          <p className="mt-1 text-sm text-slate-500">
+            Stand-in identity provider for the demo. Choose who to sign in as.
+          </p>
+        </div>
+
+        <ul className="space-y-2">
+          {MOCK_IDP_ACCOUNTS.map(account => (
+            <li key={account.sub}>
+              <button
+                type="button"
+                onClick={() => signIn(account)}
+                className="w-full flex items-center gap-3 p-3 border border-slate-200 rounded-md text-left hover:bg-slate-50 transition-colors"
+              >
+                <UserCircle className="h-8 w-8 text-slate-400 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-slate-900">{account.givenName} {account.familyName}</p>
+                  <p className="text-xs text-slate-500 truncate">{account.email} · {account.department}</p>
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <button
+          type="button"
+          onClick={cancel}
+          className="w-full py-2 px-4 border border-slate-300 text-sm font-medium rounded-md text-slate-700 bg-white hover:bg-slate-50 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+// Export the mock backend (only loaded when VITE_USE_MOCK_API=true)
+export { mockFetch, resetMockDatabase } from "./mockFetch";
+export { MockDatabase, mockDb } from "./mockDb";
+export { MockIdpAuthorizePage } from "./MockIdpAuthorizePage";
+export type { MockData, MockUser, MockEvent } from "./mockDb";
@@ -0,0 +1,369 @@
+// Seeded data store for the mock backend, persisted to localStorage
+// Demo accounts: admin@calvent.dev / Admin123!, organizer@calvent.dev / Organizer123!,
+// user@calvent.dev / User1234!
+
+import { envConfig } from '../../utils/envConfig';
+import type { EventRegistration } from '../../models';
+
+export interface MockUser {
+  id: string;
+  email: string;
+  password: string; // Plain text - demo data only
+  userName: string;
+  firstName: string;
+  lastName: string;
+  role: 'Admin' | 'User';
+  phoneNumber: string;
+  emailVerified: boolean; // Self-registered accounts must open the emailed link before logging in
+  avatarUrl: string | null; // Data URL, stored inline like event images
+  mfaSecret: string | null; // Base32 TOTP secret; set once enrollment is confirmed
+  mfaPendingSecret: string | null; // Secret from setup, waiting for the first code
+  mfaRecoveryCodes: string[]; // Unused codes - plain text like the password, demo data only
+  failedLoginCount: number; // Wrong passwords in a row; reset by a successful login
+  lockoutEnd: string | null; // Login is refused until then
+}
+
+// Stored without the derived fields (noOfRegistrations, registeredIds, owner)
+export interface MockEvent {
+  id: string;
+  adminId: string;
+  title: string;
+  description: string;
+  eventDate: string;
+  location: string;
+  type: string;
+  capacity: number;
+  isOpenForRegistration: boolean;
+  registrationCutoffDate: string;
+  imageUrl: string | null;
+  recurrenceRule: string | null; // RRULE value; null for one-off events
+  recurrenceExceptions: string[]; // Skipped occurrence start times
+  seriesId: string | null; // A date edited on its own keeps a link to its series
+  originalOccurrenceDate: string | null;
+}
+
+export interface MockRefreshToken {
+  token: string;
+  userId: string;
+  sessionId: string; // Rotated tokens stay in the session started at login
+  expiresAt: string;
+}
+
+// One signed-in device, from login until logout or revocation
+export interface MockSession {
+  id: string;
+  userId: string;
+  browser: string;
+  locationLabel: string;
+  createdAt: string;
+  lastRefreshedAt: string;
+  revokedAt: string | null; // Refreshes are answered with SessionRevoked from then on
+}
+
+// Password accepted, second factor outstanding
+export interface MockMfaChallenge {
+  id: string;
+  userId: string;
+  expiresAt: string;
+  failedAttempts: number; // The challenge is dropped after too many wrong codes
+}
+
+// Issued by the stand-in identity provider's login screen, redeemed once at its token endpoint
+export interface MockAuthorizationCode {
+  code: string;
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string; // S256 PKCE challenge the code_verifier must match
+  nonce: string | null; // Copied into the ID token
+  accountId: string; // MockIdpAccount.sub
+  expiresAt: string;
+}
+
+// Single-use link token sent by the forgot-password endpoint
+export interface MockPasswordResetToken {
+  token: string;
+  userId: string;
+  expiresAt: string;
+  usedAt: string | null;
+}
+
+// Link token sent after self-registration, or to the new address when changing email
+export interface MockEmailVerificationToken {
+  token: string;
+  userId: string;
+  newEmail: string | null; // Set for email changes; applied when the link is opened
+  createdAt: string; // For the resend cooldown
+  expiresAt: string;
+}
+
+// Invitation sent by an admin; status is derived from acceptedAt and expiresAt
+export interface MockInvitation {
+  id: string;
+  token: string;
+  email: string;
+  role: MockUser['role'];
+  invitedById: string;
+  createdAt: string;
+  expiresAt: string;
+  acceptedAt: string | null;
+}
+
+export interface MockData {
+  version: number;
+  users: MockUser[];
+  events: MockEvent[];
+  registrations: EventRegistration[];
+  eventTypes: string[];
+  refreshTokens: MockRefreshToken[];
+  sessions: MockSession[];
+  mfaChallenges: MockMfaChallenge[];
+  authorizationCodes: MockAuthorizationCode[];
+  passwordResetTokens: MockPasswordResetToken[];
+  emailVerificationTokens: MockEmailVerificationToken[];
+  invitations: MockInvitation[];
+}
+
+// Bump when the shape of MockData changes so old demo data is reseeded
+const MOCK_DATA_VERSION = 10;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Dates relative to today so the list and calendar always have upcoming events
+function daysFromNow(days: number, hour: number = 18): string {
+  const date = new Date(Date.now() + days * DAY);
+  date.setUTCHours(hour, 0, 0, 0);
+  return date.toISOString();
+}
+
+function createSeedData(): MockData {
+  const users: MockUser[] = [
+    {
+      id: '6f1c2a5e-1d4b-4b7a-9a51-0c3e2f1a0001',
+      email: 'admin@calvent.dev',
+      password: 'Admin123!',
+      userName: 'admin',
+      firstName: 'Ada',
+      lastName: 'Admin',
+      role: 'Admin',
+      phoneNumber: '+1 555 0100',
+      emailVerified: true,
+      avatarUrl: null,
+      mfaSecret: null,
+      mfaPendingSecret: null,
+      mfaRecoveryCodes: [],
+      failedLoginCount: 0,
+      lockoutEnd: null,
+    },
+    {
+      id: '6f1c2a5e-1d4b-4b7a-9a51-0c3e2f1a0002',
+      email: 'organizer@calvent.dev',
+      password: 'Organizer123!',
+      userName: 'organizer',
+      firstName: 'Omar',
+      lastName: 'Organizer',
+      role: 'Admin',
+      phoneNumber: '+1 555 0101',
+      emailVerified: true,
+      avatarUrl: null,
+      mfaSecret: null,
+      mfaPendingSecret: null,
+      mfaRecoveryCodes: [],
+      failedLoginCount: 0,
+      lockoutEnd: null,
+    },
+    {
+      id: '6f1c2a5e-1d4b-4b7a-9a51-0c3e2f1a0003',
+      email: 'user@calvent.dev',
+      password: 'User1234!',
+      userName: 'user',
+      firstName: 'Uma',
+      lastName: 'User',
+      role: 'User',
+      phoneNumber: '+1 555 0102',
+      emailVerified: true,
+      avatarUrl: null,
+      mfaSecret: null,
+      mfaPendingSecret: null,
+      mfaRecoveryCodes: [],
+      failedLoginCount: 0,
+      lockoutEnd: null,
+    },
+  ];
+
+  const [admin, organizer, user] = users;
+
+  const eventSeeds: Array<[string, string, string, string, number, number, string]> = [
+    // title, type, location, owner id, days from now, capacity, description
+    ['React Summit Meetup', 'Conference', 'Hall A, Tech Park', admin.id, 3, 120, 'Talks on React 19, server components and the new compiler.'],
+    ['TypeScript Deep Dive', 'Workshop', 'Room 204, Innovation Hub', admin.id, 7, 25, 'Hands-on workshop covering generics, conditional types and type narrowing.'],
+    ['Startup Pitch Night', 'Networking', 'Rooftop Lounge', organizer.id, 10, 60, 'Early-stage founders pitch to a panel of investors.'],
+    ['Cloud Architecture Seminar', 'Seminar', 'Auditorium 1', organizer.id, 14, 200, 'Designing resilient systems on managed cloud services.'],
+    ['UX Design Sprint', 'Workshop', 'Design Studio', admin.id, 18, 15, 'A one-day sprint from problem framing to a tested prototype.'],
+    ['Charity 5K Run', 'Sports', 'Riverside Park', organizer.id, 21, 300, 'Fun run raising funds for the local children\'s hospital.'],
+    ['Jazz in the Courtyard', 'Concert', 'Main Courtyard', admin.id, 25, 150, 'An evening of live jazz with local musicians.'],
+    ['Data Science Bootcamp', 'Workshop', 'Lab 3, Innovation Hub', organizer.id, 32, 30, 'Three intensive sessions on pandas, visualisation and model evaluation.'],
+    ['Security Awareness Talk', 'Seminar', 'Room 101', admin.id, 40, 80, 'Phishing, password hygiene and multi-factor authentication in practice.'],
+    ['Autumn Tech Conference', 'Conference', 'Convention Centre', organizer.id, 55, 500, 'Two tracks of talks on web, cloud and AI engineering.'],
+    ['Spring Networking Mixer', 'Networking', 'Hotel Grand Ballroom', admin.id, -12, 100, 'Meet peers from across the industry over drinks.'],
+    ['Intro to Accessibility', 'Workshop', 'Room 204, Innovation Hub', organizer.id, -5, 20, 'Building inclusive interfaces with semantic HTML and ARIA.'],
+  ];
+
+  const events: MockEvent[] = eventSeeds.map(([title, type, location, adminId, days, capacity, description], index) => ({
+    id: `9b7e4c1d-2f3a-4e5b-8c6d-${String(index + 1).padStart(12, '0')}`,
+    adminId,
+    title,
+    description,
+    eventDate: daysFromNow(days),
+    location,
+    type,
+    capacity,
+    isOpenForRegistration: true,
+    registrationCutoffDate: daysFromNow(days - 1, 23),
+    imageUrl: null,
+    recurrenceRule: null,
+    recurrenceExceptions: [],
+    seriesId: null,
+    originalOccurrenceDate: null,
+  }));
+
+  // A weekly series for the calendar and list to expand, with no session in the fourth week
+  // (occurrences are generated in local time, so the skipped date is computed the same way)
+  const studyGroupStart = new Date(daysFromNow(2));
+  const skippedSession = new Date(studyGroupStart);
+  skippedSession.setDate(skippedSession.getDate() + 3 * 7);
+  events.push({
+    id: '9b7e4c1d-2f3a-4e5b-8c6d-000000000013',
+    adminId: organizer.id,
+    title: 'JavaScript Study Group',
+    description: 'Weekly evening session working through a chapter of "Eloquent JavaScript" together.',
+    eventDate: studyGroupStart.toISOString(),
+    location: 'Library, Room 2',
+    type: 'Workshop',
+    capacity: 20,
+    isOpenForRegistration: true,
+    registrationCutoffDate: daysFromNow(1, 23),
+    imageUrl: null,
+    recurrenceRule: 'FREQ=WEEKLY;COUNT=12',
+    recurrenceExceptions: [skippedSession.toISOString()],
+    seriesId: null,
+    originalOccurrenceDate: null,
+  });
+
+  const registrations: EventRegistration[] = [events[0], events[2], events[10]].map((event, index) => ({
+    id: `3c5a7e9b-1d2f-4a6c-8e0b-${String(index + 1).padStart(12, '0')}`,
+    eventId: event.id,
+    userId: user.id,
+    name: `${user.firstName} ${user.lastName}`,
+    email: user.email,
+    phone: user.phoneNumber,
+    registeredAt: daysFromNow(-20 + index, 9),
+    isCanceled: false,
+  }));
+
+  // One invitation of each state for the admin invitations page
+  const invitationSeeds: Array<[string, MockUser['role'], number, number | null]> = [
+    // email, role, sent (days from now), accepted (days from now)
+    ['pending.organizer@calvent.dev', 'Admin', -1, null],
+    ['accepted.organizer@calvent.dev', 'Admin', -10, -9],
+    ['expired.organizer@calvent.dev', 'Admin', -14, null],
+  ];
+
+  const invitations: MockInvitation[] = invitationSeeds.map(([email, role, sentDays, acceptedDays], index) => ({
+    id: `5d8f2b4a-6c1e-4f3d-9a7b-${String(index + 1).padStart(12, '0')}`,
+    token: `seed-invitation-${index + 1}`,
+    email,
+    role,
+    invitedById: admin.id,
+    createdAt: daysFromNow(sentDays, 10),
+    expiresAt: daysFromNow(sentDays + 7, 10),
+    acceptedAt: acceptedDays === null ? null : daysFromNow(acceptedDays, 12),
+  }));
+
+  // Other devices for the active sessions list; they have no refresh tokens, so they can only be revoked
+  const sessionSeeds: Array<[MockUser, string, string, number, number]> = [
+    // user, browser, location, first seen (days from now), last refresh (days from now)
+    [user, 'Safari on iPhone', 'Lisbon, Portugal', -30, -1],
+    [user, 'Firefox on Windows', 'Toronto, Canada', -12, -4],
+    [admin, 'Edge on Windows', 'Chicago, United States', -8, -2],
+    [organizer, 'Chrome on Android', 'Nairobi, Kenya', -3, 0],
+  ];
+
+  const sessions: MockSession[] = sessionSeeds.map(([owner, browser, locationLabel, firstSeenDays, lastRefreshDays], index) => ({
+    id: `8a2c4e6f-3b5d-4c7e-9f1a-${String(index + 1).padStart(12, '0')}`,
+    userId: owner.id,
+    browser,
+    locationLabel,
+    createdAt: daysFromNow(firstSeenDays, 8),
+    lastRefreshedAt: daysFromNow(lastRefreshDays, 9),
+    revokedAt: null,
+  }));
+
+  return {
+    version: MOCK_DATA_VERSION,
+    users,
+    events,
+    registrations,
+    eventTypes: ['Conference', 'Workshop', 'Seminar', 'Networking', 'Concert', 'Sports'],
+    refreshTokens: [],
+    sessions,
+    mfaChallenges: [],
+    authorizationCodes: [],
+    passwordResetTokens: [],
+    emailVerificationTokens: [],
+    invitations,
+  };
+}
+
+/**
+ * MockDatabase - In-memory tables backed by localStorage so demo changes survive reloads
+ */
+export class MockDatabase {
+  private storageKey = `${envConfig.localStoragePrefix}mock_db`;
+  data: MockData;
+
+  constructor() {
+    this.data = this.load();
+  }
+
+  private load(): MockData {
+    const stored = localStorage.getItem(this.storageKey);
+    if (stored) {
+      try {
+        const data = JSON.parse(stored) as MockData;
+        if (data.version === MOCK_DATA_VERSION) {
+          return data;
+        }
+        console.log('[MockApi] Stored demo data is outdated, reseeding');
+      } catch (error) {
+        console.error('[MockApi] Failed to parse stored demo data, reseeding:', error);
+      }
+    }
+
+    const seed = createSeedData();
+    this.persist(seed);
+    return seed;
+  }
+
+  private persist(data: MockData) {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(data));
+    } catch (error) {
+      // Usually the quota, e.g. after uploading large images
+      console.error('[MockApi] Failed to persist demo data:', error);
+    }
+  }
+
+  // Call after every mutation
+  save() {
+    this.persist(this.data);
+  }
+
+  // Restore the seeded demo data
+  reset() {
+    this.data = createSeedData();
+    this.persist(this.data);
+  }
+}
+
+// Export a singleton instance
+export const mockDb = new MockDatabase();
@@ -0,0 +1,1618 @@
+// In-browser demo backend implementing every /api endpoint ApiService calls
+// Enabled with VITE_USE_MOCK_API=true; ApiService swaps fetch for mockFetch.
+// Also serves discovery and the token endpoint of the stand-in identity provider (mockIdp.ts).
+
+import { envConfig } from '../../utils/envConfig';
+import { checkPassword, defaultPasswordPolicy, type PasswordPersonalInfo } from '../../utils/passwordPolicy';
+import { formatRRule, getEventOccurrences, isEventOccurrence, MAX_RECURRENCE_COUNT, parseRRule, pruneExceptions } from '../../lib/recurrenceUtils';
+import { ApiErrorCode, type ApiResponse, type ValidationErrors } from '../../types';
+import type { Event, EventRegistration, Invitation, InvitationStatus } from '../../models';
+import type { Credentials, MfaChallenge, RegisterData, ResendVerificationData, ResetTokenInfo } from '../../contracts/response/AuthenticationResponses';
+import type {
+  ForgotPasswordRequest,
+  LoginRequest,
+  RefreshRequest,
+  RegisterAdminRequest,
+  RegisterUserRequest,
+  ResendVerificationRequest,
+  SsoLoginRequest,
+  ResetPasswordRequest,
+  ValidateResetTokenRequest,
+  VerifyEmailRequest,
+  VerifyMfaRequest,
+  VerifyRecoveryCodeRequest,
+} from '../../contracts/request/AuthenticationRequests';
+import type { CreateEventRequest, UpdateEventRequest, UpdateEventOccurrenceRequest, GetEventsByIdsRequest } from '../../contracts/request/EventRequests';
+import type { RegisterForEventRequest, CancelEventRegistrationRequest } from '../../contracts/request/EventRegistrationRequests';
+import type { GetEventsExtendedRequest } from '../../contracts/request/GetEventsExtendedRequest';
+import type {
+  ChangeEmailRequest,
+  ChangePasswordRequest,
+  DisableMfaRequest,
+  EnableMfaRequest,
+  RegenerateRecoveryCodesRequest,
+  UpdateProfileRequest,
+} from '../../contracts/request/AccountRequests';
+import type { MfaRecoveryCodes, MfaSetup, UserProfile, UserSession } from '../../contracts/response/AccountResponses';
+import type { CreateInvitationRequest, ValidateInvitationRequest } from '../../contracts/request/InvitationRequests';
+import type { InvitationInfo } from '../../contracts/response/InvitationResponses';
+import type { GetEventsExtendedResponse } from '../../contracts/response/GetEventsExtendedResponse';
+import type { EventImageData } from '../../contracts/response/EventRegistrationResponses';
+import { mockDb, type MockEvent, type MockInvitation, type MockMfaChallenge, type MockPasswordResetToken, type MockSession, type MockUser } from './mockDb';
+import { createMockIdToken, createMockJwt, verifyMockIdToken, verifyMockJwt } from './mockJwt';
+import { getMockIdpIssuer, MOCK_IDP_CLIENT_ID, redeemAuthorizationCode } from './mockIdp';
+import { appLink, sendMockEmail } from './mockMailer';
+import { createOtpauthUri, createRecoveryCodes, createTotpSecret, getCurrentTotpCode, verifyTotpCode } from './mockTotp';
+
+// Same lifetimes as the .NET backend
+const AUTH_TOKEN_LIFETIME = 15 * 60 * 1000; // 15 minutes
+const REFRESH_TOKEN_LIFETIME = 7 * 24 * 60 * 60 * 1000; // 7 days
+const PASSWORD_RESET_TOKEN_LIFETIME = 60 * 60 * 1000; // 1 hour
+const MAX_AVATAR_SIZE = 1024 * 1024; // 1 MB
+const INVITATION_LIFETIME = 7 * 24 * 60 * 60 * 1000; // 7 days
+const EMAIL_VERIFICATION_TOKEN_LIFETIME = 24 * 60 * 60 * 1000; // 24 hours
+const VERIFICATION_EMAIL_COOLDOWN = 60 * 1000; // 1 minute between verification emails
+const MFA_CHALLENGE_LIFETIME = 5 * 60 * 1000; // 5 minutes to enter the second factor
+const MAX_MFA_ATTEMPTS = 5; // Wrong codes before the password has to be entered again
+const MFA_ISSUER = 'Calvent'; // Account label shown in authenticator apps
+const ID_TOKEN_LIFETIME = 5 * 60; // Seconds, for the stand-in identity provider
+const MAX_FAILED_LOGINS = 5; // Wrong passwords before the account is locked (ASP.NET Identity default)
+const LOCKOUT_DURATION = 5 * 60 * 1000; // 5 minutes
+const LOGIN_RATE_LIMIT = 10; // Login requests per client and window
+const LOGIN_RATE_WINDOW = 60 * 1000; // 1 minute
+
+interface MockRequest {
+  method: string;
+  params: Record<string, string>;
+  body: unknown;
+  formData: FormData | null;
+  user: MockUser | null; // From a valid Bearer token
+  sessionId: string | null; // Session of that token
+}
+
+interface MockResult {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+type MockHandler = (request: MockRequest) => MockResult | Promise<MockResult>;
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: MockHandler;
+}
+
+// Thrown by handlers to answer with an error envelope
+class MockHttpError extends Error {
+  status: number;
+  value: unknown;
+  code: string | null;
+  headers: Record<string, string>;
+
+  constructor(status: number, message: string, value: unknown = null, code: string | null = null, headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'MockHttpError';
+    this.status = status;
+    this.value = value;
+    this.code = code;
+    this.headers = headers;
+  }
+}
+
+function log(message: string, ...args: unknown[]) {
+  if (envConfig.debugApi) {
+    console.log(`[MockApi] ${message}`, ...args);
+  }
+}
+
+// Response helpers - same envelope as the backend
+function ok<T>(value: T, message: string = 'Success', status: number = 200): MockResult {
+  const body: ApiResponse<T> = { isSuccess: true, message, status, error: null, value };
+  return { status, body };
+}
+
+function validationFailed(errors: ValidationErrors): never {
+  throw new MockHttpError(400, 'One or more validation errors occurred.', errors);
+}
+
+function collectErrors(checks: Array<[field: string, failed: boolean, message: string]>): ValidationErrors {
+  return checks.reduce<ValidationErrors>((errors, [field, failed, message]) => {
+    if (failed) {
+      errors[field] = [...(errors[field] || []), message];
+    }
+    return errors;
+  }, {});
+}
+
+// The demo backend enforces the envConfig policy, one message per failed rule
+function passwordErrors(field: string, password: string | undefined, personalInfo: PasswordPersonalInfo): Array<[string, boolean, string]> {
+  return checkPassword(password || '', defaultPasswordPolicy, personalInfo).rules
+    .map(rule => [field, !rule.passed, rule.error]);
+}
+
+function requireUser(request: MockRequest): MockUser {
+  if (!request.user) {
+    throw new MockHttpError(401, 'Authentication required.');
+  }
+  return request.user;
+}
+
+function requireAdmin(request: MockRequest): MockUser {
+  const user = requireUser(request);
+  if (user.role !== 'Admin') {
+    throw new MockHttpError(403, 'Only admins can perform this action.');
+  }
+  return user;
+}
+
+function findEvent(eventId: string): MockEvent {
+  const event = mockDb.data.events.find(e => e.id === eventId);
+  if (!event) {
+    throw new MockHttpError(404, 'Event not found.');
+  }
+  return event;
+}
+
+function requireOwner(request: MockRequest, event: MockEvent): MockUser {
+  const user = requireAdmin(request);
+  if (event.adminId !== user.id) {
+    throw new MockHttpError(403, 'You can only manage events you own.');
+  }
+  return user;
+}
+
+function activeRegistrations(eventId: string): EventRegistration[] {
+  return mockDb.data.registrations.filter(r => r.eventId === eventId && !r.isCanceled);
+}
+
+// Add the fields the backend derives from registrations and the owner
+function toEventDto(event: MockEvent): Event {
+  const registrations = activeRegistrations(event.id);
+  const owner = mockDb.data.users.find(u => u.id === event.adminId);
+
+  return {
+    ...event,
+    noOfRegistrations: registrations.length,
+    registeredIds: registrations.map(r => r.userId),
+    owner: owner ? `${owner.firstName} ${owner.lastName}`.trim() || owner.userName : undefined,
+  };
+}
+
+function byEventDate(a: MockEvent, b: MockEvent): number {
+  return new Date(a.eventDate).getTime() - new Date(b.eventDate).getTime();
+}
+
+function isValidDate(value: unknown): boolean {
+  return typeof value === 'string' && !isNaN(new Date(value).getTime());
+}
+
+// What the backend derives from the User-Agent header, e.g. "Chrome on Windows"
+function describeUserAgent(userAgent: string): string {
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' : 'Unknown browser';
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' : 'unknown OS';
+  return `${browser} on ${os}`;
+}
+
+// Stands in for IP geolocation: the browser's time zone, e.g. "Europe/Berlin" -> "Berlin, Europe"
+function approximateLocation(): string {
+  const [region, ...city] = Intl.DateTimeFormat().resolvedOptions().timeZone.split('/');
+  return city.length > 0 ? `${city[city.length - 1].replace(/_/g, ' ')}, ${region}` : region || 'Unknown location';
+}
+
+function startSession(user: MockUser): MockSession {
+  const now = new Date().toISOString();
+  const session: MockSession = {
+    id: crypto.randomUUID(),
+    userId: user.id,
+    browser: describeUserAgent(navigator.userAgent),
+    locationLabel: approximateLocation(),
+    createdAt: now,
+    lastRefreshedAt: now,
+    revokedAt: null,
+  };
+  mockDb.data.sessions.push(session);
+  return session;
+}
+
+// Revoked sessions are kept so their next refresh can be answered with SessionRevoked
+function revokeSession(session: MockSession) {
+  session.revokedAt = new Date().toISOString();
+}
+
+function issueCredentials(user: MockUser, sessionId: string): Credentials {
+  const now = Date.now();
+  const authTokenExp = new Date(now + AUTH_TOKEN_LIFETIME);
+  const refreshTokenExp = new Date(now + REFRESH_TOKEN_LIFETIME);
+  const refreshToken = `${crypto.randomUUID()}${crypto.randomUUID()}`.replace(/-/g, '');
+
+  // Drop expired refresh tokens while we are here
+  mockDb.data.refreshTokens = mockDb.data.refreshTokens
+    .filter(t => new Date(t.expiresAt).getTime() > now)
+    .concat({ token: refreshToken, userId: user.id, sessionId, expiresAt: refreshTokenExp.toISOString() });
+  mockDb.save();
+
+  return {
+    authToken: createMockJwt(user, authTokenExp, sessionId),
+    refreshToken,
+    authTokenExp: authTokenExp.toISOString(),
+    refreshTokenExp: refreshTokenExp.toISOString(),
+  };
+}
+
+// Login requests of this browser, standing in for an IP-based rate limiter (kept in memory like one)
+let recentLoginAttempts: number[] = [];
+
+function checkLoginRateLimit() {
+  const now = Date.now();
+  recentLoginAttempts = recentLoginAttempts.filter(time => now - time < LOGIN_RATE_WINDOW);
+  if (recentLoginAttempts.length >= LOGIN_RATE_LIMIT) {
+    const retryAfter = Math.ceil((recentLoginAttempts[0] + LOGIN_RATE_WINDOW - now) / 1000);
+    throw new MockHttpError(429, 'Too many sign-in attempts. Please wait before trying again.', null, null, {
+      'Retry-After': String(retryAfter),
+    });
+  }
+  recentLoginAttempts.push(now);
+}
+
+function throwIfLockedOut(user: MockUser) {
+  const remaining = user.lockoutEnd ? new Date(user.lockoutEnd).getTime() - Date.now() : 0;
+  if (remaining > 0) {
+    throw new MockHttpError(423, 'This account is locked after too many failed sign-in attempts.', null, ApiErrorCode.AccountLocked, {
+      'Retry-After': String(Math.ceil(remaining / 1000)),
+    });
+  }
+}
+
+// Authentication handlers
+const login: MockHandler = async ({ body }) => {
+  const { email, password } = (body || {}) as Partial<LoginRequest>;
+  checkLoginRateLimit();
+
+  const user = mockDb.data.users.find(u => u.email.toLowerCase() === (email || '').trim().toLowerCase());
+  if (user) {
+    throwIfLockedOut(user);
+  }
+
+  if (!user || user.password !== password) {
+    if (user) {
+      user.failedLoginCount += 1;
+      if (user.failedLoginCount >= MAX_FAILED_LOGINS) {
+        user.failedLoginCount = 0;
+        user.lockoutEnd = new Date(Date.now() + LOCKOUT_DURATION).toISOString();
+        log('Account locked', user.email);
+      }
+      mockDb.save();
+      throwIfLockedOut(user);
+    }
+    throw new MockHttpError(401, 'Invalid email or password.');
+  }
+
+  user.failedLoginCount = 0;
+  user.lockoutEnd = null;
+  mockDb.save();
+
+  if (!user.emailVerified) {
+    throw new MockHttpError(403, 'Please verify your email address before logging in.', null, ApiErrorCode.EmailNotVerified);
+  }
+  if (user.mfaSecret) {
+    const challenge: MockMfaChallenge = {
+      id: crypto.randomUUID(),
+      userId: user.id,
+      expiresAt: new Date(Date.now() + MFA_CHALLENGE_LIFETIME).toISOString(),
+      failedAttempts: 0,
+    };
+    mockDb.data.mfaChallenges = mockDb.data.mfaChallenges
+      .filter(c => new Date(c.expiresAt).getTime() > Date.now())
+      .concat(challenge);
+    mockDb.save();
+
+    log('MFA required', user.email, '- current authenticator code:', await getCurrentTotpCode(user.mfaSecret));
+    const value: MfaChallenge = { challengeId: challenge.id, expiresAt: challenge.expiresAt };
+    throw new MockHttpError(403, 'Two-factor authentication is required.', value, ApiErrorCode.MfaRequired);
+  }
+
+  const session = startSession(user);
+  log('Login', user.email, session.browser);
+  return ok(issueCredentials(user, session.id), 'Login successful');
+};
+
+// Accounts are matched by email; new staff get a member account on their first SSO login
+// The identity provider handles second factors, so MFA is not asked for here
+const ssoLogin: MockHandler = ({ body }) => {
+  const { idToken } = (body || {}) as Partial<SsoLoginRequest>;
+  const claims = idToken ? verifyMockIdToken(idToken) : null;
+
+  if (!claims || claims.iss !== getMockIdpIssuer() || claims.aud !== MOCK_IDP_CLIENT_ID) {
+    throw new MockHttpError(401, 'The identity provider token is invalid or has expired.');
+  }
+  if (!claims.email_verified) {
+    throw new MockHttpError(403, 'Your identity provider has not verified your email address.');
+  }
+
+  let user = mockDb.data.users.find(u => u.email.toLowerCase() === claims.email.toLowerCase());
+  if (!user) {
+    const baseName = claims.email.split('@')[0].replace(/[^a-zA-Z0-9._-]/g, '') || 'user';
+    const userName = mockDb.data.users.some(u => u.userName.toLowerCase() === baseName.toLowerCase())
+      ? `${baseName}-${claims.sub}`
+      : baseName;
+    user = {
+      id: crypto.randomUUID(),
+      email: claims.email,
+      password: crypto.randomUUID(), // Unknown to anyone; "forgot password" can set one
+      userName,
+      firstName: claims.given_name,
+      lastName: claims.family_name,
+      role: 'User',
+      phoneNumber: '',
+      emailVerified: true,
+      avatarUrl: null,
+      mfaSecret: null,
+      mfaPendingSecret: null,
+      mfaRecoveryCodes: [],
+      failedLoginCount: 0,
+      lockoutEnd: null,
+    };
+    mockDb.data.users.push(user);
+    log('SSO account created', user.email);
+  }
+
+  const session = startSession(user);
+  log('Login (SSO)', user.email, session.browser);
+  return ok(issueCredentials(user, session.id), 'Login successful');
+};
+
+// Unknown and expired challenges both mean starting over from the password
+function findMfaChallenge(challengeId: string | undefined): { challenge: MockMfaChallenge; user: MockUser } {
+  const challenge = mockDb.data.mfaChallenges.find(c => c.id === challengeId);
+  const user = challenge && mockDb.data.users.find(u => u.id === challenge.userId);
+  if (!challenge || !user?.mfaSecret || new Date(challenge.expiresAt).getTime() <= Date.now()) {
+    throw new MockHttpError(410, 'This sign-in attempt has expired. Please sign in again.');
+  }
+  return { challenge, user };
+}
+
+function failMfaAttempt(challenge: MockMfaChallenge, field: string, message: string): never {
+  challenge.failedAttempts += 1;
+  if (challenge.failedAttempts >= MAX_MFA_ATTEMPTS) {
+    mockDb.data.mfaChallenges = mockDb.data.mfaChallenges.filter(c => c !== challenge);
+    mockDb.save();
+    throw new MockHttpError(410, 'Too many incorrect codes. Please sign in again.');
+  }
+  mockDb.save();
+  validationFailed({ [field]: [message] });
+}
+
+function completeMfaLogin(challenge: MockMfaChallenge, user: MockUser): MockResult {
+  mockDb.data.mfaChallenges = mockDb.data.mfaChallenges.filter(c => c !== challenge);
+  const session = startSession(user);
+  log('Login (MFA)', user.email, session.browser);
+  return ok(issueCredentials(user, session.id), 'Login successful');
+}
+
+const verifyMfa: MockHandler = async ({ body }) => {
+  const { challengeId, code } = (body || {}) as Partial<VerifyMfaRequest>;
+  const { challenge, user } = findMfaChallenge(challengeId);
+
+  if (!(await verifyTotpCode(user.mfaSecret!, code || ''))) {
+    failMfaAttempt(challenge, 'Code', 'The code is incorrect or has expired.');
+  }
+  return completeMfaLogin(challenge, user);
+};
+
+const verifyRecoveryCode: MockHandler = ({ body }) => {
+  const { challengeId, recoveryCode } = (body || {}) as Partial<VerifyRecoveryCodeRequest>;
+  const { challenge, user } = findMfaChallenge(challengeId);
+  // Accept the code with or without its dash and in any case
+  const normalized = (recoveryCode || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+  const matched = user.mfaRecoveryCodes.find(c => c.replace('-', '') === normalized);
+
+  if (!normalized || !matched) {
+    failMfaAttempt(challenge, 'RecoveryCode', 'This recovery code is not valid or has already been used.');
+  }
+
+  user.mfaRecoveryCodes = user.mfaRecoveryCodes.filter(c => c !== matched);
+  log('Recovery code used', user.email, `${user.mfaRecoveryCodes.length} left`);
+  return completeMfaLogin(challenge, user);
+};
+
+const refresh: MockHandler = ({ body }) => {
+  const { refreshToken } = (body || {}) as Partial<RefreshRequest>;
+  const stored = mockDb.data.refreshTokens.find(t => t.token === refreshToken);
+  const user = stored && mockDb.data.users.find(u => u.id === stored.userId);
+
+  const session = stored && mockDb.data.sessions.find(s => s.id === stored.sessionId);
+
+  if (!stored || !user || !session || new Date(stored.expiresAt).getTime() <= Date.now()) {
+    throw new MockHttpError(401, 'Invalid or expired refresh token.');
+  }
+  if (session.revokedAt) {
+    mockDb.data.refreshTokens = mockDb.data.refreshTokens.filter(t => t !== stored);
+    mockDb.save();
+    throw new MockHttpError(401, 'This session has been signed out.', null, ApiErrorCode.SessionRevoked);
+  }
+
+  // Rotate: every refresh token can be used once
+  mockDb.data.refreshTokens = mockDb.data.refreshTokens.filter(t => t !== stored);
+  session.lastRefreshedAt = new Date().toISOString();
+  log('Refresh', user.email);
+  return ok(issueCredentials(user, session.id), 'Token refreshed');
+};
+
+// Ends only the calling session; the user's other devices stay signed in
+const logout: MockHandler = ({ user, sessionId }) => {
+  if (user && sessionId) {
+    mockDb.data.refreshTokens = mockDb.data.refreshTokens.filter(t => t.sessionId !== sessionId);
+    mockDb.data.sessions = mockDb.data.sessions.filter(s => s.id !== sessionId);
+    mockDb.save();
+    log('Logout', user.email);
+  }
+  return ok(null, 'Logged out');
+};
+
+// Shared by both registration endpoints; the caller decides whether the email still needs verifying
+function createAccount(request: Partial<RegisterUserRequest>, role: MockUser['role'], emailVerified: boolean): MockUser {
+  const email = (request.email || '').trim();
+  const userName = (request.userName || '').trim();
+
+  const errors = collectErrors([
+    ['Email', !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email), 'A valid email address is required.'],
+    ['UserName', userName.length < 3, 'Username must be at least 3 characters long.'],
+    ...passwordErrors('Password', request.password, { email, userName }),
+  ]);
+  if (Object.keys(errors).length > 0) validationFailed(errors);
+
+  if (mockDb.data.users.some(u => u.email.toLowerCase() === email.toLowerCase())) {
+    throw new MockHttpError(409, 'An account with this email already exists.');
+  }
+  if (mockDb.data.users.some(u => u.userName.toLowerCase() === userName.toLowerCase())) {
+    throw new MockHttpError(409, 'This username is already taken.');
+  }
+
+  const user: MockUser = {
+    id: crypto.randomUUID(),
+    email,
+    password: request.password!,
+    userName,
+    firstName: request.firstName?.trim() || '',
+    lastName: request.lastName?.trim() || '',
+    role,
+    phoneNumber: request.phoneNumber?.trim() || '',
+    emailVerified,
+    avatarUrl: null,
+    mfaSecret: null,
+    mfaPendingSecret: null,
+    mfaRecoveryCodes: [],
+    failedLoginCount: 0,
+    lockoutEnd: null,
+  };
+  mockDb.data.users.push(user);
+  mockDb.save();
+  return user;
+}
+
+function toRegisterData(user: MockUser): RegisterData {
+  return {
+    userId: user.id,
+    email: user.email,
+    userName: user.userName,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    userRole: user.role,
+    phoneNumber: user.phoneNumber,
+    emailVerificationRequired: !user.emailVerified,
+  };
+}
+
+const registerUser: MockHandler = ({ body }) => {
+  const user = createAccount((body || {}) as Partial<RegisterUserRequest>, 'User', false);
+  sendVerificationEmail(user);
+  return ok(toRegisterData(user), 'Registration successful. Check your email to verify your account.');
+};
+
+// Only possible with an invitation; opening the emailed link already proves the address
+const registerAdmin: MockHandler = ({ body }) => {
+  const request = (body || {}) as Partial<RegisterAdminRequest>;
+  const invitation = findInvitation(request.invitationToken);
+
+  if ((request.email || '').trim().toLowerCase() !== invitation.email.toLowerCase()) {
+    validationFailed({ Email: ['The email address must match the invitation.'] });
+  }
+
+  const user = createAccount({ ...request, email: invitation.email }, invitation.role, true);
+  invitation.acceptedAt = new Date().toISOString();
+  mockDb.save();
+
+  log('Invitation accepted', user.email, user.role);
+  return ok(toRegisterData(user), 'Registration successful');
+};
+
+// Email verification handlers
+// Confirms the account's address, or for an email change the new address that replaces it
+function sendVerificationEmail(user: MockUser, newEmail: string | null = null) {
+  const now = Date.now();
+  const token = `${crypto.randomUUID()}${crypto.randomUUID()}`.replace(/-/g, '');
+
+  // A new link replaces any earlier ones for the same account
+  mockDb.data.emailVerificationTokens = mockDb.data.emailVerificationTokens
+    .filter(t => t.userId !== user.id && new Date(t.expiresAt).getTime() > now)
+    .concat({
+      token,
+      userId: user.id,
+      newEmail,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + EMAIL_VERIFICATION_TOKEN_LIFETIME).toISOString(),
+    });
+  mockDb.save();
+
+  sendMockEmail({
+    to: newEmail ?? user.email,
+    subject: 'Verify your CalVent email address',
+    body: newEmail
+      ? 'Confirm this address to use it for your CalVent account. The link is valid for 24 hours.'
+      : 'Confirm your email address to finish creating your account. The link is valid for 24 hours.',
+    link: appLink(`/verify-email?token=${token}`),
+  });
+}
+
+// Unknown and used links are 400, expired ones 410 so the UI can offer a new link
+const verifyEmail: MockHandler = ({ body }) => {
+  const { token } = (body || {}) as Partial<VerifyEmailRequest>;
+  const stored = mockDb.data.emailVerificationTokens.find(t => t.token === token);
+  const user = stored && mockDb.data.users.find(u => u.id === stored.userId);
+
+  if (!stored || !user) {
+    throw new MockHttpError(400, 'This verification link is invalid or has already been used.');
+  }
+  if (new Date(stored.expiresAt).getTime() <= Date.now()) {
+    throw new MockHttpError(410, 'This verification link has expired.');
+  }
+
+  if (stored.newEmail) {
+    // The address may have been taken while the link sat in the inbox
+    const newEmail = stored.newEmail;
+    if (mockDb.data.users.some(u => u.id !== user.id && u.email.toLowerCase() === newEmail.toLowerCase())) {
+      throw new MockHttpError(409, 'An account with this email already exists.');
+    }
+    user.email = newEmail;
+  }
+  user.emailVerified = true;
+  mockDb.data.emailVerificationTokens = mockDb.data.emailVerificationTokens.filter(t => t.userId !== user.id);
+  mockDb.save();
+
+  log('Email verified', user.email);
+  return ok(null, 'Your email address has been verified. You can now log in.');
+};
+
+const resendVerification: MockHandler = ({ body }) => {
+  const { email } = (body || {}) as Partial<ResendVerificationRequest>;
+  const normalizedEmail = (email || '').trim().toLowerCase();
+
+  const errors = collectErrors([
+    ['Email', !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail), 'A valid email address is required.'],
+  ]);
+  if (Object.keys(errors).length > 0) validationFailed(errors);
+
+  const cooldown: ResendVerificationData = { cooldownSeconds: VERIFICATION_EMAIL_COOLDOWN / 1000 };
+  const user = mockDb.data.users.find(u => u.email.toLowerCase() === normalizedEmail);
+
+  if (user && !user.emailVerified) {
+    const lastSent = mockDb.data.emailVerificationTokens.find(t => t.userId === user.id);
+    const waitMs = lastSent ? new Date(lastSent.createdAt).getTime() + VERIFICATION_EMAIL_COOLDOWN - Date.now() : 0;
+    if (waitMs > 0) {
+      const remaining: ResendVerificationData = { cooldownSeconds: Math.ceil(waitMs / 1000) };
+      throw new MockHttpError(429, 'Please wait before requesting another verification email.', remaining);
+    }
+    sendVerificationEmail(user);
+  } else {
+    log('Verification email not sent (unknown or already verified)', normalizedEmail);
+  }
+
+  // Same answer either way so the endpoint can't be used to discover accounts
+  return ok(cooldown, 'If this account still needs verifying, a new link has been sent.');
+};
+
+// Stand-in identity provider (see mockIdp.ts); plain OAuth responses, not the API envelope
+function oauthError(error: string, description: string): MockResult {
+  return { status: 400, body: { error, error_description: description } };
+}
+
+const idpDiscovery: MockHandler = () => {
+  const issuer = getMockIdpIssuer();
+  return {
+    status: 200,
+    body: {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      response_types_supported: ['code'],
+      grant_types_supported: ['authorization_code'],
+      code_challenge_methods_supported: ['S256'],
+      scopes_supported: ['openid', 'profile', 'email'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['HS256'],
+    },
+  };
+};
+
+const idpToken: MockHandler = async ({ body }) => {
+  const form = (body || {}) as Record<string, string | undefined>;
+  if (form.grant_type !== 'authorization_code') {
+    return oauthError('unsupported_grant_type', 'Only the authorization_code grant is supported.');
+  }
+
+  const redeemed = await redeemAuthorizationCode({
+    code: form.code,
+    clientId: form.client_id,
+    redirectUri: form.redirect_uri,
+    codeVerifier: form.code_verifier,
+  });
+  if (typeof redeemed === 'string') {
+    return oauthError('invalid_grant', redeemed);
+  }
+
+  const { account, nonce } = redeemed;
+  const now = Math.floor(Date.now() / 1000);
+  const idToken = createMockIdToken({
+    iss: getMockIdpIssuer(),
+    sub: account.sub,
+    aud: MOCK_IDP_CLIENT_ID,
+    iat: now,
+    exp: now + ID_TOKEN_LIFETIME,
+    ...(nonce ? { nonce } : {}),
+    email: account.email,
+    email_verified: true,
+    name: `${account.givenName} ${account.familyName}`,
+    given_name: account.givenName,
+    family_name: account.familyName,
+  });
+
+  log('IdP token issued', account.email);
+  return {
+    status: 200,
+    body: {
+      access_token: crypto.randomUUID().replace(/-/g, ''),
+      token_type: 'Bearer',
+      expires_in: ID_TOKEN_LIFETIME,
+      scope: 'openid profile email',
+      id_token: idToken,
+    },
+  };
+};
+
+// Account handlers (the signed-in user's own profile)
+function toUserProfile(user: MockUser): UserProfile {
+  const pending = mockDb.data.emailVerificationTokens.find(
+    t => t.userId === user.id && t.newEmail && new Date(t.expiresAt).getTime() > Date.now()
+  );
+  return {
+    userId: user.id,
+    email: user.email,
+    userName: user.userName,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    phoneNumber: user.phoneNumber,
+    userRole: user.role,
+    avatarUrl: user.avatarUrl,
+    pendingEmail: pending?.newEmail ?? null,
+    mfaEnabled: !!user.mfaSecret,
+    recoveryCodesRemaining: user.mfaSecret ? user.mfaRecoveryCodes.length : 0,
+  };
+}
+
+const getProfile: MockHandler = (request) => {
+  const user = requireUser(request);
+  return ok(toUserProfile(user));
+};
+
+const updateProfile: MockHandler = (request) => {
+  const user = requireUser(request);
+  const body = (request.body || {}) as Partial<UpdateProfileRequest>;
+  const userName = (body.userName || '').trim();
+
+  const errors = collectErrors([
+    ['UserName', userName.length < 3, 'Username must be at least 3 characters long.'],
+  ]);
+  if (Object.keys(errors).length > 0) validationFailed(errors);
+
+  if (mockDb.data.users.some(u => u.id !== user.id && u.userName.toLowerCase() === userName.toLowerCase())) {
+    throw new MockHttpError(409, 'This username is already taken.');
+  }
+
+  user.userName = userName;
+  user.firstName = body.firstName?.trim() || '';
+  user.lastName = body.lastName?.trim() || '';
+  user.phoneNumber = body.phoneNumber?.trim() || '';
+  mockDb.save();
+
+  log('Profile updated', user.email);
+  return ok(toUserProfile(user), 'Profile updated');
+};
+
+const changePassword: MockHandler = (request) => {
+  const user = requireUser(request);
+  const { currentPassword, newPassword } = (request.body || {}) as Partial<ChangePasswordRequest>;
+
+  const errors = collectErrors([
+    ['CurrentPassword', currentPassword !== user.password, 'Current password is incorrect.'],
+    ...passwordErrors('NewPassword', newPassword, user),
+  ]);
+  if (Object.keys(errors).length > 0) validationFailed(errors);
+
+  user.password = newPassword!;
+  mockDb.save();
+
+  log('Password changed', user.email);
+  return ok(null, 'Your password has been changed.');
+};
+
+const changeEmail: MockHandler = (request) => {
+  const user = requireUser(request);
+  const { newEmail, currentPassword } = (request.body || {}) as Partial<ChangeEmailRequest>;
+  const email = (newEmail || '').trim();
+
+  const errors = collectErrors([
+    ['NewEmail', !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email), 'A valid email address is required.'],
+    ['NewEmail', email.toLowerCase() === user.email.toLowerCase(), 'This is already your email address.'],
+    ['CurrentPassword', currentPassword !== user.password, 'Current password is incorrect.'],
+  ]);
+  if (Object.keys(errors).length > 0) validationFailed(errors);
+
+  if (mockDb.data.users.some(u => u.email.toLowerCase() === email.toLowerCase())) {
+    throw new MockHttpError(409, 'An account with this email already exists.');
+  }
+
+  // The current address stays in use until the new one is verified
+  sendVerificationEmail(user, email);
+
+  log('Email change requested', user.email, email);
+  return ok(toUserProfile(user), 'Check your new inbox to confirm the change.');
+};
+
+const uploadAvatar: MockHandler = async (request) => {
+  const user = requireUser(request);
+  const avatarFile = request.formData?.get('avatarFile');
+
+  if (!(avatarFile instanceof File)) {
+    validationFailed({ AvatarFile: ['An image file is required.'] });
+  }
+  if (!avatarFile.type.startsWith('image/')) {
+    validationFailed({ AvatarFile: ['Only image files can be uploaded.'] });
+  }
+  if (avatarFile.size > MAX_AVATAR_SIZE) {
+    validationFailed({ AvatarFile: ['The image must be 1 MB or smaller.'] });
+  }
+
+  user.avatarUrl = await readFileAsDataUrl(avatarFile);
+  mockDb.save();
+
+  log('Avatar uploaded', user.email);
+  return ok(toUserProfile(user), 'Avatar updated');
+};
+
+const deleteAvatar: MockHandler = (request) => {
+  const user = requireUser(request);
+  user.avatarUrl = null;
+  mockDb.save();
+  return ok(toUserProfile(user), 'Avatar removed');
+};
+
+// Two-factor handlers
+const setupMfa: MockHandler = (request) => {
+  const user = requireUser(request);
+  if (user.mfaSecret) {
+    throw new MockHttpError(409, 'Two-factor authentication is already turned on.');
+  }
+
+  // Starting again replaces a secret that was never confirmed
+  user.mfaPendingSecret = createTotpSecret();
+  mockDb.save();
+
+  const setup: MfaSetup = {
+    secret: user.mfaPendingSecret,
+    otpauthUri: createOtpauthUri(user.mfaPendingSecret, user.email, MFA_ISSUER),
+  };
+  return ok(setup);
+};
+
+const enableMfa: MockHandler = async (request) => {
+  const user = requireUser(request);
+  const { code } = (request.body || {}) as Partial<EnableMfaRequest>;
+  if (user.mfaSecret) {
+    throw new MockHttpError(409, 'Two-factor authentication is already turned on.');
+  }
+  if (!user.mfaPendingSecret) {
+    throw new MockHttpError(400, 'Start the authenticator setup first.');
+  }
+  if (!(await verifyTotpCode(user.mfaPendingSecret, code || ''))) {
+    validationFailed({ Code: ['The code is incorrect or has expired.'] });
+  }
+
+  user.mfaSecret = user.mfaPendingSecret;
+  user.mfaPendingSecret = null;
+  user.mfaRecoveryCodes = createRecoveryCodes();
+  mockDb.save();
+
+  log('MFA enabled', user.email);
+  const value: MfaRecoveryCodes = { recoveryCodes: user.mfaRecoveryCodes };
+  return ok(value, 'Two-factor authentication is on.');
+};
+
+const disableMfa: MockHandler = (request) => {
+  const user = requireUser(request);
+  const { currentPassword } = (request.body || {}) as Partial<DisableMfaRequest>;
+  if (currentPassword !== user.password) {
+    validationFailed({ CurrentPassword: ['Current password is incorrect.'] });
+  }
+
+  user.mfaSecret = null;
+  user.mfaPendingSecret = null;
+  user.mfaRecoveryCodes = [];
+  mockDb.save();
+
+  log('MFA disabled', user.email);
+  return ok(toUserProfile(user), 'Two-factor authentication is off.');
+};
+
+const regenerateRecoveryCodes: MockHandler = (request) => {
+  const user = requireUser(request);
+  const { currentPassword } = (request.body || {}) as Partial<RegenerateRecoveryCodesRequest>;
+  if (!user.mfaSecret) {
+    throw new MockHttpError(409, 'Two-factor authentication is turned off.');
+  }
+  if (currentPassword !== user.password) {
+    validationFailed({ CurrentPassword: ['Current password is incorrect.'] });
+  }
+
+  user.mfaRecoveryCodes = createRecoveryCodes();
+  mockDb.save();
+
+  log('Recovery codes regenerated', user.email);
+  const value: MfaRecoveryCodes = { recoveryCodes: user.mfaRecoveryCodes };
+  return ok(value, 'New recovery codes created.');
+};
+
+// Session handlers
+const getSessions: MockHandler = (request) => {
+  const user = requireUser(request);
+  const sessions: UserSession[] = mockDb.data.sessions
+    .filter(s => s.userId === user.id && !s.revokedAt)
+    .map(s => ({
+      id: s.id,
+      browser: s.browser,
+      locationLabel: s.locationLabel,
+      createdAt: s.createdAt,
+      lastRefreshedAt: s.lastRefreshedAt,
+      isCurrent: s.id === request.sessionId,
+    }))
+    .sort((a, b) => Number(b.isCurrent) - Number(a.isCurrent) || b.lastRefreshedAt.localeCompare(a.lastRefreshedAt));
+  return ok(sessions);
+};
+
+const revokeUserSession: MockHandler = (request) => {
+  const user = requireUser(request);
+  const session = mockDb.data.sessions.find(s => s.id === request.params.sessionId && s.userId === user.id && !s.revokedAt);
+  if (!session) {
+    throw new MockHttpError(404, 'Session not found.');
+  }
+
+  revokeSession(session);
+  mockDb.save();
+  log('Session revoked', user.email, session.browser);
+  return ok(null, 'Session signed out');
+};
+
+const revokeAllUserSessions: MockHandler = (request) => {
+  const user = requireUser(request);
+  mockDb.data.sessions.filter(s => s.userId === user.id && !s.revokedAt).forEach(revokeSession);
+  mockDb.save();
+  log('All sessions revoked', user.email);
+  return ok(null, 'Signed out everywhere');
+};
+
+// Password recovery handlers
+const forgotPassword: MockHandler = ({ body }) => {
+  const { email } = (body || {}) as Partial<ForgotPasswordRequest>;
+  const normalizedEmail = (email || '').trim().toLowerCase();
+
+  const errors = collectErrors([
+    ['Email', !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail), 'A valid email address is required.'],
+  ]);
+  if (Object.keys(errors).length > 0) validationFailed(errors);
+
+  const user = mockDb.data.users.find(u => u.email.toLowerCase() === normalizedEmail);
+  if (user) {
+    const now = Date.now();
+    const token = `${crypto.randomUUID()}${crypto.randomUUID()}`.replace(/-/g, '');
+
+    // A new link replaces any earlier ones for the same account
+    mockDb.data.passwordResetTokens = mockDb.data.passwordResetTokens
+      .filter(t => t.userId !== user.id && new Date(t.expiresAt).getTime() > now)
+      .concat({ token, userId: user.id, expiresAt: new Date(now + PASSWORD_RESET_TOKEN_LIFETIME).toISOString(), usedAt: null });
+    mockDb.save();
+
+    sendMockEmail({
+      to: user.email,
+      subject: 'Reset your CalVent password',
+      body: 'Someone asked to reset the password for this account. The link is valid for one hour.',
+      link: appLink(`/reset-password?token=${token}`),
+    });
+  } else {
+    log('Forgot password for unknown email', normalizedEmail);
+  }
+
+  // Same answer either way so the endpoint can't be used to discover accounts
+  return ok(null, 'If an account exists for this email, a reset link has been sent.');
+};
+
+// Invalid and used links are 400, expired ones 410 so the UI can offer a new link
+function findResetToken(token: string | undefined): MockPasswordResetToken {
+  const stored = mockDb.data.passwordResetTokens.find(t => t.token === token);
+  if (!stored || stored.usedAt) {
+    throw new MockHttpError(400, 'This password reset link is invalid or has already been used.');
+  }
+  if (new Date(stored.expiresAt).getTime() <= Date.now()) {
+    throw new MockHttpError(410, 'This password reset link has expired.');
+  }
+  return stored;
+}
+
+const validateResetToken: MockHandler = ({ body }) => {
+  const { token } = (body || {}) as Partial<ValidateResetTokenRequest>;
+  const stored = findResetToken(token);
+  const user = mockDb.data.users.find(u => u.id === stored.userId);
+  if (!user) {
+    throw new MockHttpError(400, 'This password reset link is invalid or has already been used.');
+  }
+
+  const info: ResetTokenInfo = { email: user.email, expiresAt: stored.expiresAt };
+  return ok(info);
+};
+
+const getPasswordPolicy: MockHandler = () => ok(defaultPasswordPolicy);
+
+const resetPassword: MockHandler = ({ body }) => {
+  const { token, newPassword } = (body || {}) as Partial<ResetPasswordRequest>;
+  const stored = findResetToken(token);
+  const user = mockDb.data.users.find(u => u.id === stored.userId);
+  if (!user) {
+    throw new MockHttpError(400, 'This password reset link is invalid or has already been used.');
+  }
+
+  const errors = collectErrors([
+    ...passwordErrors('NewPassword', newPassword, user),
+  ]);
+  if (Object.keys(errors).length > 0) validationFailed(errors);
+
+  user.password = newPassword!;
+  // A new password also ends a lockout from failed sign-ins
+  user.failedLoginCount = 0;
+  user.lockoutEnd = null;
+  stored.usedAt = new Date().toISOString();
+  // Sign out every session that may have been opened with the old password
+  mockDb.data.sessions.filter(s => s.userId === user.id && !s.revokedAt).forEach(revokeSession);
+  mockDb.save();
+
+  log('Password reset', user.email);
+  return ok(null, 'Your password has been reset. You can now log in.');
+};
+
+// Invitation handlers
+function getInvitationStatus(invitation: MockInvitation): InvitationStatus {
+  if (invitation.acceptedAt) return 'Accepted';
+  return new Date(invitation.expiresAt).getTime() <= Date.now() ? 'Expired' : 'Pending';
+}
+
+function getUserDisplayName(userId: string): string {
+  const user = mockDb.data.users.find(u => u.id === userId);
+  if (!user) return 'Unknown';
+  return `${user.firstName} ${user.lastName}`.trim() || user.userName;
+}
+
+function toInvitationDto(invitation: MockInvitation): Invitation {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    status: getInvitationStatus(invitation),
+    invitedBy: getUserDisplayName(invitation.invitedById),
+    createdAt: invitation.createdAt,
+    expiresAt: invitation.expiresAt,
+    acceptedAt: invitation.acceptedAt,
+  };
+}
+
+// Unknown and accepted links are 400, expired ones 410 so the UI can tell the invitee to ask again
+function findInvitation(token: string | undefined): MockInvitation {
+  const invitation = mockDb.data.invitations.find(i => i.token === token);
+  if (!invitation || invitation.acceptedAt) {
+    throw new MockHttpError(400, 'This invitation is invalid or has already been accepted.');
+  }
+  if (new Date(invitation.expiresAt).getTime() <= Date.now()) {
+    throw new MockHttpError(410, 'This invitation has expired.');
+  }
+  return invitation;
+}
+
+const getInvitations: MockHandler = (request) => {
+  requireAdmin(request);
+  const invitations = [...mockDb.data.invitations]
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .map(toInvitationDto);
+  return ok(invitations);
+};
+
+const createInvitation: MockHandler = (request) => {
+  const admin = requireAdmin(request);
+  const { email, role } = (request.body || {}) as Partial<CreateInvitationRequest>;
+  const normalizedEmail = (email || '').trim().toLowerCase();
+
+  const errors = collectErrors([
+    ['Email', !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail), 'A valid email address is required.'],
+    ['Role', role !== 'Admin' && role !== 'User', 'Role must be Admin or User.'],
+  ]);
+  if (Object.keys(errors).length > 0) validationFailed(errors);
+
+  if (mockDb.data.users.some(u => u.email.toLowerCase() === normalizedEmail)) {
+    throw new MockHttpError(409, 'An account with this email already exists.');
+  }
+  if (mockDb.data.invitations.some(i => i.email.toLowerCase() === normalizedEmail && getInvitationStatus(i) === 'Pending')) {
+    throw new MockHttpError(409, 'There is already a pending invitation for this email.');
+  }
+
+  const now = Date.now();
+  const invitation: MockInvitation = {
+    id: crypto.randomUUID(),
+    token: `${crypto.randomUUID()}${crypto.randomUUID()}`.replace(/-/g, ''),
+    email: normalizedEmail,
+    role: role as MockUser['role'],
+    invitedById: admin.id,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + INVITATION_LIFETIME).toISOString(),
+    acceptedAt: null,
+  };
+  mockDb.data.invitations.push(invitation);
+  mockDb.save();
+
+  sendMockEmail({
+    to: invitation.email,
+    subject: 'You have been invited to CalVent',
+    body: `${getUserDisplayName(admin.id)} invited you to join CalVent as ${invitation.role === 'Admin' ? 'an organizer' : 'a member'}. The invitation is valid for 7 days.`,
+    link: appLink(`/accept-invite?token=${invitation.token}`),
+  });
+
+  log('Invitation created', invitation.email, invitation.role);
+  return ok(toInvitationDto(invitation), 'Invitation sent', 201);
+};
+
+const validateInvitation: MockHandler = ({ body }) => {
+  const { token } = (body || {}) as Partial<ValidateInvitationRequest>;
+  const invitation = findInvitation(token);
+
+  const info: InvitationInfo = {
+    email: invitation.email,
+    role: invitation.role,
+    invitedBy: getUserDisplayName(invitation.invitedById),
+    expiresAt: invitation.expiresAt,
+  };
+  return ok(info);
+};
+
+// Event handlers
+function validateEventRequest(request: Partial<CreateEventRequest>): Omit<MockEvent, 'id' | 'adminId' | 'imageUrl' | 'isOpenForRegistration' | 'seriesId' | 'originalOccurrenceDate'> {
+  const recurrence = parseRRule(request.recurrenceRule);
+  const exceptions = request.recurrenceExceptions ?? [];
+
+  const errors = collectErrors([
+    ['Title', !request.title?.trim(), 'Title is required.'],
+    ['Location', !request.location?.trim(), 'Location is required.'],
+    ['Type', !request.type?.trim(), 'Type is required.'],
+    ['Capacity', !Number.isInteger(request.capacity) || (request.capacity ?? 0) < 1, 'Capacity must be at least 1.'],
+    ['EventDate', !isValidDate(request.eventDate), 'A valid event date is required.'],
+    ['RegistrationCutoffDate', !isValidDate(request.registrationCutoffDate), 'A valid registration cutoff date is required.'],
+    ['RecurrenceRule', !!request.recurrenceRule && !recurrence, 'Only daily, weekly and monthly repeat rules are supported.'],
+    ['RecurrenceRule', (recurrence?.count ?? 0) > MAX_RECURRENCE_COUNT, `A series can have at most ${MAX_RECURRENCE_COUNT} dates.`],
+    ['RecurrenceRule', !!recurrence?.until && isValidDate(request.eventDate) &&
+      new Date(`${recurrence.until}T23:59:59`) < new Date(request.eventDate!), 'The series must end after its first date.'],
+    ['RecurrenceExceptions', !Array.isArray(exceptions) || !exceptions.every(isValidDate), 'Skipped dates must be valid dates.'],
+  ]);
+
+  if (isValidDate(request.eventDate) && isValidDate(request.registrationCutoffDate) &&
+      new Date(request.registrationCutoffDate!) > new Date(request.eventDate!)) {
+    errors.RegistrationCutoffDate = ['Registration cutoff must be before the event date.'];
+  }
+  if (Object.keys(errors).length > 0) validationFailed(errors);
+
+  return {
+    title: request.title!.trim(),
+    description: request.description?.trim() || '',
+    eventDate: new Date(request.eventDate!).toISOString(),
+    location: request.location!.trim(),
+    type: request.type!.trim(),
+    capacity: request.capacity!,
+    registrationCutoffDate: new Date(request.registrationCutoffDate!).toISOString(),
+    recurrenceRule: recurrence ? formatRRule(recurrence) : null,
+    recurrenceExceptions: recurrence ? pruneExceptions(request.eventDate!, recurrence, exceptions) : [],
+  };
+}
+
+// A series is in a date range when any of its dates is
+function isEventInRange(event: MockEvent, start: number, end: number): boolean {
+  if (!event.recurrenceRule) {
+    const eventTime = new Date(event.eventDate).getTime();
+    return eventTime >= start && eventTime <= end;
+  }
+  const rangeStart = new Date(Number.isFinite(start) ? start : 0);
+  const rangeEnd = new Date(Number.isFinite(end) ? end : 8.64e15); // Latest representable date
+  return getEventOccurrences(event, rangeStart, rangeEnd, 1).length > 0;
+}
+
+const getAllEvents: MockHandler = () =>
+  ok([...mockDb.data.events].sort(byEventDate).map(toEventDto));
+
+const getEvent: MockHandler = ({ params }) => ok(toEventDto(findEvent(params.eventId)));
+
+const getEventsByIds: MockHandler = ({ body }) => {
+  const { eventIds } = (body || {}) as Partial<GetEventsByIdsRequest>;
+
+  if (!Array.isArray(eventIds) || eventIds.some(id => typeof id !== 'string')) {
+    validationFailed({ EventIds: ['Event ids must be a list of strings.'] });
+  }
+  if (eventIds.length > 100) {
+    validationFailed({ EventIds: ['At most 100 events can be requested at once.'] });
+  }
+
+  // Unknown ids are omitted, like the backend does
+  const ids = new Set(eventIds);
+  return ok(mockDb.data.events.filter(e => ids.has(e.id)).map(toEventDto));
+};
+
+const getEventTypes: MockHandler = () => ok(mockDb.data.eventTypes);
+
+const getSortedEvents: MockHandler = ({ body }) => {
+  const request = (body || {}) as Partial<GetEventsExtendedRequest>;
+  const itemsPerPage = request.itemsPerPage ?? 0;
+  const pageNumber = request.pageNumber ?? 0;
+  const searchTerm = request.searchTerm?.trim();
+
+  const errors = collectErrors([
+    ['ItemsPerPage', !Number.isInteger(itemsPerPage) || itemsPerPage < 1 || itemsPerPage > 100, 'Items per page must be between 1 and 100.'],
+    ['PageNumber', !Number.isInteger(pageNumber) || pageNumber < 1, 'Page number must be at least 1.'],
+    ['SearchTerm', searchTerm !== undefined && (searchTerm.length < 2 || searchTerm.length > 100), 'Search term must be between 2 and 100 characters.'],
+    ['StartDate', request.startDate !== undefined && !isValidDate(request.startDate), 'Start date is not a valid date.'],
+    ['EndDate', request.endDate !== undefined && !isValidDate(request.endDate), 'End date is not a valid date.'],
+  ]);
+  if (Object.keys(errors).length > 0) validationFailed(errors);
+
+  const search = searchTerm?.toLowerCase();
+  const start = request.startDate ? new Date(request.startDate).getTime() : -Infinity;
+  const end = request.endDate ? new Date(request.endDate).getTime() : Infinity;
+
+  const matches = mockDb.data.events
+    .filter(event => {
+      return isEventInRange(event, start, end) &&
+        (!request.eventType || event.type === request.eventType) &&
+        (!search || [event.title, event.description, event.location].some(field => field.toLowerCase().includes(search)));
+    })
+    .sort(byEventDate);
+
+  const totalPages = Math.ceil(matches.length / itemsPerPage);
+  const items = matches.slice((pageNumber - 1) * itemsPerPage, pageNumber * itemsPerPage).map(toEventDto);
+
+  // GetSorted uses its own envelope (statusCode/statusText/errors)
+  const response: GetEventsExtendedResponse = {
+    isSuccess: true,
+    message: 'Events retrieved successfully',
+    value: {
+      items,
+      totalCount: matches.length,
+      pageNumber,
+      itemsPerPage,
+      totalPages,
+      hasPreviousPage: pageNumber > 1,
+      hasNextPage: pageNumber < totalPages,
+    },
+    statusCode: 200,
+    statusText: 'OK',
+    errors: null,
+  };
+  return { status: 200, body: response };
+};
+
+const getOwnerEvents: MockHandler = (request) => {
+  // Like the backend, the owner comes from the token, not the URL
+  const user = requireAdmin(request);
+  return ok(mockDb.data.events.filter(e => e.adminId === user.id).sort(byEventDate).map(toEventDto));
+};
+
+const createEvent: MockHandler = (request) => {
+  const user = requireAdmin(request);
+  const fields = validateEventRequest((request.body || {}) as Partial<CreateEventRequest>);
+
+  const event: MockEvent = {
+    id: crypto.randomUUID(),
+    adminId: user.id,
+    ...fields,
+    isOpenForRegistration: true,
+    imageUrl: null,
+    seriesId: null,
+    originalOccurrenceDate: null,
+  };
+  mockDb.data.events.push(event);
+  if (!mockDb.data.eventTypes.includes(event.type)) {
+    mockDb.data.eventTypes.push(event.type);
+  }
+  mockDb.save();
+
+  return ok(toEventDto(event), 'Event created successfully');
+};
+
+const updateEvent: MockHandler = (request) => {
+  const event = findEvent(request.params.eventId);
+  requireOwner(request, event);
+  const fields = validateEventRequest((request.body || {}) as Partial<UpdateEventRequest>);
+
+  if (fields.capacity < activeRegistrations(event.id).length) {
+    validationFailed({ Capacity: ['Capacity cannot be lower than the number of registrations.'] });
+  }
+  if (event.seriesId && fields.recurrenceRule) {
+    validationFailed({ RecurrenceRule: ['A date split from a series cannot repeat on its own.'] });
+  }
+
+  Object.assign(event, fields);
+  mockDb.save();
+
+  return ok(toEventDto(event), 'Event updated successfully');
+};
+
+// Edit one date of a series: the series skips that date and the edited copy becomes its own event
+const updateEventOccurrence: MockHandler = (request) => {
+  const series = findEvent(request.params.eventId);
+  requireOwner(request, series);
+  const body = (request.body || {}) as Partial<UpdateEventOccurrenceRequest>;
+
+  if (!series.recurrenceRule) {
+    validationFailed({ OccurrenceDate: ['This event does not repeat.'] });
+  }
+  if (!isValidDate(body.occurrenceDate) || !isEventOccurrence(series, body.occurrenceDate!)) {
+    validationFailed({ OccurrenceDate: ['This date is not part of the series.'] });
+  }
+
+  const fields = validateEventRequest({ ...body, recurrenceRule: null, recurrenceExceptions: [] });
+  const occurrenceDate = new Date(body.occurrenceDate!).toISOString();
+
+  const event: MockEvent = {
+    id: crypto.randomUUID(),
+    adminId: series.adminId,
+    ...fields,
+    isOpenForRegistration: series.isOpenForRegistration,
+    imageUrl: series.imageUrl,
+    seriesId: series.id,
+    originalOccurrenceDate: occurrenceDate,
+  };
+  series.recurrenceExceptions = [...series.recurrenceExceptions, occurrenceDate];
+  mockDb.data.events.push(event);
+  mockDb.save();
+
+  log('Series date split off', series.title, occurrenceDate);
+  return ok(toEventDto(event), 'Event date updated successfully');
+};
+
+const deleteEvent: MockHandler = (request) => {
+  const event = findEvent(request.params.eventId);
+  requireOwner(request, event);
+
+  mockDb.data.events = mockDb.data.events.filter(e => e !== event);
+  mockDb.data.registrations = mockDb.data.registrations.filter(r => r.eventId !== event.id);
+  mockDb.save();
+
+  return ok(null, 'Event deleted successfully');
+};
+
+function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+const uploadEventImage: MockHandler = async (request) => {
+  const eventId = request.formData?.get('eventId');
+  const imageFile = request.formData?.get('imageFile');
+
+  if (typeof eventId !== 'string' || !(imageFile instanceof File)) {
+    validationFailed(collectErrors([
+      ['EventId', typeof eventId !== 'string', 'Event id is required.'],
+      ['ImageFile', !(imageFile instanceof File), 'An image file is required.'],
+    ]));
+  }
+  if (!imageFile.type.startsWith('image/')) {
+    validationFailed({ ImageFile: ['Only image files can be uploaded.'] });
+  }
+
+  const event = findEvent(eventId);
+  requireOwner(request, event);
+
+  // Stored inline so the image survives reloads (large files may exceed the storage quota)
+  event.imageUrl = await readFileAsDataUrl(imageFile);
+  mockDb.save();
+
+  const image: EventImageData = { id: crypto.randomUUID(), eventId: event.id, imageUrl: event.imageUrl };
+  return ok(image, 'Image uploaded successfully');
+};
+
+// Event registration handlers
+const registerForEvent: MockHandler = (request) => {
+  const user = requireUser(request);
+  const body = (request.body || {}) as Partial<RegisterForEventRequest>;
+
+  if (body.appUserId !== user.id) {
+    throw new MockHttpError(403, 'You can only register yourself for events.');
+  }
+
+  const errors = collectErrors([
+    ['Name', !body.name?.trim(), 'Name is required.'],
+    ['Email', !body.email?.trim(), 'Email is required.'],
+    ['PhoneNumber', !body.phoneNumber?.trim(), 'Phone number is required.'],
+  ]);
+  if (Object.keys(errors).length > 0) validationFailed(errors);
+
+  const event = findEvent(body.eventId || '');
+  const registrations = activeRegistrations(event.id);
+
+  if (!event.isOpenForRegistration || new Date(event.registrationCutoffDate).getTime() < Date.now()) {
+    throw new MockHttpError(400, 'Registration for this event is closed.');
+  }
+  if (registrations.some(r => r.userId === user.id)) {
+    throw new MockHttpError(409, 'You are already registered for this event.');
+  }
+  if (registrations.length >= event.capacity) {
+    throw new MockHttpError(400, 'This event is full.');
+  }
+
+  const registration: EventRegistration = {
+    id: crypto.randomUUID(),
+    eventId: event.id,
+    userId: user.id,
+    name: body.name!.trim(),
+    email: body.email!.trim(),
+    phone: body.phoneNumber!.trim(),
+    registeredAt: new Date().toISOString(),
+    isCanceled: false,
+  };
+  mockDb.data.registrations.push(registration);
+  mockDb.save();
+
+  return ok(registration, 'Registered successfully');
+};
+
+const cancelEventRegistration: MockHandler = (request) => {
+  const user = requireUser(request);
+  const body = (request.body || {}) as Partial<CancelEventRegistrationRequest>;
+  const registration = mockDb.data.registrations.find(r => r.id === request.params.registrationId);
+
+  if (!registration) {
+    throw new MockHttpError(404, 'Registration not found.');
+  }
+  if (registration.userId !== user.id || body.appUserId !== user.id) {
+    throw new MockHttpError(403, 'You can only cancel your own registrations.');
+  }
+  if (registration.isCanceled) {
+    throw new MockHttpError(400, 'This registration is already canceled.');
+  }
+
+  registration.isCanceled = true;
+  mockDb.save();
+
+  return ok(null, 'Registration canceled successfully');
+};
+
+const getUserEventRegistrations: MockHandler = (request) => {
+  const user = requireUser(request);
+  if (request.params.userId !== user.id && user.role !== 'Admin') {
+    throw new MockHttpError(403, 'You can only view your own registrations.');
+  }
+  return ok(mockDb.data.registrations.filter(r => r.userId === request.params.userId));
+};
+
+const getEventRegistrations: MockHandler = (request) => {
+  const event = findEvent(request.params.eventId);
+  requireOwner(request, event);
+  return ok(mockDb.data.registrations.filter(r => r.eventId === event.id));
+};
+
+// Route table - specific paths before parameterised ones
+function route(method: string, path: string, handler: MockHandler): MockRoute {
+  const paramNames: string[] = [];
+  const pattern = new RegExp(
+    '^' + path.replace(/:(\w+)/g, (_, name: string) => {
+      paramNames.push(name);
+      return '([^/]+)';
+    }) + '/?$'
+  );
+  return { method, pattern, paramNames, handler };
+}
+
+const routes: MockRoute[] = [
+  route('POST', '/api/authentication/login', login),
+  route('POST', '/api/authentication/sso', ssoLogin),
+  route('POST', '/api/authentication/mfa/verify', verifyMfa),
+  route('POST', '/api/authentication/mfa/recovery', verifyRecoveryCode),
+  route('POST', '/api/authentication/refresh', refresh),
+  route('POST', '/api/authentication/logout', logout),
+  route('POST', '/api/authentication/register/user', registerUser),
+  route('POST', '/api/authentication/register/admin', registerAdmin),
+  route('POST', '/api/authentication/verify-email', verifyEmail),
+  route('POST', '/api/authentication/resend-verification', resendVerification),
+  route('POST', '/api/authentication/forgot-password', forgotPassword),
+  route('POST', '/api/authentication/reset-password/validate', validateResetToken),
+  route('POST', '/api/authentication/reset-password', resetPassword),
+  route('GET', '/api/authentication/password-policy', getPasswordPolicy),
+
+  route('GET', '/api/account/profile', getProfile),
+  route('PUT', '/api/account/profile', updateProfile),
+  route('POST', '/api/account/change-password', changePassword),
+  route('POST', '/api/account/change-email', changeEmail),
+  route('POST', '/api/account/avatar', uploadAvatar),
+  route('DELETE', '/api/account/avatar', deleteAvatar),
+  route('POST', '/api/account/mfa/setup', setupMfa),
+  route('POST', '/api/account/mfa/enable', enableMfa),
+  route('POST', '/api/account/mfa/disable', disableMfa),
+  route('POST', '/api/account/mfa/recovery-codes', regenerateRecoveryCodes),
+
+  route('GET', '/api/account/sessions', getSessions),
+  route('DELETE', '/api/account/sessions', revokeAllUserSessions),
+  route('DELETE', '/api/account/sessions/:sessionId', revokeUserSession),
+
+  route('GET', '/mock-idp/.well-known/openid-configuration', idpDiscovery),
+  route('POST', '/mock-idp/token', idpToken),
+
+  route('GET', '/api/invitations', getInvitations),
+  route('POST', '/api/invitations/validate', validateInvitation),
+  route('POST', '/api/invitations', createInvitation),
+
+  route('GET', '/api/events/types', getEventTypes),
+  route('POST', '/api/events/GetSorted', getSortedEvents),
+  route('POST', '/api/events/batch', getEventsByIds),
+  route('POST', '/api/events/event-image', uploadEventImage),
+  route('GET', '/api/events/owner/:ownerId', getOwnerEvents),
+  route('GET', '/api/events', getAllEvents),
+  route('POST', '/api/events', createEvent),
+  route('GET', '/api/events/:eventId', getEvent),
+  route('PUT', '/api/events/:eventId', updateEvent),
+  route('POST', '/api/events/:eventId/occurrences', updateEventOccurrence),
+  route('DELETE', '/api/events/:eventId', deleteEvent),
+
+  route('POST', '/api/event-registrations', registerForEvent),
+  route('GET', '/api/event-registrations/user/:userId', getUserEventRegistrations),
+  route('GET', '/api/event-registrations/event/:eventId', getEventRegistrations),
+  route('DELETE', '/api/event-registrations/:registrationId', cancelEventRegistration),
+];
+
+// Simulated network latency that honours AbortSignal like a real fetch
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function toResponse({ status, body, headers }: MockResult): Response {
+  return new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function errorResult(status: number, message: string, value: unknown = null, code: string | null = null): MockResult {
+  const body: ApiResponse<unknown> = { isSuccess: false, message, status, error: message, value, code };
+  return { status, body };
+}
+
+// Tokens of revoked or logged-out sessions are rejected right away, like a backend checking the sid claim
+function getBearerSession(headers: HeadersInit | undefined): { user: MockUser; sessionId: string } | null {
+  const authorization = new Headers(headers).get('Authorization');
+  const token = authorization?.startsWith('Bearer ') ? authorization.slice(7) : null;
+  const subject = token ? verifyMockJwt(token) : null;
+  const session = subject?.sessionId ? mockDb.data.sessions.find(s => s.id === subject.sessionId) : null;
+  const user = session && !session.revokedAt ? mockDb.data.users.find(u => u.id === session.userId) : null;
+  return user && session ? { user, sessionId: session.id } : null;
+}
+
+/**
+ * Drop-in replacement for window.fetch that serves /api requests from the mock database
+ */
+export async function mockFetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+  const url = new URL(input instanceof Request ? input.url : String(input), window.location.origin);
+  const method = (init.method || 'GET').toUpperCase();
+  const path = url.pathname;
+
+  await delay(envConfig.mockApiLatency, init.signal);
+
+  let matchedRoute: MockRoute | undefined;
+  let params: Record<string, string> = {};
+  for (const candidate of routes) {
+    const match = candidate.method === method ? path.match(candidate.pattern) : null;
+    if (match) {
+      matchedRoute = candidate;
+      params = Object.fromEntries(
+        candidate.paramNames.map((name, index) => [name, decodeURIComponent(match[index + 1])])
+      );
+      break;
+    }
+  }
+
+  if (!matchedRoute) {
+    log(`No mock route for ${method} ${path}`);
+    return toResponse(errorResult(404, `No mock route for ${method} ${path}`));
+  }
+
+  let body: unknown = null;
+  if (init.body instanceof URLSearchParams) {
+    // OAuth endpoints of the stand-in identity provider take form-encoded bodies
+    body = Object.fromEntries(init.body);
+  } else if (typeof init.body === 'string' && init.body) {
+    try {
+      body = JSON.parse(init.body);
+    } catch {
+      return toResponse(errorResult(400, 'Request body is not valid JSON.'));
+    }
+  }
+
+  const bearer = getBearerSession(init.headers);
+  const request: MockRequest = {
+    method,
+    params,
+    body,
+    formData: init.body instanceof FormData ? init.body : null,
+    user: bearer?.user ?? null,
+    sessionId: bearer?.sessionId ?? null,
+  };
+
+  try {
+    const result = await matchedRoute.handler(request);
+    log(`${method} ${path} -> ${result.status}`, result.body);
+    return toResponse(result);
+  } catch (error) {
+    if (error instanceof MockHttpError) {
+      log(`${method} ${path} -> ${error.status}`, error.message);
+      return toResponse({ ...errorResult(error.status, error.message, error.value, error.code), headers: error.headers });
+    }
+    console.error(`[MockApi] ${method} ${path} failed:`, error);
+    return toResponse(errorResult(500, 'Internal server error.'));
+  }
+}
+
+/**
+ * Restore the seeded demo data (users, events and registrations)
+ */
+export function resetMockDatabase() {
+  mockDb.reset();
+  log('Demo data reset');
+}
@@ -0,0 +1,153 @@
+// Stand-in corporate identity provider for trying single sign-on without a real IdP
+// Implements the parts of OpenID Connect the app relies on: discovery, the authorization
+// code flow with PKCE (S256 only) and ID tokens. The login screen is MockIdpAuthorizePage;
+// discovery and the token endpoint are routes in mockFetch.
+
+import { mockDb, type MockAuthorizationCode } from './mockDb';
+
+export const MOCK_IDP_CLIENT_ID = 'calvent-spa';
+const AUTHORIZATION_CODE_LIFETIME = 60 * 1000; // 1 minute, codes are redeemed straight away
+
+export function getMockIdpIssuer(): string {
+  return `${window.location.origin}/mock-idp`;
+}
+
+// The only redirect URI registered for the client
+function getRegisteredRedirectUri(): string {
+  return `${window.location.origin}/auth/callback`;
+}
+
+// Staff directory of the stand-in IdP
+export interface MockIdpAccount {
+  sub: string;
+  email: string;
+  givenName: string;
+  familyName: string;
+  department: string;
+}
+
+// The first account matches a seeded app user; the others are signed up on their first SSO login
+export const MOCK_IDP_ACCOUNTS: MockIdpAccount[] = [
+  { sub: 'idp-1001', email: 'admin@calvent.dev', givenName: 'Ada', familyName: 'Admin', department: 'Operations' },
+  { sub: 'idp-1002', email: 'jordan.lee@calvent.dev', givenName: 'Jordan', familyName: 'Lee', department: 'Engineering' },
+  { sub: 'idp-1003', email: 'priya.nair@calvent.dev', givenName: 'Priya', familyName: 'Nair', department: 'Marketing' },
+];
+
+export interface MockAuthorizationRequest {
+  clientId: string;
+  redirectUri: string;
+  state: string | null;
+  nonce: string | null;
+  codeChallenge: string;
+}
+
+/**
+ * Check the query string of an authorization request
+ * Returns an error message for requests that must not be redirected back (unknown client or redirect URI)
+ */
+export function parseAuthorizationRequest(params: URLSearchParams): MockAuthorizationRequest | string {
+  const clientId = params.get('client_id');
+  const redirectUri = params.get('redirect_uri');
+
+  if (clientId !== MOCK_IDP_CLIENT_ID) {
+    return `Unknown client "${clientId ?? ''}".`;
+  }
+  if (redirectUri !== getRegisteredRedirectUri()) {
+    return `The redirect URI "${redirectUri ?? ''}" is not registered for this client.`;
+  }
+  if (params.get('response_type') !== 'code') {
+    return 'Only the authorization code flow (response_type=code) is supported.';
+  }
+  if (!params.get('scope')?.split(' ').includes('openid')) {
+    return 'The openid scope is required.';
+  }
+  const codeChallenge = params.get('code_challenge');
+  if (!codeChallenge || params.get('code_challenge_method') !== 'S256') {
+    return 'A PKCE code challenge with method S256 is required.';
+  }
+
+  return { clientId, redirectUri, state: params.get('state'), nonce: params.get('nonce'), codeChallenge };
+}
+
+/**
+ * The URL to send the browser back to, with either a code or an OAuth error
+ */
+export function buildAuthorizationResponseUrl(
+  request: MockAuthorizationRequest,
+  result: { code: string } | { error: string; errorDescription: string }
+): string {
+  const url = new URL(request.redirectUri);
+  if ('code' in result) {
+    url.searchParams.set('code', result.code);
+  } else {
+    url.searchParams.set('error', result.error);
+    url.searchParams.set('error_description', result.errorDescription);
+  }
+  if (request.state !== null) {
+    url.searchParams.set('state', request.state);
+  }
+  return url.toString();
+}
+
+/**
+ * Sign the account in and issue a single-use authorization code
+ */
+export function createAuthorizationCode(request: MockAuthorizationRequest, account: MockIdpAccount): string {
+  const now = Date.now();
+  const authorizationCode: MockAuthorizationCode = {
+    code: `${crypto.randomUUID()}${crypto.randomUUID()}`.replace(/-/g, ''),
+    clientId: request.clientId,
+    redirectUri: request.redirectUri,
+    codeChallenge: request.codeChallenge,
+    nonce: request.nonce,
+    accountId: account.sub,
+    expiresAt: new Date(now + AUTHORIZATION_CODE_LIFETIME).toISOString(),
+  };
+
+  mockDb.data.authorizationCodes = mockDb.data.authorizationCodes
+    .filter(c => new Date(c.expiresAt).getTime() > now)
+    .concat(authorizationCode);
+  mockDb.save();
+  return authorizationCode.code;
+}
+
+async function createS256Challenge(codeVerifier: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier)));
+  let binary = '';
+  digest.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Redeem a code at the token endpoint; codes are deleted on first use, even a failed one
+ * Returns the signed-in account and the nonce, or an error message for an invalid_grant response
+ */
+export async function redeemAuthorizationCode(request: {
+  code: string | undefined;
+  clientId: string | undefined;
+  redirectUri: string | undefined;
+  codeVerifier: string | undefined;
+}): Promise<{ account: MockIdpAccount; nonce: string | null } | string> {
+  const stored = mockDb.data.authorizationCodes.find(c => c.code === request.code);
+  if (!stored) {
+    return 'The authorization code is invalid or has already been used.';
+  }
+
+  mockDb.data.authorizationCodes = mockDb.data.authorizationCodes.filter(c => c !== stored);
+  mockDb.save();
+
+  if (new Date(stored.expiresAt).getTime() <= Date.now()) {
+    return 'The authorization code has expired.';
+  }
+  if (stored.clientId !== request.clientId || stored.redirectUri !== request.redirectUri) {
+    return 'The authorization code was issued to a different client or redirect URI.';
+  }
+  if (!request.codeVerifier || await createS256Challenge(request.codeVerifier) !== stored.codeChallenge) {
+    return 'The code verifier does not match the code challenge.';
+  }
+
+  const account = MOCK_IDP_ACCOUNTS.find(a => a.sub === stored.accountId);
+  return account ? { account, nonce: stored.nonce } : 'The account no longer exists.';
+}
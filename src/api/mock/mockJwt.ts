@@ -0,0 +1,161 @@
+// Fake JWTs for the mock backend
+// Tokens carry the same claims as the .NET backend so decodeJwtToAppUser and
+// TokenRefreshService see exactly what they see in production.
+// The signature is a plain hash - this is for demos only, never real security.
+
+const MOCK_ISSUER = 'calvent-mock-api';
+const MOCK_SECRET = 'calvent-mock-signing-key';
+
+// Claim URIs used by ASP.NET Core Identity
+const CLAIMS = {
+  nameIdentifier: 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/nameidentifier',
+  email: 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress',
+  name: 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/name',
+  role: 'http://schemas.microsoft.com/ws/2008/06/identity/claims/role',
+} as const;
+
+export interface MockJwtUser {
+  id: string;
+  email: string;
+  userName: string;
+  firstName: string;
+  lastName: string;
+  role: string;
+  phoneNumber: string;
+}
+
+export interface MockJwtPayload {
+  [CLAIMS.nameIdentifier]: string;
+  [CLAIMS.email]: string;
+  [CLAIMS.name]: string;
+  [CLAIMS.role]: string;
+  FirstName: string;
+  LastName: string;
+  PhoneNumber: string;
+  sid: string; // Session the token belongs to, for the active sessions list and revocation
+  jti: string;
+  iat: number;
+  exp: number;
+  iss: string;
+  aud: string;
+}
+
+function base64UrlEncode(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+// FNV-1a hash, hex encoded - stable and good enough to detect edited tokens
+function sign(data: string): string {
+  let hash = 0x811c9dc5;
+  const input = `${data}.${MOCK_SECRET}`;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return base64UrlEncode(hash.toString(16).padStart(8, '0'));
+}
+
+/**
+ * Issue a signed token for a user that expires at the given date
+ */
+export function createMockJwt(user: MockJwtUser, expiresAt: Date, sessionId: string): string {
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload: MockJwtPayload = {
+    [CLAIMS.nameIdentifier]: user.id,
+    [CLAIMS.email]: user.email,
+    [CLAIMS.name]: user.userName,
+    [CLAIMS.role]: user.role,
+    FirstName: user.firstName,
+    LastName: user.lastName,
+    PhoneNumber: user.phoneNumber,
+    sid: sessionId,
+    jti: crypto.randomUUID(),
+    iat: Math.floor(Date.now() / 1000),
+    exp: Math.floor(expiresAt.getTime() / 1000),
+    iss: MOCK_ISSUER,
+    aud: MOCK_ISSUER,
+  };
+  const body = base64UrlEncode(JSON.stringify(payload));
+
+  return `${header}.${body}.${sign(`${header}.${body}`)}`;
+}
+
+export interface MockJwtSubject {
+  userId: string;
+  sessionId: string | null;
+}
+
+/**
+ * Verify signature and expiry; returns the user and session the token was issued for
+ */
+export function verifyMockJwt(token: string): MockJwtSubject | null {
+  const [header, body, signature] = token.split('.');
+  if (!header || !body || !signature || sign(`${header}.${body}`) !== signature) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(base64UrlDecode(body)) as MockJwtPayload;
+    if (payload.iss !== MOCK_ISSUER || payload.exp * 1000 <= Date.now()) {
+      return null;
+    }
+    const userId = payload[CLAIMS.nameIdentifier];
+    return userId ? { userId, sessionId: payload.sid || null } : null;
+  } catch {
+    return null;
+  }
+}
+
+// ID tokens from the stand-in identity provider (see mockIdp.ts), standard OIDC claims
+export interface MockIdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string;
+  iat: number;
+  exp: number;
+  nonce?: string;
+  email: string;
+  email_verified: boolean;
+  name: string;
+  given_name: string;
+  family_name: string;
+}
+
+/**
+ * Issue a signed ID token with the given claims
+ */
+export function createMockIdToken(claims: MockIdTokenClaims): string {
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const body = base64UrlEncode(JSON.stringify(claims));
+  return `${header}.${body}.${sign(`${header}.${body}`)}`;
+}
+
+/**
+ * Verify an ID token's signature and expiry; issuer and audience are left to the caller
+ */
+export function verifyMockIdToken(token: string): MockIdTokenClaims | null {
+  const [header, body, signature] = token.split('.');
+  if (!header || !body || !signature || sign(`${header}.${body}`) !== signature) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(base64UrlDecode(body)) as MockIdTokenClaims;
+    return claims.exp * 1000 > Date.now() ? claims : null;
+  } catch {
+    return null;
+  }
+}
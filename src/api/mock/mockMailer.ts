@@ -0,0 +1,28 @@
+// Stand-in for the backend's email delivery
+// The demo has no mail server, so messages are printed to the console with their links.
+
+export interface MockEmail {
+  to: string;
+  subject: string;
+  body: string;
+  link?: string; // Absolute URL the recipient is asked to open
+}
+
+/**
+ * Build an absolute link into this app, as the backend would put in an email
+ */
+export function appLink(path: string): string {
+  return new URL(path, window.location.origin).toString();
+}
+
+/**
+ * "Send" an email by printing it to the console
+ */
+export function sendMockEmail(email: MockEmail): void {
+  console.group(`[MockApi] Email to ${email.to}: ${email.subject}`);
+  console.log(email.body);
+  if (email.link) {
+    console.log(`Link: ${email.link}`);
+  }
+  console.groupEnd();
+}
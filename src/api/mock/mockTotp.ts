@@ -0,0 +1,108 @@
+// RFC 6238 time-based one-time passwords for the mock backend
+// Real TOTP (HMAC-SHA1, 30 second steps, 6 digits), so any authenticator app
+// can scan the enrollment QR code and sign in to the demo.
+
+const TOTP_PERIOD = 30; // Seconds per code
+const TOTP_DIGITS = 6;
+const SECRET_BYTES = 20; // 160 bits, the size RFC 4226 recommends for SHA-1
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(bytes: Uint8Array): string {
+  let bits = '';
+  bytes.forEach(byte => {
+    bits += byte.toString(2).padStart(8, '0');
+  });
+  let output = '';
+  for (let i = 0; i < bits.length; i += 5) {
+    output += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  }
+  return output;
+}
+
+function base32Decode(value: string): Uint8Array {
+  let bits = '';
+  for (const char of value.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    bits += index.toString(2).padStart(5, '0');
+  }
+  const bytes = new Uint8Array(Math.floor(bits.length / 8));
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(bits.slice(i * 8, i * 8 + 8), 2);
+  }
+  return bytes;
+}
+
+/**
+ * New random base32 secret for an authenticator app
+ */
+export function createTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(SECRET_BYTES)));
+}
+
+/**
+ * The otpauth:// URI authenticator apps read from the QR code
+ */
+export function createOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+// HOTP (RFC 4226) for one counter value
+async function generateCode(secret: string, counter: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter >>> 0);
+
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message.buffer));
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * The code an authenticator app shows right now (logged by the mock to make demos easier)
+ */
+export function getCurrentTotpCode(secret: string): Promise<string> {
+  return generateCode(secret, Math.floor(Date.now() / 1000 / TOTP_PERIOD));
+}
+
+/**
+ * Check a code, allowing one step of clock drift either way
+ */
+export async function verifyTotpCode(secret: string, code: string): Promise<boolean> {
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return false;
+  }
+
+  const counter = Math.floor(Date.now() / 1000 / TOTP_PERIOD);
+  for (const drift of [0, -1, 1]) {
+    if (await generateCode(secret, counter + drift) === normalized) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Single-use recovery codes, formatted like "k3f9-x2ab"
+ */
+export function createRecoveryCodes(count: number = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const chars = Array.from(crypto.getRandomValues(new Uint8Array(8)), byte => 'abcdefghjkmnpqrstuvwxyz23456789'[byte % 31]);
+    return `${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+  });
+}
@@ -0,0 +1,118 @@
+import { envConfig } from '../../utils/envConfig';
+import { TOKEN_STORAGE_KEY, type StoredTokens, type TokenStore } from './TokenStore';
+
+interface EncryptedPayload {
+  iv: string; // base64
+  data: string; // base64 AES-GCM ciphertext
+}
+
+const KEY_DATABASE = `${envConfig.localStoragePrefix}keystore`;
+const KEY_OBJECT_STORE = 'keys';
+const KEY_ID = 'token-encryption-key';
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * EncryptedTokenStore - localStorage holding AES-GCM ciphertext
+ * The key is a non-extractable CryptoKey kept in IndexedDB, so a copied
+ * localStorage value (e.g. from a log or a backup) cannot be read elsewhere.
+ * It does not protect against script running on the page itself.
+ */
+export class EncryptedTokenStore implements TokenStore {
+  readonly name = 'encrypted';
+  private key = `${envConfig.localStoragePrefix}${TOKEN_STORAGE_KEY}_encrypted`;
+  private cryptoKeyPromise: Promise<CryptoKey> | null = null;
+
+  /**
+   * WebCrypto and IndexedDB are required (WebCrypto only exists in secure contexts)
+   */
+  static isSupported(): boolean {
+    return typeof crypto !== 'undefined' && !!crypto.subtle && typeof indexedDB !== 'undefined';
+  }
+
+  private getCryptoKey(): Promise<CryptoKey> {
+    if (!this.cryptoKeyPromise) {
+      this.cryptoKeyPromise = this.loadOrCreateCryptoKey().catch(error => {
+        this.cryptoKeyPromise = null; // Allow a retry on the next call
+        throw error;
+      });
+    }
+    return this.cryptoKeyPromise;
+  }
+
+  private async loadOrCreateCryptoKey(): Promise<CryptoKey> {
+    const openRequest = indexedDB.open(KEY_DATABASE, 1);
+    openRequest.onupgradeneeded = () => {
+      openRequest.result.createObjectStore(KEY_OBJECT_STORE);
+    };
+    const db = await promisifyRequest(openRequest);
+
+    try {
+      const existing = await promisifyRequest(
+        db.transaction(KEY_OBJECT_STORE, 'readonly').objectStore(KEY_OBJECT_STORE).get(KEY_ID)
+      ) as CryptoKey | undefined;
+      if (existing) return existing;
+
+      const cryptoKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+      await promisifyRequest(
+        db.transaction(KEY_OBJECT_STORE, 'readwrite').objectStore(KEY_OBJECT_STORE).put(cryptoKey, KEY_ID)
+      );
+      return cryptoKey;
+    } finally {
+      db.close();
+    }
+  }
+
+  async load(): Promise<StoredTokens | null> {
+    const stored = localStorage.getItem(this.key);
+    if (!stored) return null;
+
+    try {
+      const payload = JSON.parse(stored) as EncryptedPayload;
+      const decrypted = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+        await this.getCryptoKey(),
+        fromBase64(payload.data)
+      );
+      return JSON.parse(new TextDecoder().decode(decrypted)) as StoredTokens;
+    } catch (error) {
+      // Tampered value or the key was lost (e.g. site data partially cleared)
+      console.error('[EncryptedTokenStore] Could not decrypt stored tokens, discarding them:', error);
+      localStorage.removeItem(this.key);
+      return null;
+    }
+  }
+
+  async save(tokens: StoredTokens): Promise<void> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      await this.getCryptoKey(),
+      new TextEncoder().encode(JSON.stringify(tokens))
+    );
+
+    const payload: EncryptedPayload = { iv: toBase64(iv), data: toBase64(new Uint8Array(encrypted)) };
+    localStorage.setItem(this.key, JSON.stringify(payload));
+  }
+
+  async clear(): Promise<void> {
+    localStorage.removeItem(this.key);
+  }
+}
@@ -0,0 +1,21 @@
+import type { StoredTokens, TokenStore } from './TokenStore';
+
+/**
+ * MemoryTokenStore - Nothing survives a reload; every new page load starts logged out
+ */
+export class MemoryTokenStore implements TokenStore {
+  readonly name = 'memory';
+  private tokens: StoredTokens | null = null;
+
+  async load(): Promise<StoredTokens | null> {
+    return this.tokens;
+  }
+
+  async save(tokens: StoredTokens): Promise<void> {
+    this.tokens = { ...tokens };
+  }
+
+  async clear(): Promise<void> {
+    this.tokens = null;
+  }
+}
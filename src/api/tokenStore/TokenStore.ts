@@ -0,0 +1,23 @@
+// Token storage strategies used by ApiService
+
+export interface StoredTokens {
+  refreshToken: string;
+  refreshTokenExp?: string; // ISO string
+}
+
+/**
+ * TokenStore - Where ApiService keeps the refresh token between page loads
+ * The auth token is short-lived and only ever held in memory.
+ * Methods are async so stores can encrypt or use async storage.
+ */
+export interface TokenStore {
+  readonly name: string;
+  load(): Promise<StoredTokens | null>;
+  save(tokens: StoredTokens): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export type TokenStorageStrategy = 'memory' | 'session' | 'local' | 'encrypted';
+
+// Storage key shared by the web storage based stores
+export const TOKEN_STORAGE_KEY = 'tokens';
@@ -0,0 +1,38 @@
+import { envConfig } from '../../utils/envConfig';
+import { TOKEN_STORAGE_KEY, type StoredTokens, type TokenStore } from './TokenStore';
+
+/**
+ * WebStorageTokenStore - Plain JSON in localStorage (shared by all tabs, survives restarts)
+ * or sessionStorage (per tab, cleared when the tab closes)
+ */
+export class WebStorageTokenStore implements TokenStore {
+  readonly name: string;
+  private storage: Storage;
+  private key = `${envConfig.localStoragePrefix}${TOKEN_STORAGE_KEY}`;
+
+  constructor(storage: Storage, name: string) {
+    this.storage = storage;
+    this.name = name;
+  }
+
+  async load(): Promise<StoredTokens | null> {
+    const stored = this.storage.getItem(this.key);
+    if (!stored) return null;
+
+    try {
+      const tokens = JSON.parse(stored) as StoredTokens;
+      return typeof tokens.refreshToken === 'string' ? tokens : null;
+    } catch {
+      this.storage.removeItem(this.key);
+      return null;
+    }
+  }
+
+  async save(tokens: StoredTokens): Promise<void> {
+    this.storage.setItem(this.key, JSON.stringify(tokens));
+  }
+
+  async clear(): Promise<void> {
+    this.storage.removeItem(this.key);
+  }
+}
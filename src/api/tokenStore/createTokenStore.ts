@@ -0,0 +1,26 @@
+import { EncryptedTokenStore } from './EncryptedTokenStore';
+import { MemoryTokenStore } from './MemoryTokenStore';
+import { WebStorageTokenStore } from './WebStorageTokenStore';
+import type { TokenStorageStrategy, TokenStore } from './TokenStore';
+
+/**
+ * Create the token store for a strategy (see VITE_TOKEN_STORAGE)
+ */
+export function createTokenStore(strategy: TokenStorageStrategy): TokenStore {
+  switch (strategy) {
+    case 'memory':
+      return new MemoryTokenStore();
+    case 'session':
+      return new WebStorageTokenStore(sessionStorage, 'session');
+    case 'encrypted':
+      if (EncryptedTokenStore.isSupported()) {
+        return new EncryptedTokenStore();
+      }
+      // Insecure context (plain http) has no WebCrypto; never fall back to plain localStorage
+      console.warn('[TokenStore] Encrypted storage is not supported here, keeping tokens in memory only');
+      return new MemoryTokenStore();
+    case 'local':
+    default:
+      return new WebStorageTokenStore(localStorage, 'local');
+  }
+}
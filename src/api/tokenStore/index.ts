@@ -0,0 +1,8 @@
+// Export token storage strategies
+export { createTokenStore } from "./createTokenStore";
+export { migrateLegacyTokens } from "./migrateLegacyTokens";
+export type { MigratedTokens } from "./migrateLegacyTokens";
+export { MemoryTokenStore } from "./MemoryTokenStore";
+export { WebStorageTokenStore } from "./WebStorageTokenStore";
+export { EncryptedTokenStore } from "./EncryptedTokenStore";
+export type { StoredTokens, TokenStore, TokenStorageStrategy } from "./TokenStore";
@@ -0,0 +1,69 @@
+import { envConfig } from '../../utils/envConfig';
+import type { StoredTokens, TokenStore } from './TokenStore';
+
+// Keys written by earlier versions of ApiService
+const LEGACY_REFRESH_TOKEN_KEY = 'refresh_token';
+const LEGACY_REFRESH_TOKEN_EXP_KEY = 'refresh_token_exp';
+
+export interface MigratedTokens {
+  refreshTokens: StoredTokens | null;
+  authToken?: string; // Still-valid legacy auth token, kept in memory only
+  authTokenExp?: string;
+}
+
+function parseJson<T>(value: string | null): T | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+function isFuture(date?: string): boolean {
+  return !!date && new Date(date) > new Date();
+}
+
+/**
+ * One-time move of the legacy token keys into the configured store
+ * Reads refresh_token/refresh_token_exp plus the AppUser and authToken keys, then deletes them all.
+ * Returns null when there was nothing to migrate.
+ */
+export async function migrateLegacyTokens(store: TokenStore): Promise<MigratedTokens | null> {
+  const legacyKeys = [
+    LEGACY_REFRESH_TOKEN_KEY,
+    LEGACY_REFRESH_TOKEN_EXP_KEY,
+    envConfig.tokenStorageKey,
+    envConfig.fallbackTokenKey,
+  ];
+  if (!legacyKeys.some(key => localStorage.getItem(key) !== null)) {
+    return null;
+  }
+
+  const migrated: MigratedTokens = { refreshTokens: null };
+
+  const refreshToken = parseJson<string>(localStorage.getItem(LEGACY_REFRESH_TOKEN_KEY));
+  const refreshTokenExp = parseJson<string>(localStorage.getItem(LEGACY_REFRESH_TOKEN_EXP_KEY));
+  if (refreshToken && isFuture(refreshTokenExp ?? undefined)) {
+    migrated.refreshTokens = { refreshToken, refreshTokenExp: refreshTokenExp! };
+  }
+
+  // AppUser kept the auth token with its expiration; the token-only key had no expiration
+  const appUser = parseJson<{ token?: string; tokenExpiration?: string }>(localStorage.getItem(envConfig.tokenStorageKey));
+  if (appUser?.token && isFuture(appUser.tokenExpiration)) {
+    migrated.authToken = appUser.token;
+    migrated.authTokenExp = appUser.tokenExpiration;
+  } else if (!appUser) {
+    migrated.authToken = localStorage.getItem(envConfig.fallbackTokenKey) || undefined;
+  }
+
+  // Never overwrite tokens the new store already has
+  if (migrated.refreshTokens && !(await store.load())) {
+    await store.save(migrated.refreshTokens);
+  }
+
+  legacyKeys.forEach(key => localStorage.removeItem(key));
+  console.log(`[TokenStore] Migrated legacy token storage to the "${store.name}" store`);
+
+  return migrated;
+}
@@ -0,0 +1,390 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { X, Loader2, CheckCircle, AlertTriangle, Lock } from 'lucide-react';
+import { apiService } from '../api';
+import { ApiError, ApiResponseHandler, ValidationError, FormValidationHelper } from '../types';
+import type { InvitationInfo } from '../contracts';
+import { usePasswordPolicy } from '../hooks';
+import { checkPassword, getPasswordError } from '../utils/passwordPolicy';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
+
+// validating -> ready -> done, or a link that can't be used (invalid/expired)
+type InvitationStatus = 'validating' | 'ready' | 'invalid' | 'expired' | 'error' | 'done';
+
+// The backend answers 410 for expired invitations and 400 for unknown or accepted ones
+function getInvitationStatus(error: unknown): InvitationStatus {
+  if (error instanceof ApiError && !(error instanceof ValidationError)) {
+    if (error.status === 410) return 'expired';
+    if (error.status === 400 || error.status === 404) return 'invalid';
+  }
+  return 'error';
+}
+
+export function AcceptInvitePage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+
+  const [status, setStatus] = useState<InvitationStatus>(token ? 'validating' : 'invalid');
+  const [invitation, setInvitation] = useState<InvitationInfo | null>(null);
+  const [validationAttempt, setValidationAttempt] = useState(0);
+  const [formData, setFormData] = useState({
+    userName: '',
+    firstName: '',
+    lastName: '',
+    phoneNumber: '',
+    password: '',
+    confirmPassword: ''
+  });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const passwordPolicy = usePasswordPolicy();
+  const passwordCheck = checkPassword(formData.password, passwordPolicy, { email: invitation?.email, userName: formData.userName });
+
+  // Check the invitation before showing the form
+  useEffect(() => {
+    if (!token) return;
+
+    const controller = new AbortController();
+    apiService.validateInvitation({ token }, controller.signal)
+      .then(response => {
+        setInvitation(ApiResponseHandler.handleResponse(response));
+        setStatus('ready');
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error('Invitation validation failed:', error);
+        setError(ApiResponseHandler.getUserMessage(error));
+        setStatus(getInvitationStatus(error));
+      });
+
+    return () => controller.abort();
+  }, [token, validationAttempt]);
+
+  const retryValidation = () => {
+    setError('');
+    setStatus('validating');
+    setValidationAttempt(attempt => attempt + 1);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }));
+
+    // Clear errors when user starts typing
+    if (error) setError('');
+    if (fieldErrors[name.toLowerCase()]) {
+      setFieldErrors(prev => ({
+        ...prev,
+        [name.toLowerCase()]: ''
+      }));
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const errors: Record<string, string> = {};
+
+    if (formData.userName.trim().length < 3) {
+      errors.username = 'Username must be at least 3 characters long';
+    }
+    const passwordError = getPasswordError(passwordCheck);
+    if (passwordError) {
+      errors.password = passwordError;
+    }
+    if (formData.confirmPassword !== formData.password) {
+      errors.confirmpassword = 'Passwords do not match';
+    }
+
+    setFieldErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invitation || !validateForm()) return;
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await apiService.registerAdmin({
+        invitationToken: token,
+        email: invitation.email, // Locked to the invited address
+        password: formData.password,
+        userName: formData.userName.trim(),
+        firstName: formData.firstName.trim(),
+        lastName: formData.lastName.trim(),
+        phoneNumber: formData.phoneNumber.trim(),
+      });
+      console.log('Invitation registration response:', response);
+      ApiResponseHandler.handleResponse(response);
+      setStatus('done');
+    } catch (error) {
+      console.error('Invitation registration error:', error);
+
+      if (error instanceof ValidationError) {
+        // Field names come back as "UserName", "Password" and are lower-cased by the helper
+        setFieldErrors(FormValidationHelper.extractFieldErrors(error.response));
+        setError('Please correct the errors below');
+        return;
+      }
+
+      const invitationStatus = getInvitationStatus(error);
+      if (invitationStatus === 'expired' || invitationStatus === 'invalid') {
+        setStatus(invitationStatus);
+      }
+      setError(ApiResponseHandler.getUserMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderMessage = (icon: React.ReactNode, title: string, message: string, action: React.ReactNode) => (
+    <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6 text-center">
+        <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-primary/10">
+          {icon}
+        </div>
+        <h2 className="text-3xl font-extrabold text-foreground">{title}</h2>
+        <p className="text-sm text-muted-foreground">{message}</p>
+        {action}
+      </div>
+    </div>
+  );
+
+  const primaryButtonClasses = "w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-primary-foreground bg-primary hover:bg-primary/90 transition-colors";
+
+  const inputClasses = (field: string) => `appearance-none relative block w-full px-3 py-2 border ${
+    fieldErrors[field] ? 'border-destructive' : 'border-border'
+  } placeholder-muted-foreground text-foreground bg-background rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:border-ring focus:z-10 sm:text-sm`;
+
+  if (status === 'validating') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <Loader2 className="animate-spin h-10 w-10 text-primary mx-auto" />
+          <p className="mt-4 text-muted-foreground">Checking your invitation...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (status === 'done') {
+    return renderMessage(
+      <CheckCircle className="h-6 w-6 text-primary" />,
+      'Account created',
+      'Your account is ready. Sign in to get started.',
+      <button onClick={() => navigate('/login')} className={primaryButtonClasses}>Go to sign in</button>
+    );
+  }
+
+  if (status === 'expired' || status === 'invalid') {
+    return renderMessage(
+      <AlertTriangle className="h-6 w-6 text-destructive" />,
+      status === 'expired' ? 'Invitation expired' : 'Invitation not valid',
+      status === 'expired'
+        ? 'Invitations are only valid for a limited time. Ask the person who invited you to send a new one.'
+        : 'This invitation is invalid or has already been accepted. If you already have an account, sign in instead.',
+      <button onClick={() => navigate('/login')} className={primaryButtonClasses}>Go to sign in</button>
+    );
+  }
+
+  if (status === 'error') {
+    return renderMessage(
+      <AlertTriangle className="h-6 w-6 text-destructive" />,
+      'Could not check your invitation',
+      error || 'Something went wrong. Please try again.',
+      <button onClick={retryValidation} className={primaryButtonClasses}>Try again</button>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        {/* Header */}
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-foreground">
+            Accept your invitation
+          </h2>
+          {invitation && (
+            <p className="mt-2 text-center text-sm text-muted-foreground">
+              {invitation.invitedBy} invited you to join as {invitation.role === 'Admin' ? 'an organizer' : 'a member'}.
+              This invitation expires on {new Date(invitation.expiresAt).toLocaleDateString()}.
+            </p>
+          )}
+        </div>
+
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit} noValidate>
+          <div className="rounded-md shadow-sm space-y-4">
+            {/* Email (locked to the invitation) */}
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-foreground mb-1">
+                Email address
+              </label>
+              <div className="relative">
+                <input
+                  id="email"
+                  name="email"
+                  type="email"
+                  value={invitation?.email ?? ''}
+                  readOnly
+                  aria-readonly="true"
+                  className="appearance-none relative block w-full px-3 py-2 pr-9 border border-border text-muted-foreground bg-muted rounded-md cursor-not-allowed sm:text-sm"
+                />
+                <Lock className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              </div>
+            </div>
+
+            {/* Username Input */}
+            <div>
+              <label htmlFor="userName" className="block text-sm font-medium text-foreground mb-1">
+                Username *
+              </label>
+              <input
+                id="userName"
+                name="userName"
+                type="text"
+                autoComplete="username"
+                required
+                autoFocus
+                value={formData.userName}
+                onChange={handleInputChange}
+                className={inputClasses('username')}
+                placeholder="Choose a username"
+              />
+              {fieldErrors.username && (
+                <p className="mt-1 text-sm text-destructive">{fieldErrors.username}</p>
+              )}
+            </div>
+
+            {/* Name Inputs */}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="firstName" className="block text-sm font-medium text-foreground mb-1">
+                  First name
+                </label>
+                <input
+                  id="firstName"
+                  name="firstName"
+                  type="text"
+                  autoComplete="given-name"
+                  value={formData.firstName}
+                  onChange={handleInputChange}
+                  className={inputClasses('firstname')}
+                />
+              </div>
+              <div>
+                <label htmlFor="lastName" className="block text-sm font-medium text-foreground mb-1">
+                  Last name
+                </label>
+                <input
+                  id="lastName"
+                  name="lastName"
+                  type="text"
+                  autoComplete="family-name"
+                  value={formData.lastName}
+                  onChange={handleInputChange}
+                  className={inputClasses('lastname')}
+                />
+              </div>
+            </div>
+
+            {/* Phone Input */}
+            <div>
+              <label htmlFor="phoneNumber" className="block text-sm font-medium text-foreground mb-1">
+                Phone number
+              </label>
+              <input
+                id="phoneNumber"
+                name="phoneNumber"
+                type="tel"
+                autoComplete="tel"
+                value={formData.phoneNumber}
+                onChange={handleInputChange}
+                className={inputClasses('phonenumber')}
+              />
+            </div>
+
+            {/* Password Input */}
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-foreground mb-1">
+                Password *
+              </label>
+              <input
+                id="password"
+                name="password"
+                type="password"
+                autoComplete="new-password"
+                required
+                value={formData.password}
+                onChange={handleInputChange}
+                className={inputClasses('password')}
+                placeholder="Choose a password"
+                aria-describedby="password-requirements"
+              />
+              {fieldErrors.password && (
+                <p className="mt-1 text-sm text-destructive">{fieldErrors.password}</p>
+              )}
+              <PasswordStrengthMeter id="password-requirements" check={passwordCheck} password={formData.password} />
+            </div>
+
+            {/* Confirm Password Input */}
+            <div>
+              <label htmlFor="confirmPassword" className="block text-sm font-medium text-foreground mb-1">
+                Confirm password *
+              </label>
+              <input
+                id="confirmPassword"
+                name="confirmPassword"
+                type="password"
+                autoComplete="new-password"
+                required
+                value={formData.confirmPassword}
+                onChange={handleInputChange}
+                className={inputClasses('confirmpassword')}
+                placeholder="Repeat the password"
+              />
+              {fieldErrors.confirmpassword && (
+                <p className="mt-1 text-sm text-destructive">{fieldErrors.confirmpassword}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="bg-destructive/10 border border-destructive/20 rounded-md p-3">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <X className="h-5 w-5 text-destructive" />
+                </div>
+                <div className="ml-3">
+                  <p className="text-sm text-destructive">{error}</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Submit Button */}
+          <button
+            type="submit"
+            disabled={!formData.userName || !formData.password || !formData.confirmPassword || loading}
+            className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-primary-foreground bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-ring disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {loading ? (
+              <div className="flex items-center">
+                <Loader2 className="animate-spin -ml-1 mr-3 h-5 w-5 text-primary-foreground" />
+                Creating account...
+              </div>
+            ) : (
+              'Create account'
+            )}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
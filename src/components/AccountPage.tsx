@@ -0,0 +1,975 @@
+import { useState, useEffect, useRef } from 'react';
+import { X, Loader2, CheckCircle, Camera, Trash2, MailWarning, Monitor, Smartphone, MapPin, ShieldCheck, Copy, Download } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
+import { apiService } from '../api';
+import { ApiResponseHandler, ValidationError, FormValidationHelper } from '../types';
+import type { MfaSetup, UserProfile, UserSession, UpdateProfileRequest } from '../contracts';
+import { useAuth, usePasswordPolicy } from '../hooks';
+import { validationUtils, dateUtils } from '../utils/domainUtils';
+import { checkPassword, getPasswordError } from '../utils/passwordPolicy';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
+import { envConfig } from '../utils/envConfig';
+
+// Same limit as the backend
+const MAX_AVATAR_SIZE = 1024 * 1024;
+
+const inputClasses = (hasError: boolean) => `appearance-none relative block w-full px-3 py-2 border ${
+  hasError ? 'border-destructive' : 'border-border'
+} placeholder-muted-foreground text-foreground bg-background rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:border-ring sm:text-sm`;
+
+const submitButtonClasses = "inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-primary-foreground bg-primary hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors";
+
+interface SectionProps {
+  profile: UserProfile;
+  onProfileChange: (profile: UserProfile) => void;
+}
+
+// Shared by the sections: turns a failed save into field errors or a message
+function getSaveErrors(error: unknown): { message: string; fieldErrors: Record<string, string> } {
+  if (error instanceof ValidationError) {
+    return { message: 'Please correct the errors below', fieldErrors: FormValidationHelper.extractFieldErrors(error.response) };
+  }
+  return { message: ApiResponseHandler.getUserMessage(error), fieldErrors: {} };
+}
+
+function FormMessages({ error, success }: { error: string; success: string }) {
+  return (
+    <>
+      {error && (
+        <div className="bg-destructive/10 border border-destructive/20 rounded-md p-3 flex">
+          <X className="h-5 w-5 text-destructive flex-shrink-0" />
+          <p className="ml-3 text-sm text-destructive">{error}</p>
+        </div>
+      )}
+      {success && (
+        <div className="bg-primary/10 border border-primary/20 rounded-md p-3 flex">
+          <CheckCircle className="h-5 w-5 text-primary flex-shrink-0" />
+          <p className="ml-3 text-sm text-foreground">{success}</p>
+        </div>
+      )}
+    </>
+  );
+}
+
+function AvatarSection({ profile, onProfileChange }: SectionProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const initials = `${profile.firstName.charAt(0)}${profile.lastName.charAt(0)}`.toUpperCase() || profile.userName.charAt(0).toUpperCase();
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      setError('Please choose an image file');
+      return;
+    }
+    if (file.size > MAX_AVATAR_SIZE) {
+      setError('The image must be 1 MB or smaller');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      const response = await apiService.uploadAvatar(file);
+      onProfileChange(ApiResponseHandler.handleResponse(response));
+    } catch (error) {
+      console.error('Avatar upload error:', error);
+      setError(getSaveErrors(error).fieldErrors.avatarfile || ApiResponseHandler.getUserMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await apiService.deleteAvatar();
+      onProfileChange(ApiResponseHandler.handleResponse(response));
+    } catch (error) {
+      console.error('Avatar removal error:', error);
+      setError(ApiResponseHandler.getUserMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-6">
+      <div className="relative h-20 w-20 flex-shrink-0">
+        {profile.avatarUrl ? (
+          <img src={profile.avatarUrl} alt="Your avatar" className="h-20 w-20 rounded-full object-cover border border-border" />
+        ) : (
+          <div className="h-20 w-20 rounded-full bg-primary/10 flex items-center justify-center text-2xl font-semibold text-primary">
+            {initials}
+          </div>
+        )}
+        {saving && (
+          <div className="absolute inset-0 rounded-full bg-background/70 flex items-center justify-center">
+            <Loader2 className="animate-spin h-6 w-6 text-primary" />
+          </div>
+        )}
+      </div>
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleFileChange} />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={saving}
+            className="inline-flex items-center px-3 py-2 border border-border text-sm font-medium rounded-md text-foreground bg-background hover:bg-accent disabled:opacity-50 transition-colors"
+          >
+            <Camera className="mr-2 h-4 w-4" />
+            {profile.avatarUrl ? 'Change photo' : 'Upload photo'}
+          </button>
+          {profile.avatarUrl && (
+            <button
+              type="button"
+              onClick={handleRemove}
+              disabled={saving}
+              className="inline-flex items-center px-3 py-2 border border-border text-sm font-medium rounded-md text-destructive bg-background hover:bg-destructive/10 disabled:opacity-50 transition-colors"
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Remove
+            </button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">JPG, PNG or GIF, up to 1 MB.</p>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+    </div>
+  );
+}
+
+function ProfileSection({ profile, onProfileChange }: SectionProps) {
+  const [formData, setFormData] = useState<UpdateProfileRequest>({
+    userName: profile.userName,
+    firstName: profile.firstName,
+    lastName: profile.lastName,
+    phoneNumber: profile.phoneNumber,
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }));
+
+    // Clear errors when user starts typing
+    if (error) setError('');
+    if (success) setSuccess('');
+    if (fieldErrors[name.toLowerCase()]) {
+      setFieldErrors(prev => ({
+        ...prev,
+        [name.toLowerCase()]: ''
+      }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.userName.trim().length < 3) {
+      setFieldErrors({ username: 'Username must be at least 3 characters long' });
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    setFieldErrors({});
+
+    try {
+      const response = await apiService.updateProfile({
+        userName: formData.userName.trim(),
+        firstName: formData.firstName.trim(),
+        lastName: formData.lastName.trim(),
+        phoneNumber: formData.phoneNumber.trim(),
+      });
+      onProfileChange(ApiResponseHandler.handleResponse(response));
+      setSuccess('Your profile has been saved.');
+    } catch (error) {
+      console.error('Profile update error:', error);
+      const saveErrors = getSaveErrors(error);
+      setFieldErrors(saveErrors.fieldErrors);
+      setError(saveErrors.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit} noValidate>
+      <div>
+        <label htmlFor="userName" className="block text-sm font-medium text-foreground mb-1">Username</label>
+        <input id="userName" name="userName" type="text" autoComplete="username" value={formData.userName} onChange={handleInputChange} className={inputClasses(!!fieldErrors.username)} />
+        {fieldErrors.username && <p className="mt-1 text-sm text-destructive">{fieldErrors.username}</p>}
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="firstName" className="block text-sm font-medium text-foreground mb-1">First name</label>
+          <input id="firstName" name="firstName" type="text" autoComplete="given-name" value={formData.firstName} onChange={handleInputChange} className={inputClasses(!!fieldErrors.firstname)} />
+          {fieldErrors.firstname && <p className="mt-1 text-sm text-destructive">{fieldErrors.firstname}</p>}
+        </div>
+        <div>
+          <label htmlFor="lastName" className="block text-sm font-medium text-foreground mb-1">Last name</label>
+          <input id="lastName" name="lastName" type="text" autoComplete="family-name" value={formData.lastName} onChange={handleInputChange} className={inputClasses(!!fieldErrors.lastname)} />
+          {fieldErrors.lastname && <p className="mt-1 text-sm text-destructive">{fieldErrors.lastname}</p>}
+        </div>
+      </div>
+      <div>
+        <label htmlFor="phoneNumber" className="block text-sm font-medium text-foreground mb-1">Phone number</label>
+        <input id="phoneNumber" name="phoneNumber" type="tel" autoComplete="tel" value={formData.phoneNumber} onChange={handleInputChange} className={inputClasses(!!fieldErrors.phonenumber)} />
+        {fieldErrors.phonenumber && <p className="mt-1 text-sm text-destructive">{fieldErrors.phonenumber}</p>}
+        <p className="mt-1 text-xs text-muted-foreground">Used to pre-fill your event registrations.</p>
+      </div>
+
+      <FormMessages error={error} success={success} />
+
+      <button type="submit" disabled={saving} className={submitButtonClasses}>
+        {saving && <Loader2 className="animate-spin mr-2 h-4 w-4" />}
+        Save profile
+      </button>
+    </form>
+  );
+}
+
+function EmailSection({ profile, onProfileChange }: SectionProps) {
+  const [formData, setFormData] = useState({ newEmail: '', currentPassword: '' });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }));
+
+    // Clear errors when user starts typing
+    if (error) setError('');
+    if (fieldErrors[name.toLowerCase()]) {
+      setFieldErrors(prev => ({
+        ...prev,
+        [name.toLowerCase()]: ''
+      }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newEmail = formData.newEmail.trim();
+    if (!validationUtils.isValidEmail(newEmail)) {
+      setFieldErrors({ newemail: 'Please enter a valid email address' });
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    setFieldErrors({});
+
+    try {
+      const response = await apiService.changeEmail({ newEmail, currentPassword: formData.currentPassword });
+      onProfileChange(ApiResponseHandler.handleResponse(response));
+      setFormData({ newEmail: '', currentPassword: '' });
+    } catch (error) {
+      console.error('Email change error:', error);
+      const saveErrors = getSaveErrors(error);
+      setFieldErrors(saveErrors.fieldErrors);
+      setError(saveErrors.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Current email: <strong className="text-foreground">{profile.email}</strong>
+      </p>
+
+      {profile.pendingEmail && (
+        <div className="bg-accent border border-border rounded-md p-3 flex">
+          <MailWarning className="h-5 w-5 text-primary flex-shrink-0" />
+          <div className="ml-3 text-sm">
+            <p className="text-foreground">
+              We sent a verification link to <strong>{profile.pendingEmail}</strong>. Your email changes once you open it.
+            </p>
+            {envConfig.useMockApi && (
+              <p className="mt-1 text-xs text-muted-foreground">Demo mode: open the browser console to find the link.</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <form className="space-y-4" onSubmit={handleSubmit} noValidate>
+        <div>
+          <label htmlFor="newEmail" className="block text-sm font-medium text-foreground mb-1">New email address</label>
+          <input id="newEmail" name="newEmail" type="email" autoComplete="email" value={formData.newEmail} onChange={handleInputChange} className={inputClasses(!!fieldErrors.newemail)} />
+          {fieldErrors.newemail && <p className="mt-1 text-sm text-destructive">{fieldErrors.newemail}</p>}
+        </div>
+        <div>
+          <label htmlFor="emailCurrentPassword" className="block text-sm font-medium text-foreground mb-1">Current password</label>
+          <input id="emailCurrentPassword" name="currentPassword" type="password" autoComplete="current-password" value={formData.currentPassword} onChange={handleInputChange} className={inputClasses(!!fieldErrors.currentpassword)} />
+          {fieldErrors.currentpassword && <p className="mt-1 text-sm text-destructive">{fieldErrors.currentpassword}</p>}
+        </div>
+
+        <FormMessages error={error} success="" />
+
+        <button type="submit" disabled={!formData.newEmail.trim() || !formData.currentPassword || saving} className={submitButtonClasses}>
+          {saving && <Loader2 className="animate-spin mr-2 h-4 w-4" />}
+          Send verification link
+        </button>
+      </form>
+    </div>
+  );
+}
+
+function PasswordSection({ profile }: { profile: UserProfile }) {
+  const [formData, setFormData] = useState({ currentPassword: '', newPassword: '', confirmPassword: '' });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const passwordPolicy = usePasswordPolicy();
+  const passwordCheck = checkPassword(formData.newPassword, passwordPolicy, { email: profile.email, userName: profile.userName });
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }));
+
+    // Clear errors when user starts typing
+    if (error) setError('');
+    if (success) setSuccess('');
+    if (fieldErrors[name.toLowerCase()]) {
+      setFieldErrors(prev => ({
+        ...prev,
+        [name.toLowerCase()]: ''
+      }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const errors: Record<string, string> = {};
+    const passwordError = getPasswordError(passwordCheck);
+    if (passwordError) {
+      errors.newpassword = passwordError;
+    }
+    if (formData.confirmPassword !== formData.newPassword) {
+      errors.confirmpassword = 'Passwords do not match';
+    }
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    setSaving(true);
+    setError('');
+
+    try {
+      const response = await apiService.changePassword({
+        currentPassword: formData.currentPassword,
+        newPassword: formData.newPassword,
+      });
+      console.log('Change password response:', response);
+      setFormData({ currentPassword: '', newPassword: '', confirmPassword: '' });
+      setSuccess('Your password has been changed.');
+    } catch (error) {
+      console.error('Change password error:', error);
+      const saveErrors = getSaveErrors(error);
+      setFieldErrors(saveErrors.fieldErrors);
+      setError(saveErrors.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit} noValidate>
+      <div>
+        <label htmlFor="currentPassword" className="block text-sm font-medium text-foreground mb-1">Current password</label>
+        <input id="currentPassword" name="currentPassword" type="password" autoComplete="current-password" value={formData.currentPassword} onChange={handleInputChange} className={inputClasses(!!fieldErrors.currentpassword)} />
+        {fieldErrors.currentpassword && <p className="mt-1 text-sm text-destructive">{fieldErrors.currentpassword}</p>}
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="newPassword" className="block text-sm font-medium text-foreground mb-1">New password</label>
+          <input id="newPassword" name="newPassword" type="password" autoComplete="new-password" value={formData.newPassword} onChange={handleInputChange} className={inputClasses(!!fieldErrors.newpassword)} aria-describedby="newPassword-requirements" />
+          {fieldErrors.newpassword && <p className="mt-1 text-sm text-destructive">{fieldErrors.newpassword}</p>}
+          <PasswordStrengthMeter id="newPassword-requirements" check={passwordCheck} password={formData.newPassword} />
+        </div>
+        <div>
+          <label htmlFor="confirmPassword" className="block text-sm font-medium text-foreground mb-1">Confirm new password</label>
+          <input id="confirmPassword" name="confirmPassword" type="password" autoComplete="new-password" value={formData.confirmPassword} onChange={handleInputChange} className={inputClasses(!!fieldErrors.confirmpassword)} />
+          {fieldErrors.confirmpassword && <p className="mt-1 text-sm text-destructive">{fieldErrors.confirmpassword}</p>}
+        </div>
+      </div>
+
+      <FormMessages error={error} success={success} />
+
+      <button type="submit" disabled={!formData.currentPassword || !formData.newPassword || saving} className={submitButtonClasses}>
+        {saving && <Loader2 className="animate-spin mr-2 h-4 w-4" />}
+        Change password
+      </button>
+    </form>
+  );
+}
+
+// Shown right after enabling or regenerating; the server never returns them again
+function RecoveryCodesPanel({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const [copied, setCopied] = useState(false);
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+    } catch (error) {
+      console.error('Copying recovery codes failed:', error);
+    }
+  };
+
+  const handleDownload = () => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([`${text}\n`], { type: 'text/plain;charset=utf-8' }));
+    link.download = 'calvent-recovery-codes.txt';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-accent border border-border rounded-md p-4">
+        <p className="text-sm font-medium text-foreground">Save your recovery codes</p>
+        <p className="mt-1 text-sm text-muted-foreground">
+          If you lose access to your authenticator app, each of these codes lets you sign in once. This is the only time they are shown.
+        </p>
+        <ul className="mt-3 grid grid-cols-2 gap-2 font-mono text-sm text-foreground">
+          {codes.map(code => <li key={code}>{code}</li>)}
+        </ul>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <button type="button" onClick={handleCopy} className="inline-flex items-center px-3 py-2 border border-border text-sm font-medium rounded-md text-foreground bg-background hover:bg-accent transition-colors">
+          <Copy className="mr-2 h-4 w-4" />
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+        <button type="button" onClick={handleDownload} className="inline-flex items-center px-3 py-2 border border-border text-sm font-medium rounded-md text-foreground bg-background hover:bg-accent transition-colors">
+          <Download className="mr-2 h-4 w-4" />
+          Download
+        </button>
+        <button type="button" onClick={onDone} className={submitButtonClasses}>
+          I've saved these codes
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function TwoFactorSection({ profile, onProfileChange }: SectionProps) {
+  const [setup, setSetup] = useState<MfaSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  // Turning MFA off and replacing recovery codes both ask for the password first
+  const [passwordAction, setPasswordAction] = useState<'disable' | 'regenerate' | null>(null);
+  const [code, setCode] = useState('');
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const resetForm = () => {
+    setCode('');
+    setCurrentPassword('');
+    setError('');
+    setFieldErrors({});
+  };
+
+  const handleStartSetup = async () => {
+    setSaving(true);
+    resetForm();
+    try {
+      const response = await apiService.setupMfa();
+      setSetup(ApiResponseHandler.handleResponse(response));
+    } catch (error) {
+      console.error('MFA setup error:', error);
+      setError(ApiResponseHandler.getUserMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+    setFieldErrors({});
+    try {
+      const response = await apiService.enableMfa({ code: code.replace(/\s/g, '') });
+      const { recoveryCodes } = ApiResponseHandler.handleResponse(response);
+      setSetup(null);
+      setRecoveryCodes(recoveryCodes);
+      resetForm();
+      onProfileChange({ ...profile, mfaEnabled: true, recoveryCodesRemaining: recoveryCodes.length });
+    } catch (error) {
+      console.error('MFA enable error:', error);
+      const saveErrors = getSaveErrors(error);
+      setFieldErrors(saveErrors.fieldErrors);
+      setError(saveErrors.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePasswordAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+    setFieldErrors({});
+    try {
+      if (passwordAction === 'disable') {
+        const response = await apiService.disableMfa({ currentPassword });
+        onProfileChange(ApiResponseHandler.handleResponse(response));
+      } else {
+        const response = await apiService.regenerateRecoveryCodes({ currentPassword });
+        const { recoveryCodes } = ApiResponseHandler.handleResponse(response);
+        setRecoveryCodes(recoveryCodes);
+        onProfileChange({ ...profile, recoveryCodesRemaining: recoveryCodes.length });
+      }
+      setPasswordAction(null);
+      resetForm();
+    } catch (error) {
+      console.error('MFA settings error:', error);
+      const saveErrors = getSaveErrors(error);
+      setFieldErrors(saveErrors.fieldErrors);
+      setError(saveErrors.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return <RecoveryCodesPanel codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />;
+  }
+
+  if (setup) {
+    return (
+      <form className="space-y-4" onSubmit={handleEnable} noValidate>
+        <p className="text-sm text-muted-foreground">
+          Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy, then enter the 6-digit code it shows.
+        </p>
+        <div className="flex flex-col sm:flex-row items-start gap-6">
+          <div className="bg-white p-3 rounded-md border border-border">
+            <QRCodeSVG value={setup.otpauthUri} size={160} />
+          </div>
+          <div className="space-y-1 min-w-0">
+            <p className="text-sm font-medium text-foreground">Can't scan the code?</p>
+            <p className="text-sm text-muted-foreground">Enter this key in your app instead:</p>
+            <p className="font-mono text-sm text-foreground break-all">{setup.secret.match(/.{1,4}/g)?.join(' ')}</p>
+          </div>
+        </div>
+        <div className="max-w-xs">
+          <label htmlFor="mfaSetupCode" className="block text-sm font-medium text-foreground mb-1">Authentication code</label>
+          <input
+            id="mfaSetupCode"
+            name="code"
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={7}
+            value={code}
+            onChange={e => {
+              setCode(e.target.value);
+              if (error) setError('');
+            }}
+            className={inputClasses(!!fieldErrors.code)}
+            placeholder="123456"
+          />
+          {fieldErrors.code && <p className="mt-1 text-sm text-destructive">{fieldErrors.code}</p>}
+        </div>
+
+        <FormMessages error={error} success="" />
+
+        <div className="flex gap-2">
+          <button type="submit" disabled={!/^\d{6}$/.test(code.replace(/\s/g, '')) || saving} className={submitButtonClasses}>
+            {saving && <Loader2 className="animate-spin mr-2 h-4 w-4" />}
+            Turn on
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setSetup(null);
+              resetForm();
+            }}
+            className="px-4 py-2 border border-border text-sm font-medium rounded-md text-foreground bg-background hover:bg-accent transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  if (!profile.mfaEnabled) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Protect your account with a second step at sign-in: a code from an authenticator app on your phone.
+        </p>
+        <FormMessages error={error} success="" />
+        <button type="button" onClick={handleStartSetup} disabled={saving} className={submitButtonClasses}>
+          {saving ? <Loader2 className="animate-spin mr-2 h-4 w-4" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+          Set up authenticator app
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-3">
+        <ShieldCheck className="h-5 w-5 text-green-600 flex-shrink-0 mt-0.5" />
+        <div>
+          <p className="text-sm font-medium text-foreground">Two-step verification is on</p>
+          <p className={`text-sm ${profile.recoveryCodesRemaining <= 3 ? 'text-destructive' : 'text-muted-foreground'}`}>
+            {profile.recoveryCodesRemaining} recovery {profile.recoveryCodesRemaining === 1 ? 'code' : 'codes'} left
+            {profile.recoveryCodesRemaining <= 3 && ' - get new ones so you are not locked out'}
+          </p>
+        </div>
+      </div>
+
+      {passwordAction ? (
+        <form className="space-y-4" onSubmit={handlePasswordAction} noValidate>
+          <div className="max-w-xs">
+            <label htmlFor="mfaCurrentPassword" className="block text-sm font-medium text-foreground mb-1">Current password</label>
+            <input
+              id="mfaCurrentPassword"
+              name="currentPassword"
+              type="password"
+              autoComplete="current-password"
+              value={currentPassword}
+              onChange={e => {
+                setCurrentPassword(e.target.value);
+                if (error) setError('');
+              }}
+              className={inputClasses(!!fieldErrors.currentpassword)}
+            />
+            {fieldErrors.currentpassword && <p className="mt-1 text-sm text-destructive">{fieldErrors.currentpassword}</p>}
+          </div>
+
+          <FormMessages error={error} success="" />
+
+          <div className="flex gap-2">
+            <button type="submit" disabled={!currentPassword || saving} className={submitButtonClasses}>
+              {saving && <Loader2 className="animate-spin mr-2 h-4 w-4" />}
+              {passwordAction === 'disable' ? 'Turn off two-step verification' : 'Get new recovery codes'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setPasswordAction(null);
+                resetForm();
+              }}
+              className="px-4 py-2 border border-border text-sm font-medium rounded-md text-foreground bg-background hover:bg-accent transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => setPasswordAction('regenerate')}
+            className="inline-flex items-center px-4 py-2 border border-border text-sm font-medium rounded-md text-foreground bg-background hover:bg-accent transition-colors"
+          >
+            Get new recovery codes
+          </button>
+          <button
+            type="button"
+            onClick={() => setPasswordAction('disable')}
+            className="inline-flex items-center px-4 py-2 border border-border text-sm font-medium rounded-md text-destructive bg-background hover:bg-destructive/10 transition-colors"
+          >
+            Turn off
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SessionsSection() {
+  const { logout } = useAuth();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [showConfirmAll, setShowConfirmAll] = useState(false);
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await apiService.getSessions();
+      setSessions(ApiResponseHandler.handleResponse(response));
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+      setError(ApiResponseHandler.getUserMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (session: UserSession) => {
+    setRevokingId(session.id);
+    setError('');
+    try {
+      await apiService.revokeSession(session.id);
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      setError(ApiResponseHandler.getUserMessage(error));
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  // Revokes this session too, so finish with a normal local logout
+  const handleRevokeAll = async () => {
+    setRevokingId('all');
+    setError('');
+    try {
+      await apiService.revokeAllSessions();
+      await logout();
+    } catch (error) {
+      console.error('Error signing out everywhere:', error);
+      setError(ApiResponseHandler.getUserMessage(error));
+      setRevokingId(null);
+      setShowConfirmAll(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-sm text-muted-foreground">
+        <Loader2 className="animate-spin mr-2 h-4 w-4" />
+        Loading sessions...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        These devices are signed in to your account. Sign out any session you don't recognise.
+      </p>
+
+      <ul className="divide-y divide-border border border-border rounded-md">
+        {sessions.map(session => {
+          const DeviceIcon = /iOS|Android/.test(session.browser) ? Smartphone : Monitor;
+          return (
+            <li key={session.id} className="flex items-center justify-between gap-4 p-4">
+              <div className="flex items-start gap-3 min-w-0">
+                <DeviceIcon className="h-5 w-5 text-muted-foreground flex-shrink-0 mt-0.5" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground">
+                    {session.browser}
+                    {session.isCurrent && (
+                      <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                        This device
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground flex items-center">
+                    <MapPin className="h-3 w-3 mr-1" />
+                    {session.locationLabel}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    First seen {dateUtils.formatRegistrationDate(session.createdAt)} · Last active {dateUtils.formatEventDate(session.lastRefreshedAt)}
+                  </p>
+                </div>
+              </div>
+              {!session.isCurrent && (
+                <button
+                  type="button"
+                  onClick={() => handleRevoke(session)}
+                  disabled={revokingId !== null}
+                  className="flex-shrink-0 inline-flex items-center px-3 py-1.5 border border-border text-sm font-medium rounded-md text-destructive bg-background hover:bg-destructive/10 disabled:opacity-50 transition-colors"
+                >
+                  {revokingId === session.id && <Loader2 className="animate-spin mr-2 h-4 w-4" />}
+                  Sign out
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <FormMessages error={error} success="" />
+
+      {showConfirmAll ? (
+        <div className="bg-destructive/10 border border-destructive/20 rounded-md p-4 space-y-3">
+          <p className="text-sm text-foreground">
+            Sign out of all {sessions.length} sessions, including this one? You will need to sign in again on every device.
+          </p>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleRevokeAll}
+              disabled={revokingId !== null}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-destructive-foreground bg-destructive hover:bg-destructive/90 disabled:opacity-50 transition-colors"
+            >
+              {revokingId === 'all' && <Loader2 className="animate-spin mr-2 h-4 w-4" />}
+              Sign out everywhere
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowConfirmAll(false)}
+              disabled={revokingId !== null}
+              className="px-4 py-2 border border-border text-sm font-medium rounded-md text-foreground bg-background hover:bg-accent transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setShowConfirmAll(true)}
+          className="inline-flex items-center px-4 py-2 border border-border text-sm font-medium rounded-md text-destructive bg-background hover:bg-destructive/10 transition-colors"
+        >
+          Sign out everywhere
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * AccountPage - The signed-in user's profile, email, password, avatar, two-step verification and active sessions
+ * Saved profile fields are pushed into the session so pages that read useAuth()
+ * (e.g. the registration pre-fill on EventDetailPage) see them straight away.
+ */
+export function AccountPage() {
+  const { updateUser } = useAuth();
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [loadAttempt, setLoadAttempt] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    apiService.getProfile(controller.signal)
+      .then(response => {
+        const data = ApiResponseHandler.handleResponse(response);
+        console.log('Profile loaded:', data);
+        setProfile(data);
+        setLoading(false);
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error('Error loading profile:', error);
+        setError(ApiResponseHandler.getUserMessage(error));
+        setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [loadAttempt]);
+
+  // Keep the session user in step with the server, e.g. after an email change was verified elsewhere
+  useEffect(() => {
+    if (!profile) return;
+    updateUser({
+      email: profile.email,
+      userName: profile.userName,
+      firstName: profile.firstName,
+      lastName: profile.lastName,
+      phoneNumber: profile.phoneNumber,
+    });
+  }, [profile, updateUser]);
+
+  const retry = () => {
+    setError('');
+    setLoading(true);
+    setLoadAttempt(attempt => attempt + 1);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex justify-center items-center">
+        <Loader2 className="animate-spin h-10 w-10 text-primary" />
+        <span className="ml-3 text-muted-foreground">Loading your account...</span>
+      </div>
+    );
+  }
+
+  if (error || !profile) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="bg-destructive/10 border border-destructive/20 rounded-md p-4">
+          <p className="text-sm text-destructive">{error || 'Your account could not be loaded.'}</p>
+          <button onClick={retry} className="mt-2 text-sm text-destructive hover:text-destructive/80 font-medium">
+            Try again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const sectionClasses = "bg-card border border-border rounded-lg p-6 space-y-4";
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto max-w-3xl px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground mb-2">Account settings</h1>
+          <p className="text-muted-foreground">Manage your profile, sign-in email, password and security.</p>
+        </div>
+
+        <section className={sectionClasses}>
+          <h2 className="text-lg font-semibold text-foreground">Profile</h2>
+          <AvatarSection profile={profile} onProfileChange={setProfile} />
+          <ProfileSection profile={profile} onProfileChange={setProfile} />
+        </section>
+
+        <section className={sectionClasses}>
+          <h2 className="text-lg font-semibold text-foreground">Email address</h2>
+          <EmailSection profile={profile} onProfileChange={setProfile} />
+        </section>
+
+        <section className={sectionClasses}>
+          <h2 className="text-lg font-semibold text-foreground">Password</h2>
+          <PasswordSection profile={profile} />
+        </section>
+
+        <section className={sectionClasses}>
+          <h2 className="text-lg font-semibold text-foreground">Two-step verification</h2>
+          <TwoFactorSection profile={profile} onProfileChange={setProfile} />
+        </section>
+
+        <section className={sectionClasses}>
+          <h2 className="text-lg font-semibold text-foreground">Active sessions</h2>
+          <SessionsSection />
+        </section>
+      </div>
+    </div>
+  );
+}
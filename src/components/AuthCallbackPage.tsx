@@ -0,0 +1,76 @@
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Loader2, AlertTriangle } from 'lucide-react';
+import { apiService } from '../api';
+import { ApiResponseHandler } from '../types';
+import { oidcService, OidcError } from '../services';
+import { useAuth } from '../hooks';
+
+/**
+ * AuthCallbackPage - Where the identity provider sends the browser back after single sign-on
+ */
+export function AuthCallbackPage() {
+  const { login } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [error, setError] = useState('');
+  // The pending sign-in is single-use: complete it once, even when StrictMode runs the effect twice
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    const completeSignIn = async () => {
+      try {
+        const { idToken, returnUrl } = await oidcService.completeSignIn(searchParams);
+
+        const response = await apiService.loginWithSso({ idToken });
+        console.log('SSO login response:', response);
+
+        // Same session start as password login: tokens, refresh timer, tab sync
+        const user = login(ApiResponseHandler.handleResponse(response));
+        if (!user) {
+          setError('Failed to decode user information. Please try again.');
+          return;
+        }
+
+        navigate(returnUrl, { replace: true });
+      } catch (error) {
+        console.error('SSO sign-in failed:', error);
+        setError(error instanceof OidcError ? error.message : ApiResponseHandler.getUserMessage(error));
+      }
+    };
+
+    completeSignIn();
+  }, [searchParams, login, navigate]);
+
+  if (!error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <Loader2 className="animate-spin h-10 w-10 text-primary mx-auto" />
+          <p className="mt-4 text-muted-foreground">Signing you in...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6 text-center">
+        <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-primary/10">
+          <AlertTriangle className="h-6 w-6 text-destructive" />
+        </div>
+        <h2 className="text-3xl font-extrabold text-foreground">Single sign-on failed</h2>
+        <p className="text-sm text-muted-foreground">{error}</p>
+        <button
+          onClick={() => navigate('/login', { replace: true })}
+          className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-primary-foreground bg-primary hover:bg-primary/90 transition-colors"
+        >
+          Back to sign in
+        </button>
+      </div>
+    </div>
+  );
+}
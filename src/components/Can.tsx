@@ -0,0 +1,17 @@
+// Renders its children only when the current user has a capability
+
+import type { ReactNode } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import type { Permission, PermissionResource } from '../utils/permissions';
+
+interface CanProps {
+  perform: Permission;
+  on?: PermissionResource; // Target resource, for capabilities scoped to the user's own resources
+  fallback?: ReactNode;
+  children: ReactNode;
+}
+
+export function Can({ perform, on, fallback = null, children }: CanProps) {
+  const { can } = useAuth();
+  return <>{can(perform, on) ? children : fallback}</>;
+}
@@ -1,12 +1,15 @@
 import { ChevronRight, X, ArrowLeft, Save, Trash2, Loader2 } from 'lucide-react';
 // Create Event Page component for Admin users to create new events
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { apiService } from '../api';
+import { eventMutations } from '../api';
 import type { CreateEventRequest } from '../contracts/request/EventRequests';
-import { ApiResponseHandler, ApiError, ValidationError } from '../types';
+import { ApiError, ValidationError } from '../types';
+import { useEventTypes } from '../hooks';
 import { dateUtils } from '@/lib/utils';
+import { formatRRule, pruneExceptions, type RecurrenceRule } from '../lib/recurrenceUtils';
+import { RecurrenceEditor } from './RecurrenceEditor';
 
 export function CreateEventPage() {
   const navigate = useNavigate();
@@ -21,11 +24,13 @@ export function CreateEventPage() {
     registrationCutoffDate: ''
   });
   
-  const [eventTypes, setEventTypes] = useState<string[]>([]);
+  // Repeat settings; null for a one-off event
+  const [recurrenceRule, setRecurrenceRule] = useState<RecurrenceRule | null>(null);
+  const [recurrenceExceptions, setRecurrenceExceptions] = useState<string[]>([]);
+
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
-  const [typesLoading, setTypesLoading] = useState(true);
   
   // Image upload state
   const [imageUrl, setImageUrl] = useState<string>('');
@@ -33,23 +38,9 @@ export function CreateEventPage() {
   const [selectedImageFile, setSelectedImageFile] = useState<File | null>(null);
   const [imageUploading, setImageUploading] = useState(false);
 
-  useEffect(() => {
-    loadEventTypes();
-  }, []);
-
-  const loadEventTypes = async () => {
-    try {
-      setTypesLoading(true);
-      const response = await apiService.getEventTypes();
-      const types = ApiResponseHandler.handleResponse(response);
-      setEventTypes(types || []);
-    } catch (error) {
-      console.error('Error loading event types:', error);
-      // Continue without types, allow manual entry
-    } finally {
-      setTypesLoading(false);
-    }
-  };
+  // If types fail to load, continue without them and allow manual entry
+  const { data: eventTypesData, isLoading: typesLoading } = useEventTypes();
+  const eventTypes = eventTypesData || [];
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -86,6 +77,10 @@ export function CreateEventPage() {
       }
     }
     
+    if (recurrenceRule?.until && formData.eventDate && new Date(`${recurrenceRule.until}T23:59:59`) < new Date(formData.eventDate)) {
+      errors.recurrencerule = 'The series must end after its first date';
+    }
+    
     if (!formData.location.trim()) {
       errors.location = 'Location is required';
     }
@@ -134,10 +129,11 @@ export function CreateEventPage() {
         ...formData,
         eventDate: dateUtils.formatDateForApi(new Date(formData.eventDate)),
         registrationCutoffDate: dateUtils.formatDateForApi(new Date(formData.registrationCutoffDate)),
+        recurrenceRule: recurrenceRule ? formatRRule(recurrenceRule) : null,
+        recurrenceExceptions: recurrenceRule ? pruneExceptions(formData.eventDate, recurrenceRule, recurrenceExceptions) : [],
       }
       
-      const response = await apiService.createEvent(resquest);
-      const createdEvent = ApiResponseHandler.handleResponse(response);
+      const createdEvent = await eventMutations.createEvent(resquest);
       
       console.log('Event created successfully:', createdEvent);
       
@@ -210,8 +206,7 @@ export function CreateEventPage() {
     try {
       console.log('Uploading event image file:', selectedImageFile.name);
       
-      const response = await apiService.uploadEventImage(eventId, selectedImageFile);
-      const result = ApiResponseHandler.handleResponse(response);
+      const result = await eventMutations.uploadEventImage(eventId, selectedImageFile);
       
       console.log('Image uploaded successfully:', result);
       
@@ -359,6 +354,20 @@ export function CreateEventPage() {
                 )}
               </div>
 
+              {/* Repeat */}
+              <RecurrenceEditor
+                value={recurrenceRule}
+                onChange={(rule) => {
+                  setRecurrenceRule(rule);
+                  if (fieldErrors.recurrencerule) setFieldErrors(prev => ({ ...prev, recurrencerule: '' }));
+                }}
+                startDate={formData.eventDate}
+                exceptions={recurrenceExceptions}
+                onExceptionsChange={setRecurrenceExceptions}
+                error={fieldErrors.recurrencerule}
+                disabled={loading}
+              />
+
               {/* Location */}
               <div>
                 <label htmlFor="location" className="block text-sm font-medium text-gray-700">
@@ -468,7 +477,7 @@ export function CreateEventPage() {
                   <p className="mt-1 text-sm text-red-600">{fieldErrors.registrationCutoffDate}</p>
                 )}
                 <p className="mt-1 text-xs text-gray-500">
-                  Registration will close at this date and time
+                  Registration will close at this date and time{recurrenceRule ? ' and covers every date of the series' : ''}
                 </p>
               </div>
 
@@ -2,15 +2,35 @@ import { AlertTriangle , ChevronRight, CloudUpload, Trash2 } from 'lucide-react'
 // Edit Event Page component for Admin users to edit existing events
 
 import { useState, useEffect } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
-import { apiService } from '../api';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { apiService, eventMutations } from '../api';
 import { ApiResponseHandler, ApiError, ValidationError } from '../types';
-import type { UpdateEventRequest } from '../contracts/request/EventRequests';
+import { useEventTypes } from '../hooks';
+import type { UpdateEventRequest, UpdateEventOccurrenceRequest } from '../contracts/request/EventRequests';
 import type { Event } from '../models';
 import { dateUtils } from '@/utils/domainUtils';
+import { formatRRule, getEventOccurrence, OCCURRENCE_PARAM, parseRRule, pruneExceptions, type RecurrenceRule } from '../lib/recurrenceUtils';
+import { RecurrenceEditor } from './RecurrenceEditor';
+
+// What a save changes when the event repeats
+type EditScope = 'occurrence' | 'series';
+
+// Form date fields for the event, or for one date of its series; the cutoff keeps its distance to the start
+const getFormDates = (event: Event, occurrenceDate: string | null) => {
+  const eventTime = new Date(event.eventDate).getTime();
+  const startTime = occurrenceDate ? new Date(occurrenceDate).getTime() : eventTime;
+  const cutoffTime = startTime - (eventTime - new Date(event.registrationCutoffDate).getTime());
+
+  return {
+    eventDate: dateUtils.formatDateForInput(new Date(startTime).toISOString()),
+    registrationCutoffDate: dateUtils.formatDateForInput(new Date(cutoffTime).toISOString()),
+  };
+};
 
 export function EditEventPage() {
   const { eventId } = useParams<{ eventId: string }>();
+  const [searchParams] = useSearchParams();
+  const occurrenceParam = searchParams.get(OCCURRENCE_PARAM);
   const navigate = useNavigate();
   
   const [originalEvent, setOriginalEvent] = useState<Event | null>(null);
@@ -24,12 +44,16 @@ export function EditEventPage() {
     registrationCutoffDate: ''
   });
   
-  const [eventTypes, setEventTypes] = useState<string[]>([]);
+  // Repeat settings of the series, and the series date the page was opened on
+  const [recurrenceRule, setRecurrenceRule] = useState<RecurrenceRule | null>(null);
+  const [recurrenceExceptions, setRecurrenceExceptions] = useState<string[]>([]);
+  const [occurrenceDate, setOccurrenceDate] = useState<string | null>(null);
+  const [scope, setScope] = useState<EditScope>('series');
+  
   const [loading, setLoading] = useState(false);
   const [initialLoading, setInitialLoading] = useState(true);
   const [error, setError] = useState('');
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
-  const [typesLoading, setTypesLoading] = useState(true);
   
   // Image upload state
   const [imageUrl, setImageUrl] = useState<string>('');
@@ -37,30 +61,40 @@ export function EditEventPage() {
   const [imageUploadError, setImageUploadError] = useState('');
   const [selectedImageFile, setSelectedImageFile] = useState<File | null>(null);
 
+  // If types fail to load, continue without them and allow manual entry
+  const { data: eventTypesData, isLoading: typesLoading } = useEventTypes();
+  const eventTypes = eventTypesData || [];
+
   useEffect(() => {
     if (eventId) {
-      loadEventData(eventId);
-      loadEventTypes();
+      loadEventData(eventId, occurrenceParam);
     } else {
       setError('Event ID not provided');
       setInitialLoading(false);
     }
-  }, [eventId]);
+  }, [eventId, occurrenceParam]);
 
-  const loadEventData = async (id: string) => {
+  const loadEventData = async (id: string, requestedOccurrence: string | null = null) => {
     try {
       setInitialLoading(true);
       setError('');
       
+      // Always fetched fresh (not from the cache) so the form starts from the saved event
       const response = await apiService.getEvent(id);
       const event = ApiResponseHandler.handleResponse(response);
       
       if (event) {
         setOriginalEvent(event);
         
+        // Opened from one date of a series: edit that date unless the user picks the whole series
+        const occurrence = requestedOccurrence ? getEventOccurrence(event, requestedOccurrence) : null;
+        setOccurrenceDate(occurrence?.occurrenceDate ?? null);
+        setScope(occurrence ? 'occurrence' : 'series');
+        setRecurrenceRule(parseRRule(event.recurrenceRule));
+        setRecurrenceExceptions(event.recurrenceExceptions || []);
+        
         // Convert event data to form format
-        const eventDate = new Date(event.eventDate).toISOString().slice(0, 16);
-        const cutoffDate = new Date(event.registrationCutoffDate).toISOString().slice(0, 16);
+        const { eventDate, registrationCutoffDate } = getFormDates(event, occurrence?.occurrenceDate ?? null);
         
         setFormData({
           title: event.title,
@@ -69,7 +103,7 @@ export function EditEventPage() {
           location: event.location,
           type: event.type,
           capacity: event.capacity,
-          registrationCutoffDate: cutoffDate
+          registrationCutoffDate: registrationCutoffDate
         });
         
         // Set existing image URL
@@ -101,20 +135,6 @@ export function EditEventPage() {
     }
   };
 
-  const loadEventTypes = async () => {
-    try {
-      setTypesLoading(true);
-      const response = await apiService.getEventTypes();
-      const types = ApiResponseHandler.handleResponse(response);
-      setEventTypes(types || []);
-    } catch (error) {
-      console.error('Error loading event types:', error);
-      // Continue without types, allow manual entry
-    } finally {
-      setTypesLoading(false);
-    }
-  };
-
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     
@@ -133,9 +153,22 @@ export function EditEventPage() {
     }
   };
 
+  const handleScopeChange = (nextScope: EditScope) => {
+    setScope(nextScope);
+    if (originalEvent) {
+      setFormData(prev => ({ ...prev, ...getFormDates(originalEvent, nextScope === 'occurrence' ? occurrenceDate : null) }));
+    }
+    setFieldErrors({});
+  };
+
   const validateForm = (): boolean => {
     const errors: Record<string, string> = {};
     
+    // A series that already started keeps its past first date, so unchanged dates are not checked against now
+    const savedDates = originalEvent ? getFormDates(originalEvent, scope === 'occurrence' ? occurrenceDate : null) : null;
+    const eventDateChanged = formData.eventDate !== savedDates?.eventDate;
+    const cutoffChanged = formData.registrationCutoffDate !== savedDates?.registrationCutoffDate;
+    
     if (!formData.title.trim()) {
       errors.title = 'Event title is required';
     }
@@ -145,11 +178,16 @@ export function EditEventPage() {
     } else {
       const eventDate = new Date(formData.eventDate);
       const now = new Date();
-      if (eventDate <= now) {
+      if (eventDateChanged && eventDate <= now) {
         errors.eventDate = 'Event date must be in the future';
       }
     }
     
+    if (scope === 'series' && recurrenceRule?.until && formData.eventDate &&
+        new Date(`${recurrenceRule.until}T23:59:59`) < new Date(formData.eventDate)) {
+      errors.recurrencerule = 'The series must end after its first date';
+    }
+    
     if (!formData.location.trim()) {
       errors.location = 'Location is required';
     }
@@ -162,8 +200,8 @@ export function EditEventPage() {
       errors.capacity = 'Capacity must be at least 1';
     }
     
-    // Check if capacity is being reduced below current registrations
-    if (originalEvent && formData.capacity < originalEvent.noOfRegistrations) {
+    // Check if capacity is being reduced below current registrations (a split-off date starts without any)
+    if (originalEvent && scope === 'series' && formData.capacity < originalEvent.noOfRegistrations) {
       errors.capacity = `Capacity cannot be reduced below current registrations (${originalEvent.noOfRegistrations})`;
     }
     
@@ -174,7 +212,7 @@ export function EditEventPage() {
       const eventDate = new Date(formData.eventDate);
       const now = new Date();
       
-      if (cutoffDate <= now) {
+      if (cutoffChanged && cutoffDate <= now) {
         errors.registrationCutoffDate = 'Registration cutoff must be in the future';
       } else if (cutoffDate >= eventDate) {
         errors.registrationCutoffDate = 'Registration cutoff must be before the event date';
@@ -199,14 +237,29 @@ export function EditEventPage() {
     try {
       console.log('Updating event with data:', formData);
       
-      const request : UpdateEventRequest = {
-        ...formData,
+      const dates = {
         eventDate: dateUtils.formatDateForApi(new Date(formData.eventDate)),
         registrationCutoffDate: dateUtils.formatDateForApi(new Date(formData.registrationCutoffDate)),
+      };
+
+      if (scope === 'occurrence' && occurrenceDate) {
+        // The edited date becomes its own event and the series skips it
+        const request: UpdateEventOccurrenceRequest = { ...formData, ...dates, occurrenceDate };
+        const splitEvent = await eventMutations.updateEventOccurrence(eventId, request);
+        
+        console.log('Event date updated successfully:', splitEvent);
+        navigate(`/admin/event-dashboard/${splitEvent.id}`);
+        return;
       }
 
-      const response = await apiService.updateEvent(eventId, request);
-      const updatedEvent = ApiResponseHandler.handleResponse(response);
+      const request : UpdateEventRequest = {
+        ...formData,
+        ...dates,
+        recurrenceRule: recurrenceRule ? formatRRule(recurrenceRule) : null,
+        recurrenceExceptions: recurrenceRule ? pruneExceptions(formData.eventDate, recurrenceRule, recurrenceExceptions) : [],
+      }
+
+      const updatedEvent = await eventMutations.updateEvent(eventId, request);
       
       console.log('Event updated successfully:', updatedEvent);
       
@@ -279,9 +332,7 @@ export function EditEventPage() {
     try {
       console.log('Uploading event image file:', selectedImageFile.name);
       
-      const response = await apiService.uploadEventImage(eventId, selectedImageFile);
-
-      const result = ApiResponseHandler.handleResponse(response);
+      const result = await eventMutations.uploadEventImage(eventId, selectedImageFile);
       
       console.log('Image uploaded successfully:', result);
       
@@ -335,9 +386,13 @@ export function EditEventPage() {
     if (fileInput) fileInput.value = '';
   };
 
-  // Generate date input min values
+  const isSeries = !!originalEvent?.recurrenceRule;
+  const isSplitDate = !!originalEvent?.seriesId; // One date edited apart from its series
+
+  // Generate date input min values; saved dates of a series that already started stay valid
   const now = new Date();
-  const minDateTime = now.toISOString().slice(0, 16);
+  const minDateTime = dateUtils.formatDateForInput(now.toISOString());
+  const savedDates = originalEvent ? getFormDates(originalEvent, scope === 'occurrence' ? occurrenceDate : null) : null;
 
   if (initialLoading) {
     return (
@@ -363,7 +418,7 @@ export function EditEventPage() {
               <p className="mt-2 text-sm text-destructive">{error}</p>
               <div className="mt-4 flex space-x-3">
                 <button
-                  onClick={() => eventId && loadEventData(eventId)}
+                  onClick={() => eventId && loadEventData(eventId, occurrenceParam)}
                   className="text-sm text-destructive hover:text-destructive/80 font-medium"
                 >
                   Try again
@@ -455,6 +510,46 @@ export function EditEventPage() {
             )}
 
             <form onSubmit={handleSubmit} className="space-y-6">
+              {/* Edit scope for repeating events */}
+              {isSeries && occurrenceDate && (
+                <fieldset>
+                  <legend className="block text-sm font-medium text-gray-700">Apply changes to</legend>
+                  <div className="mt-2 space-y-2 text-sm text-gray-700">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        name="scope"
+                        checked={scope === 'occurrence'}
+                        onChange={() => handleScopeChange('occurrence')}
+                        disabled={loading}
+                      />
+                      This date only ({dateUtils.formatEventDate(occurrenceDate)})
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        name="scope"
+                        checked={scope === 'series'}
+                        onChange={() => handleScopeChange('series')}
+                        disabled={loading}
+                      />
+                      All dates in the series
+                    </label>
+                  </div>
+                  {scope === 'occurrence' && (
+                    <p className="mt-2 text-xs text-gray-500">
+                      This date will be saved as its own event. Registrations stay with the series.
+                    </p>
+                  )}
+                </fieldset>
+              )}
+
+              {isSplitDate && (
+                <p className="text-sm text-gray-500">
+                  This event replaces one date of a repeating series. Changes here do not affect the other dates.
+                </p>
+              )}
+
               {/* Event Title */}
               <div>
                 <label htmlFor="title" className="block text-sm font-medium text-gray-700">
@@ -508,7 +603,7 @@ export function EditEventPage() {
                   name="eventDate"
                   value={formData.eventDate}
                   onChange={handleInputChange}
-                  min={minDateTime}
+                  min={formData.eventDate === savedDates?.eventDate ? undefined : minDateTime}
                   className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 ${
                     fieldErrors.eventDate ? 'border-red-300' : ''
                   }`}
@@ -518,6 +613,22 @@ export function EditEventPage() {
                 )}
               </div>
 
+              {/* Repeat (whole series only) */}
+              {scope === 'series' && !isSplitDate && (
+                <RecurrenceEditor
+                  value={recurrenceRule}
+                  onChange={(rule) => {
+                    setRecurrenceRule(rule);
+                    if (fieldErrors.recurrencerule) setFieldErrors(prev => ({ ...prev, recurrencerule: '' }));
+                  }}
+                  startDate={formData.eventDate}
+                  exceptions={recurrenceExceptions}
+                  onExceptionsChange={setRecurrenceExceptions}
+                  error={fieldErrors.recurrencerule}
+                  disabled={loading}
+                />
+              )}
+
               {/* Location */}
               <div>
                 <label htmlFor="location" className="block text-sm font-medium text-gray-700">
@@ -593,7 +704,7 @@ export function EditEventPage() {
                   type="number"
                   id="capacity"
                   name="capacity"
-                  min={originalEvent?.noOfRegistrations || 1}
+                  min={scope === 'series' ? originalEvent?.noOfRegistrations || 1 : 1}
                   value={formData.capacity}
                   onChange={handleInputChange}
                   className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 ${
@@ -604,7 +715,7 @@ export function EditEventPage() {
                 {fieldErrors.capacity && (
                   <p className="mt-1 text-sm text-red-600">{fieldErrors.capacity}</p>
                 )}
-                {originalEvent && (
+                {originalEvent && scope === 'series' && (
                   <p className="mt-1 text-xs text-gray-500">
                     Minimum capacity: {originalEvent.noOfRegistrations} (current registrations)
                   </p>
@@ -622,7 +733,7 @@ export function EditEventPage() {
                   name="registrationCutoffDate"
                   value={formData.registrationCutoffDate}
                   onChange={handleInputChange}
-                  min={minDateTime}
+                  min={formData.registrationCutoffDate === savedDates?.registrationCutoffDate ? undefined : minDateTime}
                   max={formData.eventDate}
                   className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 ${
                     fieldErrors.registrationCutoffDate ? 'border-red-300' : ''
@@ -636,7 +747,8 @@ export function EditEventPage() {
                 </p>
               </div>
 
-              {/* Event Image Upload */}
+              {/* Event Image Upload (a split-off date keeps the series image) */}
+              {scope === 'series' && (
               <div className="border-t border-gray-200 pt-6">
                 <div className="flex items-center justify-between mb-4">
                   <h3 className="text-lg font-medium text-gray-900">Event Image</h3>
@@ -749,6 +861,7 @@ export function EditEventPage() {
                   </div>
                 </div>
               </div>
+              )}
 
               {/* Form Actions */}
               <div className="flex justify-end space-x-3 pt-6 border-t border-gray-200">
@@ -770,6 +883,8 @@ export function EditEventPage() {
                       <div className="animate-spin h-4 w-4 border-2 border-white border-t-transparent rounded-full mr-2"></div>
                       Updating...
                     </>
+                  ) : scope === 'occurrence' ? (
+                    'Update This Date'
                   ) : (
                     'Update Event'
                   )}
@@ -16,7 +16,7 @@ import {
   ChevronRight,
   AlertCircle
 } from 'lucide-react'
-import { apiService } from '../api'
+import { apiService, eventMutations } from '../api'
 import { ApiResponseHandler, ApiError } from '../types'
 import type { Event, EventRegistration } from '../models'
 import { dateUtils, eventUtils } from '../lib/utils'
@@ -111,8 +111,8 @@ export function EventDashboard() {
     try {
       console.log('Deleting event:', event.id);
       
-      const response = await apiService.deleteEvent(event.id);
-      ApiResponseHandler.handleResponse(response);
+      // Also drops the event from the cache and refreshes the event lists
+      await eventMutations.deleteEvent(event.id);
       
       console.log('Event deleted successfully');
       
@@ -1,21 +1,19 @@
-import { AlertTriangle } from 'lucide-react';
-import { useState, useEffect, useCallback } from 'react';
-import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
-import { apiService } from '../api';
-import { ApiResponseHandler, ApiError } from '../types';
-import type { Event, AppUser } from '../models';
+import { AlertTriangle, BarChart3, Pencil, Repeat } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate, useSearchParams, useLocation } from 'react-router-dom';
+import { eventMutations } from '../api';
+import { ApiError } from '../types';
+import { useEvent, useAuth } from '../hooks';
 import { eventUtils, dateUtils } from '../lib/utils';
+import { Can } from './Can';
+import { describeRecurrence, getEventOccurrence, OCCURRENCE_PARAM, parseRRule, withOccurrence } from '../lib/recurrenceUtils';
+import { buildLoginUrl, getLocationPath, withResumeAction, RESUME_ACTION_PARAM } from '../utils/redirectUtils';
 
-interface EventDetailPageProps {
-  currentUser: AppUser | null;
-}
-
-export function EventDetailPage({ currentUser }: EventDetailPageProps) {
+export function EventDetailPage() {
+  const { user: currentUser } = useAuth();
   const { eventId } = useParams<{ eventId: string }>();
-  const [searchParams] = useSearchParams();
-  const [event, setEvent] = useState<Event | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState('');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const location = useLocation();
   const [registering, setRegistering] = useState(false);
   const [showRegistrationForm, setShowRegistrationForm] = useState(false);
   const [registrationData, setRegistrationData] = useState({
@@ -24,7 +22,6 @@ export function EventDetailPage({ currentUser }: EventDetailPageProps) {
     phone: ''
   });
   const navigate = useNavigate();
-  const [userIsRegistered, setUserIsRegistered] = useState(false);
 
   // Get the source parameter to determine where to navigate back to
   const source = searchParams.get('source');
@@ -37,58 +34,20 @@ export function EventDetailPage({ currentUser }: EventDetailPageProps) {
     }
   };
 
-  const loadEvent = useCallback(async (id: string) => {
-    try {
-      setLoading(true);
-      setError('');
-      console.log('Loading event:', id);
-      
-      // For now, we'll use getAllEvents and filter by ID
-      // TODO: Create a getEventById API method when available
-    //   const response = await apiService.getAllEvents();
-    //   const eventsData = ApiResponseHandler.handleResponse(response);
-    //   const foundEvent = eventsData?.find((e: Event) => e.id === id);
-
-      const response = await apiService.getEvent(id);
-
-      const foundEvent = ApiResponseHandler.handleResponse(response);
+  // Served from the cache when opened from the list or calendar, revalidated in the background
+  const { data: event, error: loadError, isLoading: loading, refetch: reloadEvent } = useEvent(eventId);
 
-        console.log('Found event:', foundEvent);
+  // A failed background revalidation keeps showing the cached event
+  const error = !eventId
+    ? 'Event ID not provided'
+    : loadError && !event
+      ? loadError instanceof ApiError
+        ? loadError.message
+        : 'Failed to load event. Please try again.'
+      : '';
 
-      if (foundEvent) {
-        setEvent(foundEvent);
-
-        if (currentUser) {
-            // Check if current user is registered for this event
-            const isRegistered = foundEvent.registeredIds?.includes(currentUser.userId) || false;
-            console.log('Did not find ', currentUser.userId, ' in ', foundEvent.registeredIds);
-            console.log('User registration status:', isRegistered);
-            setUserIsRegistered(isRegistered);
-        }
-
-      } else {
-        setError('Event not found');
-      }
-    } catch (error) {
-      console.error('Error loading event:', error);
-      if (error instanceof ApiError) {
-        setError(error.message);
-      } else {
-        setError('Failed to load event. Please try again.');
-      }
-    } finally {
-      setLoading(false);
-    }
-  }, [currentUser]);
-
-  useEffect(() => {
-    if (eventId) {
-      loadEvent(eventId);
-    } else {
-      setError('Event ID not provided');
-      setLoading(false);
-    }
-  }, [eventId, loadEvent]);
+  // Check if current user is registered for this event
+  const userIsRegistered = !!currentUser && (event?.registeredIds?.includes(currentUser.userId) || false);
 
   // Prefill registration form with user data when currentUser changes
   useEffect(() => {
@@ -101,6 +60,27 @@ export function EventDetailPage({ currentUser }: EventDetailPageProps) {
     }
   }, [currentUser]);
 
+  // Resume the registration a guest started before being sent to login
+  const resumeAction = searchParams.get(RESUME_ACTION_PARAM);
+  useEffect(() => {
+    if (resumeAction !== 'register' || !currentUser || !event) return;
+
+    if (!userIsRegistered && eventUtils.getUIEventStatus(event).canRegister) {
+      setShowRegistrationForm(true);
+    }
+
+    // Only resume once; back/refresh should not reopen the form
+    setSearchParams(params => {
+      params.delete(RESUME_ACTION_PARAM);
+      return params;
+    }, { replace: true });
+  }, [resumeAction, currentUser, event, userIsRegistered, setSearchParams]);
+
+  // Send guests to login, coming back here with the registration form open
+  const redirectToLogin = () => {
+    navigate(buildLoginUrl(withResumeAction(getLocationPath(location), 'register')));
+  };
+
   const formatRegistrationCutoff = (dateString: string) => {
     const cutoffDate = dateUtils.safeParseDate(dateString);
     const isExpired = cutoffDate ? dateUtils.isPastDate(dateString) : false;
@@ -121,8 +101,7 @@ export function EventDetailPage({ currentUser }: EventDetailPageProps) {
 
   const handleRegisterClick = () => {
     if (!currentUser) {
-      alert('Please log in to register for events');
-      navigate('/login');
+      redirectToLogin();
       return;
     }
     setShowRegistrationForm(true);
@@ -144,20 +123,16 @@ export function EventDetailPage({ currentUser }: EventDetailPageProps) {
     try {
       console.log('Registering for event:', event.id);
       
-      const response = await apiService.registerForEvent({
+      // The mutation invalidates this event, so the registration count refreshes on its own
+      const registration = await eventMutations.registerForEvent({
         appUserId: currentUser.userId,
         eventId: event.id,
         name: registrationData.name.trim(),
         email: registrationData.email.trim(),
         phoneNumber: registrationData.phone.trim()
       });
-      
-      const registration = ApiResponseHandler.handleResponse(response);
       console.log('Registration successful:', registration);
       
-      // Reload event to get updated registration count
-      await loadEvent(event.id);
-      
       // Close form and show success
       setShowRegistrationForm(false);
       alert(`Successfully registered for "${event.title}"! You should receive a confirmation email shortly.`);
@@ -226,7 +201,7 @@ export function EventDetailPage({ currentUser }: EventDetailPageProps) {
             </button>
             {eventId && (
               <button
-                onClick={() => loadEvent(eventId)}
+                onClick={() => reloadEvent()}
                 className="bg-gray-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-700 transition-colors"
               >
                 Try Again
@@ -259,6 +234,12 @@ export function EventDetailPage({ currentUser }: EventDetailPageProps) {
   const capacityLeft = eventUtils.getRemainingCapacity(event);
   const cutoffInfo = formatRegistrationCutoff(event.registrationCutoffDate);
 
+  // Opened from one date of a repeating event; registration still belongs to the whole series
+  const recurrence = parseRRule(event.recurrenceRule);
+  const occurrenceParam = searchParams.get(OCCURRENCE_PARAM);
+  const occurrence = occurrenceParam ? getEventOccurrence(event, occurrenceParam) : null;
+  const displayDate = occurrence?.eventDate ?? event.eventDate;
+
   return (
     <div className="min-h-screen bg-background">
       {/* Hero Section with Image */}
@@ -302,7 +283,7 @@ export function EventDetailPage({ currentUser }: EventDetailPageProps) {
                     <svg className="h-5 w-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
                     </svg>
-                    {dateUtils.formatEventDate(event.eventDate)}
+                    {dateUtils.formatEventDate(displayDate)}
                   </span>
                   <span className="flex items-center">
                     <svg className="h-5 w-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -351,8 +332,31 @@ export function EventDetailPage({ currentUser }: EventDetailPageProps) {
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-500 mb-1">Date & Time</label>
-                    <p className="text-gray-900">{dateUtils.formatEventDate(event.eventDate)}</p>
+                    <p className="text-gray-900">{dateUtils.formatEventDate(displayDate)}</p>
                   </div>
+                  {recurrence && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-500 mb-1">Repeats</label>
+                      <p className="text-gray-900 flex items-center">
+                        <Repeat className="h-4 w-4 mr-2 text-gray-500" />
+                        {describeRecurrence(recurrence, new Date(event.eventDate))}
+                      </p>
+                      {occurrence && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          First date: {dateUtils.formatEventDate(event.eventDate)}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  {event.seriesId && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-500 mb-1">Repeats</label>
+                      <p className="text-gray-900 flex items-center">
+                        <Repeat className="h-4 w-4 mr-2 text-gray-500" />
+                        Part of a series
+                      </p>
+                    </div>
+                  )}
                   <div>
                     <label className="block text-sm font-medium text-gray-500 mb-1">Location</label>
                     <p className="text-gray-900">{event.location}</p>
@@ -379,6 +383,11 @@ export function EventDetailPage({ currentUser }: EventDetailPageProps) {
                       {cutoffInfo.formatted}
                       {cutoffInfo.isExpired && ' (Expired)'}
                     </p>
+                    {recurrence && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Registration covers every date of the series.
+                      </p>
+                    )}
                   </div>
                 </div>
               </div>
@@ -387,6 +396,31 @@ export function EventDetailPage({ currentUser }: EventDetailPageProps) {
 
           {/* Sidebar */}
           <div className="space-y-6">
+            {/* Owner Actions */}
+            <Can perform="event:edit" on={{ ownerId: event.adminId }}>
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Manage Event</h3>
+                <div className="space-y-3">
+                  <button
+                    onClick={() => navigate(withOccurrence(`/admin/edit-event/${event.id}`, occurrence?.occurrenceDate))}
+                    className="w-full flex items-center justify-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Edit Event
+                  </button>
+                  <Can perform="event:dashboard" on={{ ownerId: event.adminId }}>
+                    <button
+                      onClick={() => navigate(`/admin/event-dashboard/${event.id}`)}
+                      className="w-full flex items-center justify-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                      <BarChart3 className="h-4 w-4 mr-2" />
+                      View Dashboard
+                    </button>
+                  </Can>
+                </div>
+              </div>
+            </Can>
+
             {/* Registration Card */}
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Registration</h3>
@@ -427,9 +461,9 @@ export function EventDetailPage({ currentUser }: EventDetailPageProps) {
               {!showRegistrationForm ? (
                 <button
                   onClick={handleRegisterClick}
-                  disabled={!registrationStatus.canRegister || !currentUser || userIsRegistered}
+                  disabled={!registrationStatus.canRegister || userIsRegistered}
                   className={`w-full py-3 px-4 rounded-md font-medium transition-colors ${
-                    registrationStatus.canRegister && currentUser
+                    registrationStatus.canRegister
                       ? 'bg-blue-600 hover:bg-blue-700 text-white'
                       : 'bg-gray-400 text-white cursor-not-allowed'
                   }`}
@@ -520,7 +554,7 @@ export function EventDetailPage({ currentUser }: EventDetailPageProps) {
               
               {!currentUser && (
                 <p className="text-xs text-gray-500 mt-2 text-center">
-                  Please <button onClick={() => navigate('/login')} className="text-blue-600 hover:text-blue-800 underline">log in</button> to register for this event
+                  Please <button onClick={redirectToLogin} className="text-blue-600 hover:text-blue-800 underline">log in</button> to register for this event
                 </p>
               )}
             </div>
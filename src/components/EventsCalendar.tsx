@@ -1,86 +1,50 @@
-import { AlertTriangle } from 'lucide-react';
-import { useState, useEffect, useCallback } from 'react';
+import { AlertTriangle, Repeat } from 'lucide-react';
+import { useState, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import FullCalendar from '@fullcalendar/react';
 import dayGridPlugin from '@fullcalendar/daygrid';
 import timeGridPlugin from '@fullcalendar/timegrid';
 import listPlugin from '@fullcalendar/list';
 import interactionPlugin from '@fullcalendar/interaction';
-import { apiService } from '../api';
-import { ApiResponseHandler, ApiError } from '../types';
-import type { Event } from '../models';
+import { ApiError } from '../types';
+import type { GetEventsExtendedRequest } from '../contracts/request/GetEventsExtendedRequest';
+import { useEventsPage, useEventTypes } from '../hooks';
 import { eventUtils } from '../lib/utils';
+import { expandEventOccurrences, getOccurrenceKey, withOccurrence, type EventOccurrence } from '../lib/recurrenceUtils';
 
 export function EventsCalendar() {
-  const [events, setEvents] = useState<Event[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedType, setSelectedType] = useState('');
-  const [eventTypes, setEventTypes] = useState<string[]>([]);
   const [currentDate, setCurrentDate] = useState(new Date());
   const [currentView, setCurrentView] = useState<'calendar' | 'dayView'>('calendar');
   const [selectedDayDate, setSelectedDayDate] = useState<Date | null>(null);
 //   const [isCalendarInitialized, setIsCalendarInitialized] = useState(false);
   const navigate = useNavigate();
 
-  // Load event types on component mount
-  useEffect(() => {
-    let isMounted = true;
-    
-    const loadEventTypes = async () => {
-      try {
-        const eventTypesResponse = await apiService.getEventTypes();
-        const eventTypesData = ApiResponseHandler.handleResponse(eventTypesResponse);
-        if (isMounted) {
-          setEventTypes(eventTypesData || []);
-        }
-      } catch (error) {
-        console.error('Error loading event types:', error);
-      }
-    };
+  // Event types are shared with the list page through the query cache
+  const { data: eventTypesData } = useEventTypes();
+  const eventTypes = eventTypesData || [];
 
-    loadEventTypes();
-    
-    return () => {
-      isMounted = false;
-    };
-  }, []);
-
-  // Load events when filters or current date changes
-  const loadEvents = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError('');
-      
-      // Get the first and last day of the current month for date filtering
-      // Use UTC to avoid timezone issues
-      const year = currentDate.getFullYear();
-      const month = currentDate.getMonth();
-      
-    //   const startOfMonth = new Date(Date.UTC(year, month, 1, 0, 0, 0, 0));
-    //   const endOfMonth = new Date(Date.UTC(year, month + 1, 0, 23, 59, 59, 999));
-
-      // Calculate one month before the current month
+  // Request for the visible month plus one month either side
+  const eventsRequest = useMemo<GetEventsExtendedRequest>(() => {
+    // Use UTC to avoid timezone issues
+    const year = currentDate.getFullYear();
+    const month = currentDate.getMonth();
+
+    // Calculate one month before the current month
     const startOfPreviousMonth = new Date(Date.UTC(year, month - 1, 1, 0, 0, 0, 0));
-    
+
     // Calculate the last day of the month after the current month
     const endOfNextMonth = new Date(Date.UTC(year, month + 2, 0, 23, 59, 59, 999));
-      
-    //   console.log('Loading events for month:', {
-    //     year,
-    //     month: month + 1,
-    //     startOfMonth: startOfMonth.toISOString(),
-    //     endOfMonth: endOfMonth.toISOString()
-    //   });
+
     console.log('Loading events for extended range:', {
       currentMonth: `${year}-${month + 1}`,
       startOfPreviousMonth: startOfPreviousMonth.toISOString(),
       endOfNextMonth: endOfNextMonth.toISOString(),
       rangeDescription: `${startOfPreviousMonth.getFullYear()}-${startOfPreviousMonth.getMonth() + 1} to ${endOfNextMonth.getFullYear()}-${endOfNextMonth.getMonth() + 1}`
     });
-      
-      const request = {
+
+    return {
       itemsPerPage: 100, // Increased to accommodate 3 months of events
       pageNumber: 1,
       ...(searchTerm.trim().length >= 2 && { searchTerm: searchTerm.trim() }),
@@ -88,52 +52,26 @@ export function EventsCalendar() {
       startDate: startOfPreviousMonth.toISOString(),
       endDate: endOfNextMonth.toISOString(),
     };
-      
-      console.log('API request:', request);
-      
-      const response = await apiService.getEventsExtended(request);
-      
-      if (response.isSuccess && response.value) {
-        console.log('Calendar events loaded:', response.value);
-        setEvents(response.value.items);
-      } else {
-        setError('Failed to load events: ' + response.message);
-        setEvents([]);
-      }
-    } catch (error) {
-      console.error('Error loading calendar events:', error);
-      if (error instanceof ApiError) {
-        setError(error.message);
-      } else {
-        setError('Failed to load events. Please try again.');
-      }
-      setEvents([]);
-    } finally {
-      setLoading(false);
-    }
   }, [searchTerm, selectedType, currentDate]);
 
-  // Load events when dependencies change - use a separate effect to avoid loops
-  useEffect(() => {
-    let isMounted = true;
-    
-    const executeLoadEvents = async () => {
-      if (isMounted) {
-        await loadEvents();
-      }
-    };
-
-    const timeoutId = setTimeout(executeLoadEvents, 300); // Debounce API calls by 300ms
+  // Months already visited are served from the cache when navigating back
+  const { data: eventsPage, error: loadError, isLoading: loading, refetch: reloadEvents } = useEventsPage(eventsRequest);
+  // Repeating events appear once per date in the requested range
+  const events: EventOccurrence[] = useMemo(
+    () => expandEventOccurrences(eventsPage?.items ?? [], new Date(eventsRequest.startDate!), new Date(eventsRequest.endDate!))
+      .sort((a, b) => new Date(a.eventDate).getTime() - new Date(b.eventDate).getTime()),
+    [eventsPage, eventsRequest]
+  );
 
-    return () => {
-      isMounted = false;
-      clearTimeout(timeoutId);
-    };
-  }, [loadEvents]);
+  const error = !loadError
+    ? ''
+    : loadError instanceof ApiError
+      ? loadError.message
+      : 'Failed to load events. Please try again.';
 
   // Transform events for FullCalendar format
   const calendarEvents = events.map(event => ({
-    id: event.id,
+    id: getOccurrenceKey(event),
     title: event.title,
     start: event.eventDate, // Use full datetime for proper week view positioning
     backgroundColor: eventUtils.canRegister(event) ? '#10b981' : '#ef4444', // Green if available, red if not
@@ -146,13 +84,20 @@ export function EventsCalendar() {
       capacity: event.capacity,
       registrations: event.noOfRegistrations,
       isOpenForRegistration: event.isOpenForRegistration,
+      eventId: event.id,
+      occurrenceDate: event.occurrenceDate,
     }
   }));
 
+  // Open an event on the clicked date
+  const openEvent = (event: Pick<EventOccurrence, 'id' | 'occurrenceDate'>) => {
+    navigate(withOccurrence(`/event/${event.id}?source=calendar`, event.occurrenceDate));
+  };
+
   // Handle event click
-  const handleEventClick = (clickInfo: { event: { id: string } }) => {
-    const eventId = clickInfo.event.id;
-    navigate(`/event/${eventId}?source=calendar`);
+  const handleEventClick = (clickInfo: { event: { extendedProps: Record<string, unknown> } }) => {
+    const { eventId, occurrenceDate } = clickInfo.event.extendedProps as { eventId: string; occurrenceDate: string | null };
+    openEvent({ id: eventId, occurrenceDate });
   };
 
   // Handle date click for day view
@@ -256,7 +201,7 @@ export function EventsCalendar() {
               ) : (
                 <div className="space-y-4">
                   {events
-                    .filter((event: Event) => {
+                    .filter((event: EventOccurrence) => {
                       // Filter by search term
                       const matchesSearch = !searchTerm || 
                         event.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -274,15 +219,18 @@ export function EventsCalendar() {
                       
                       return matchesSearch && matchesType && matchesDate;
                     })
-                    .map((event: Event) => (
+                    .map((event: EventOccurrence) => (
                       <div 
-                        key={event.id}
+                        key={getOccurrenceKey(event)}
                         className="border border-border rounded-lg p-4 hover:shadow-md transition-shadow cursor-pointer"
-                        onClick={() => handleEventClick({ event: { id: event.id } })}
+                        onClick={() => openEvent(event)}
                       >
                         <div className="flex justify-between items-start">
                           <div className="flex-1">
-                            <h3 className="font-medium text-foreground mb-1">{event.title}</h3>
+                            <h3 className="font-medium text-foreground mb-1 flex items-center">
+                              {event.title}
+                              {event.occurrenceDate && <Repeat className="h-3.5 w-3.5 ml-2 text-muted-foreground" aria-label="Repeating event" />}
+                            </h3>
                             <p className="text-sm text-muted-foreground mb-2">{event.description}</p>
                             <div className="text-sm text-muted-foreground">
                               <p>
@@ -306,7 +254,7 @@ export function EventsCalendar() {
                       </div>
                     ))}
                   
-                  {events.filter((event: Event) => {
+                  {events.filter((event: EventOccurrence) => {
                     const matchesSearch = !searchTerm || 
                       event.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
                       event.description.toLowerCase().includes(searchTerm.toLowerCase());
@@ -423,7 +371,7 @@ export function EventsCalendar() {
                   <div className="ml-3">
                     <p className="text-sm text-destructive">{error}</p>
                     <button
-                      onClick={loadEvents}
+                      onClick={() => reloadEvents()}
                       className="mt-2 text-sm text-destructive hover:text-destructive/80 font-medium"
                     >
                       Try again
@@ -479,7 +427,7 @@ export function EventsCalendar() {
                 eventDidMount={(info) => {
                   // Add tooltip with event details
                   const event = info.event;
-                  info.el.title = `${event.title}\n${event.extendedProps.location}\n${event.extendedProps.type}\n${event.extendedProps.registrations}/${event.extendedProps.capacity} registered`;
+                  info.el.title = `${event.title}\n${event.extendedProps.location}\n${event.extendedProps.type}\n${event.extendedProps.registrations}/${event.extendedProps.capacity} registered${event.extendedProps.occurrenceDate ? '\nRepeating event' : ''}`;
                 }}
               />
             </div>
@@ -539,8 +487,8 @@ export function EventsCalendar() {
                       
                       return (
                         <div
-                          key={event.id}
-                          onClick={() => handleEventClick({ event: { id: event.id } })}
+                          key={getOccurrenceKey(event)}
+                          onClick={() => openEvent(event)}
                           className="p-4 hover:bg-accent cursor-pointer transition-colors"
                         >
                           {/* Event Image */}
@@ -562,7 +510,10 @@ export function EventsCalendar() {
 
                           {/* Event Details */}
                           <div>
-                            <h4 className="font-medium text-foreground text-sm mb-1 line-clamp-2">{event.title}</h4>
+                            <h4 className="font-medium text-foreground text-sm mb-1 line-clamp-2">
+                              {event.occurrenceDate && <Repeat className="inline h-3 w-3 mr-1 text-muted-foreground" aria-label="Repeating event" />}
+                              {event.title}
+                            </h4>
                             <p className="text-xs text-muted-foreground mb-2">
                               {new Date(event.eventDate).toLocaleDateString('en-US', {
                                 month: 'short',
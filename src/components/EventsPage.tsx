@@ -1,17 +1,17 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Search, X, Calendar, MapPin, Tag, ChevronLeft, ChevronRight, User } from 'lucide-react';
-import { apiService } from '../api';
-import { ApiResponseHandler, ApiError } from '../types';
-import type { Event } from '../models';
-import type { PaginatedResult } from '../contracts/response/GetEventsExtendedResponse';
+import { Search, X, Calendar, MapPin, Tag, ChevronLeft, ChevronRight, User, Repeat } from 'lucide-react';
+import { ApiError } from '../types';
+import type { GetEventsExtendedRequest } from '../contracts/request/GetEventsExtendedRequest';
+import { useEventsPage, useEventTypes } from '../hooks';
 import { eventUtils, dateUtils } from '../lib/utils';
+import { describeRecurrence, expandEventOccurrences, getOccurrenceKey, parseRRule, withOccurrence, type EventOccurrence } from '../lib/recurrenceUtils';
+
+// Without a date filter, repeating events show their dates in the coming weeks
+const UPCOMING_DAYS = 28;
+const MAX_DATES_PER_SERIES = 4; // Keeps one weekly series from filling the page
 
 export function EventsPage() {
-  const [paginatedResult, setPaginatedResult] = useState<PaginatedResult<Event> | null>(null);
-  const [eventTypes, setEventTypes] = useState<string[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedType, setSelectedType] = useState('');
   const [selectedStatus, setSelectedStatus] = useState('');
@@ -21,63 +21,35 @@ export function EventsPage() {
   const [endDate, setEndDate] = useState('');
   const navigate = useNavigate();
 
-  const loadEventTypes = async () => {
-    try {
-      const eventTypesResponse = await apiService.getEventTypes();
-      const eventTypesData = ApiResponseHandler.handleResponse(eventTypesResponse);
-      setEventTypes(eventTypesData || []);
-    } catch (error) {
-      console.error('Error loading event types:', error);
-      // Don't show error for event types failure, just log it
-    }
-  };
+  // Event types failing to load is not shown to the user, the filter just stays empty
+  const { data: eventTypesData } = useEventTypes();
+  const eventTypes = eventTypesData || [];
+
+  const eventsRequest = useMemo<GetEventsExtendedRequest>(() => ({
+    itemsPerPage,
+    pageNumber: currentPage,
+    ...(searchTerm.trim().length >= 2 && { searchTerm: searchTerm.trim() }),
+    ...(selectedType && { eventType: selectedType }),
+    ...(startDate && { startDate: new Date(startDate).toISOString() }),
+    ...(endDate && { endDate: new Date(endDate).toISOString() }),
+  }), [itemsPerPage, currentPage, searchTerm, selectedType, startDate, endDate]);
+
+  // Cached per request; a search superseded by new filters is cancelled by the cache
+  const {
+    data: paginatedResult,
+    error: loadError,
+    isLoading: loading,
+    refetch: reloadEvents,
+  } = useEventsPage(eventsRequest);
+
+  const error = !loadError
+    ? ''
+    : loadError instanceof ApiError
+      ? loadError.message
+      : 'Failed to load events. Please try again.';
 
-  const loadEvents = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError('');
-      
-      const request = {
-        itemsPerPage,
-        pageNumber: currentPage,
-        ...(searchTerm.trim().length >= 2 && { searchTerm: searchTerm.trim() }),
-        ...(selectedType && { eventType: selectedType }),
-        ...(startDate && { startDate: new Date(startDate).toISOString() }),
-        ...(endDate && { endDate: new Date(endDate).toISOString() }),
-      };
-      
-      const response = await apiService.getEventsExtended(request);
-      
-      if (response.isSuccess && response.value) {
-        console.log('Events loaded:', response.value);
-        setPaginatedResult(response.value);
-      } else {
-        setError(response.message || 'Failed to load events');
-        setPaginatedResult(null);
-      }
-    } catch (error) {
-      console.error('Error loading events:', error);
-      if (error instanceof ApiError) {
-        setError(error.message);
-      } else {
-        setError('Failed to load events. Please try again.');
-      }
-      setPaginatedResult(null);
-    } finally {
-      setLoading(false);
-    }
-  }, [itemsPerPage, currentPage, searchTerm, selectedType, startDate, endDate]);
-
-  useEffect(() => {
-    loadEventTypes();
-  }, []);
-
-  useEffect(() => {
-    loadEvents();
-  }, [loadEvents]);
-
-  const handleEventClick = (eventId: string) => {
-    navigate(`/event/${eventId}?source=events`);
+  const handleEventClick = (event: EventOccurrence) => {
+    navigate(withOccurrence(`/event/${event.id}?source=events`, event.occurrenceDate));
   };
 
   const clearFilters = () => {
@@ -112,6 +84,14 @@ export function EventsPage() {
   const events = paginatedResult?.items || [];
   const totalCount = paginatedResult?.totalCount || 0;
 
+  // One card per date of a repeating event; a series without dates in the range keeps a single card
+  const rangeStart = startDate ? new Date(startDate) : new Date();
+  const rangeEnd = endDate ? new Date(endDate) : new Date(rangeStart.getTime() + UPCOMING_DAYS * 24 * 60 * 60 * 1000);
+  const eventCards: EventOccurrence[] = events.flatMap(event => {
+    const occurrences = expandEventOccurrences([event], rangeStart, rangeEnd, MAX_DATES_PER_SERIES);
+    return occurrences.length > 0 ? occurrences : [{ ...event, occurrenceDate: null }];
+  });
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -274,7 +254,7 @@ export function EventsPage() {
               <div className="ml-3">
                 <p className="text-sm text-red-800">{error}</p>
                 <button
-                  onClick={loadEvents}
+                  onClick={() => reloadEvents()}
                   className="mt-2 text-sm text-red-600 hover:text-red-500 font-medium"
                 >
                   Try again
@@ -306,7 +286,8 @@ export function EventsPage() {
         ) : (
           <>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {events.map((event) => {
+              {eventCards.map((event) => {
+                const recurrence = parseRRule(event.recurrenceRule);
                 const capacityPercentage = eventUtils.getCapacityPercentage(event);
                 const capacityColor = eventUtils.getCapacityColorStyle(event);
                 const registrationStatus = eventUtils.getUIEventStatus(event);
@@ -314,8 +295,8 @@ export function EventsPage() {
 
               return (
                 <div
-                  key={event.id}
-                  onClick={() => handleEventClick(event.id)}
+                  key={getOccurrenceKey(event)}
+                  onClick={() => handleEventClick(event)}
                   className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden cursor-pointer hover:shadow-md transition-shadow duration-200"
                 >
                   {/* Event Image */}
@@ -356,6 +337,12 @@ export function EventsPage() {
                         <Calendar className="h-4 w-4 mr-2" />
                         {dateUtils.formatEventDate(event.eventDate)}
                       </div>
+                      {recurrence && (
+                        <div className="flex items-center text-sm text-gray-500">
+                          <Repeat className="h-4 w-4 mr-2" />
+                          {describeRecurrence(recurrence, new Date(event.eventDate))}
+                        </div>
+                      )}
                       <div className="flex items-center text-sm text-gray-500">
                         <MapPin className="h-4 w-4 mr-2" />
                         {event.location}
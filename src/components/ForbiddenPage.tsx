@@ -0,0 +1,37 @@
+// 403 page for logged-in users who lack the role a page requires
+
+import { useNavigate } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+
+export function ForbiddenPage() {
+  const navigate = useNavigate();
+
+  return (
+    <div className="min-h-[60vh] bg-background flex items-center justify-center">
+      <div className="text-center max-w-md mx-4">
+        <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-destructive/10">
+          <ShieldAlert className="h-6 w-6 text-destructive" />
+        </div>
+        <p className="mt-4 text-sm font-semibold text-muted-foreground">403</p>
+        <h1 className="mt-1 text-2xl font-bold text-foreground">Access denied</h1>
+        <p className="mt-2 text-sm text-muted-foreground">
+          You don't have permission to view this page. If you think this is a mistake, contact an administrator.
+        </p>
+        <div className="mt-6 flex justify-center space-x-3">
+          <button
+            onClick={() => navigate(-1)}
+            className="px-4 py-2 border border-border rounded-md text-sm font-medium text-foreground bg-background hover:bg-accent"
+          >
+            Go back
+          </button>
+          <button
+            onClick={() => navigate('/')}
+            className="px-4 py-2 rounded-md text-sm font-medium text-primary-foreground bg-primary hover:bg-primary/90"
+          >
+            Go to home page
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
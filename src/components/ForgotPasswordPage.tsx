@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { X, Loader2, MailCheck } from 'lucide-react';
+import { apiService } from '../api';
+import { ApiResponseHandler, ValidationError, FormValidationHelper } from '../types';
+import { validationUtils } from '../utils/domainUtils';
+import { envConfig } from '../utils/envConfig';
+
+export function ForgotPasswordPage() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  // LoginPage hands over the email that was already typed in
+  const [email, setEmail] = useState<string>((location.state as { email?: string } | null)?.email ?? '');
+  const [loading, setLoading] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setEmail(e.target.value);
+
+    // Clear errors when user starts typing
+    if (error) setError('');
+    if (fieldErrors.email) setFieldErrors({});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmedEmail = email.trim();
+    if (!validationUtils.isValidEmail(trimmedEmail)) {
+      setFieldErrors({ email: 'Please enter a valid email address' });
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    setFieldErrors({});
+
+    try {
+      const response = await apiService.forgotPassword({ email: trimmedEmail });
+      console.log('Forgot password response:', response);
+      setSubmitted(true);
+    } catch (error) {
+      console.error('Forgot password error:', error);
+
+      if (error instanceof ValidationError) {
+        setFieldErrors(FormValidationHelper.extractFieldErrors(error.response));
+        setError('Please correct the errors below');
+      } else {
+        setError(ApiResponseHandler.getUserMessage(error));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (submitted) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-6 text-center">
+          <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-primary/10">
+            <MailCheck className="h-6 w-6 text-primary" />
+          </div>
+          <h2 className="text-3xl font-extrabold text-foreground">Check your email</h2>
+          <p className="text-sm text-muted-foreground">
+            If an account exists for <strong>{email.trim()}</strong>, we sent a link to reset your password.
+            The link is valid for a limited time.
+          </p>
+          {envConfig.useMockApi && (
+            <p className="text-xs text-muted-foreground bg-accent rounded-md p-3">
+              Demo mode: emails are not sent. Open the browser console to find the reset link.
+            </p>
+          )}
+          <button
+            onClick={() => navigate('/login')}
+            className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-primary-foreground bg-primary hover:bg-primary/90 transition-colors"
+          >
+            Back to sign in
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        {/* Header */}
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-foreground">
+            Forgot your password?
+          </h2>
+          <p className="mt-2 text-center text-sm text-muted-foreground">
+            Enter the email address of your account and we'll send you a link to reset it.
+          </p>
+        </div>
+
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit} noValidate>
+          {/* Email Input */}
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-foreground mb-1">
+              Email address
+            </label>
+            <input
+              id="email"
+              name="email"
+              type="email"
+              required
+              autoFocus
+              value={email}
+              onChange={handleInputChange}
+              className={`appearance-none relative block w-full px-3 py-2 border ${
+                fieldErrors.email ? 'border-destructive' : 'border-border'
+              } placeholder-muted-foreground text-foreground bg-background rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:border-ring focus:z-10 sm:text-sm`}
+              placeholder="Enter your email"
+            />
+            {fieldErrors.email && (
+              <p className="mt-1 text-sm text-destructive">{fieldErrors.email}</p>
+            )}
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="bg-destructive/10 border border-destructive/20 rounded-md p-3">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <X className="h-5 w-5 text-destructive" />
+                </div>
+                <div className="ml-3">
+                  <p className="text-sm text-destructive">{error}</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Submit Button */}
+          <button
+            type="submit"
+            disabled={!email.trim() || loading}
+            className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-primary-foreground bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-ring disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {loading ? (
+              <div className="flex items-center">
+                <Loader2 className="animate-spin -ml-1 mr-3 h-5 w-5 text-primary-foreground" />
+                Sending link...
+              </div>
+            ) : (
+              'Send reset link'
+            )}
+          </button>
+
+          <div className="text-sm text-center">
+            <button
+              type="button"
+              onClick={() => navigate('/login')}
+              className="font-medium text-muted-foreground hover:text-foreground transition-colors"
+            >
+              ← Back to sign in
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
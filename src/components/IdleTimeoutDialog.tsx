@@ -0,0 +1,54 @@
+// Warning shown before an idle session is logged out
+
+import { Clock } from 'lucide-react';
+
+interface IdleTimeoutDialogProps {
+  remainingSeconds: number;
+  onStaySignedIn: () => void;
+  onLogout: () => void;
+}
+
+export function IdleTimeoutDialog({ remainingSeconds, onStaySignedIn, onLogout }: IdleTimeoutDialogProps) {
+  const minutes = Math.floor(remainingSeconds / 60);
+  const seconds = remainingSeconds % 60;
+  const countdown = minutes > 0 ? `${minutes}:${String(seconds).padStart(2, '0')}` : `${seconds} seconds`;
+
+  return (
+    <div
+      className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50"
+      role="alertdialog"
+      aria-modal="true"
+      aria-labelledby="idle-timeout-title"
+    >
+      <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+        <div className="mt-3 text-center">
+          <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-yellow-100">
+            <Clock className="h-6 w-6 text-yellow-600" />
+          </div>
+          <h3 id="idle-timeout-title" className="text-lg font-medium text-gray-900 mt-4">Are you still there?</h3>
+          <div className="mt-2 px-7 py-3">
+            <p className="text-sm text-gray-500">
+              You have been inactive for a while. For your security you will be logged out in{' '}
+              <strong aria-live="polite">{countdown}</strong>.
+            </p>
+          </div>
+          <div className="flex justify-center space-x-3 pt-4">
+            <button
+              onClick={onLogout}
+              className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Log out now
+            </button>
+            <button
+              onClick={onStaySignedIn}
+              autoFocus
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Stay signed in
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
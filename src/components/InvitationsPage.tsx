@@ -0,0 +1,285 @@
+import { useState, useEffect } from 'react';
+import { X, Loader2, MailPlus, CheckCircle } from 'lucide-react';
+import { apiService } from '../api';
+import { ApiResponseHandler, ValidationError, FormValidationHelper } from '../types';
+import type { Invitation, InvitationStatus } from '../models';
+import type { CreateInvitationRequest } from '../contracts';
+import { validationUtils, dateUtils } from '../utils/domainUtils';
+import { envConfig } from '../utils/envConfig';
+
+// Roles an admin can invite; organizers are registered through registerAdmin
+const INVITABLE_ROLES = [
+  { value: 'Admin', label: 'Organizer' },
+  { value: 'User', label: 'Member' },
+];
+
+const STATUS_FILTERS: Array<InvitationStatus | 'All'> = ['All', 'Pending', 'Accepted', 'Expired'];
+
+const STATUS_BADGE_CLASSES: Record<InvitationStatus, string> = {
+  Pending: 'bg-yellow-100 text-yellow-800',
+  Accepted: 'bg-green-100 text-green-800',
+  Expired: 'bg-gray-100 text-gray-600',
+};
+
+function getRoleLabel(role: string): string {
+  return INVITABLE_ROLES.find(r => r.value === role)?.label ?? role;
+}
+
+export function InvitationsPage() {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [statusFilter, setStatusFilter] = useState<InvitationStatus | 'All'>('All');
+
+  const [formData, setFormData] = useState<CreateInvitationRequest>({ email: '', role: 'Admin' });
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [sentTo, setSentTo] = useState('');
+
+  useEffect(() => {
+    loadInvitations();
+  }, []);
+
+  const loadInvitations = async () => {
+    try {
+      setLoading(true);
+      setLoadError('');
+
+      const response = await apiService.getInvitations();
+      const data = ApiResponseHandler.handleResponse(response);
+      console.log('Invitations loaded:', data);
+      setInvitations(data);
+    } catch (error) {
+      console.error('Error loading invitations:', error);
+      setLoadError(ApiResponseHandler.getUserMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }));
+
+    // Clear errors when user starts typing
+    if (error) setError('');
+    if (sentTo) setSentTo('');
+    if (fieldErrors[name]) {
+      setFieldErrors(prev => ({
+        ...prev,
+        [name]: ''
+      }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const email = formData.email.trim();
+    if (!validationUtils.isValidEmail(email)) {
+      setFieldErrors({ email: 'Please enter a valid email address' });
+      return;
+    }
+
+    setSending(true);
+    setError('');
+    setFieldErrors({});
+
+    try {
+      const response = await apiService.createInvitation({ ...formData, email });
+      const invitation = ApiResponseHandler.handleResponse(response);
+      console.log('Invitation created:', invitation);
+
+      setInvitations(prev => [invitation, ...prev]);
+      setSentTo(invitation.email);
+      setFormData(prev => ({ ...prev, email: '' }));
+    } catch (error) {
+      console.error('Create invitation error:', error);
+
+      if (error instanceof ValidationError) {
+        setFieldErrors(FormValidationHelper.extractFieldErrors(error.response));
+        setError('Please correct the errors below');
+      } else {
+        setError(ApiResponseHandler.getUserMessage(error));
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const filteredInvitations = statusFilter === 'All'
+    ? invitations
+    : invitations.filter(invitation => invitation.status === statusFilter);
+
+  const countByStatus = (status: InvitationStatus | 'All') =>
+    status === 'All' ? invitations.length : invitations.filter(invitation => invitation.status === status).length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground mb-2">Invitations</h1>
+          <p className="text-muted-foreground">
+            Invite organizers to create and manage their own events.
+          </p>
+        </div>
+
+        {/* Invite Form */}
+        <div className="bg-card border border-border rounded-lg p-6">
+          <h2 className="text-lg font-semibold text-foreground mb-4">Invite organizer</h2>
+          <form className="space-y-4" onSubmit={handleSubmit} noValidate>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="md:col-span-2">
+                <label htmlFor="email" className="block text-sm font-medium text-foreground mb-1">
+                  Email address
+                </label>
+                <input
+                  id="email"
+                  name="email"
+                  type="email"
+                  value={formData.email}
+                  onChange={handleInputChange}
+                  className={`appearance-none relative block w-full px-3 py-2 border ${
+                    fieldErrors.email ? 'border-destructive' : 'border-border'
+                  } placeholder-muted-foreground text-foreground bg-background rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:border-ring sm:text-sm`}
+                  placeholder="organizer@example.com"
+                />
+                {fieldErrors.email && (
+                  <p className="mt-1 text-sm text-destructive">{fieldErrors.email}</p>
+                )}
+              </div>
+              <div>
+                <label htmlFor="role" className="block text-sm font-medium text-foreground mb-1">
+                  Role
+                </label>
+                <select
+                  id="role"
+                  name="role"
+                  value={formData.role}
+                  onChange={handleInputChange}
+                  className="block w-full px-3 py-2 border border-border text-foreground bg-background rounded-md focus:outline-none focus:ring-2 focus:ring-ring sm:text-sm"
+                >
+                  {INVITABLE_ROLES.map(role => (
+                    <option key={role.value} value={role.value}>{role.label}</option>
+                  ))}
+                </select>
+                {fieldErrors.role && (
+                  <p className="mt-1 text-sm text-destructive">{fieldErrors.role}</p>
+                )}
+              </div>
+            </div>
+
+            {/* Error Message */}
+            {error && (
+              <div className="bg-destructive/10 border border-destructive/20 rounded-md p-3 flex">
+                <X className="h-5 w-5 text-destructive flex-shrink-0" />
+                <p className="ml-3 text-sm text-destructive">{error}</p>
+              </div>
+            )}
+
+            {sentTo && (
+              <div className="bg-primary/10 border border-primary/20 rounded-md p-3 flex">
+                <CheckCircle className="h-5 w-5 text-primary flex-shrink-0" />
+                <p className="ml-3 text-sm text-foreground">
+                  Invitation sent to <strong>{sentTo}</strong>.
+                  {envConfig.useMockApi && ' Demo mode: open the browser console to find the invitation link.'}
+                </p>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={!formData.email.trim() || sending}
+              className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-primary-foreground bg-primary hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {sending ? (
+                <Loader2 className="animate-spin mr-2 h-4 w-4" />
+              ) : (
+                <MailPlus className="mr-2 h-4 w-4" />
+              )}
+              Send invitation
+            </button>
+          </form>
+        </div>
+
+        {/* Invitation List */}
+        <div>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {STATUS_FILTERS.map(status => (
+              <button
+                key={status}
+                onClick={() => setStatusFilter(status)}
+                className={`px-3 py-1 rounded-full text-sm font-medium border transition-colors ${
+                  statusFilter === status
+                    ? 'bg-primary text-primary-foreground border-primary'
+                    : 'bg-background text-muted-foreground border-border hover:text-foreground'
+                }`}
+              >
+                {status} ({countByStatus(status)})
+              </button>
+            ))}
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center items-center py-12">
+              <Loader2 className="animate-spin h-8 w-8 text-primary" />
+              <span className="ml-3 text-muted-foreground">Loading invitations...</span>
+            </div>
+          ) : loadError ? (
+            <div className="bg-destructive/10 border border-destructive/20 rounded-md p-4">
+              <p className="text-sm text-destructive">{loadError}</p>
+              <button
+                onClick={loadInvitations}
+                className="mt-2 text-sm text-destructive hover:text-destructive/80 font-medium"
+              >
+                Try again
+              </button>
+            </div>
+          ) : filteredInvitations.length === 0 ? (
+            <p className="text-center py-12 text-sm text-muted-foreground">No invitations to show.</p>
+          ) : (
+            <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+              <table className="min-w-full divide-y divide-gray-300">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Invited</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires / Accepted</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {filteredInvitations.map(invitation => (
+                    <tr key={invitation.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{invitation.email}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{getRoleLabel(invitation.role)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_BADGE_CLASSES[invitation.status]}`}>
+                          {invitation.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        <div>{dateUtils.formatRegistrationDate(invitation.createdAt)}</div>
+                        <div className="text-gray-400">by {invitation.invitedBy}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {invitation.acceptedAt
+                          ? dateUtils.formatRegistrationDate(invitation.acceptedAt)
+                          : dateUtils.formatRegistrationDate(invitation.expiresAt)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
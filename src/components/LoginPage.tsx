@@ -1,17 +1,60 @@
-import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { X, Loader2 } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { X, Loader2, MailWarning, Building2, Clock, KeyRound } from 'lucide-react';
 import { apiService } from '../api';
-import { ApiResponseHandler, ValidationError, FormValidationHelper } from '../types';
-import type { LoginRequest } from '../contracts';
-import type { AppUser } from '../models';
-import { decodeJwtToAppUser } from '../utils/jwtUtils'
+import {
+  ApiResponseHandler,
+  ValidationError,
+  FormValidationHelper,
+  EmailNotVerifiedError,
+  MfaRequiredError,
+  AccountLockedError,
+  RateLimitedError,
+  UnauthorizedError,
+} from '../types';
+import { decodeResponse, mfaChallengeDecoder, type Credentials, type LoginRequest, type MfaChallenge } from '../contracts';
+import { useAuth } from '../hooks';
+import { oidcService } from '../services';
+import { envConfig } from '../utils/envConfig';
+import { buildRegisterUrl, getSafeReturnUrl } from '../utils/redirectUtils'
+import {
+  clearLoginThrottle,
+  getLoginThrottle,
+  recordLoginFailure,
+  recordServerBlock,
+  type LoginBlockReason,
+  type LoginThrottleState,
+} from '../utils/loginThrottle';
+import { ResendVerificationButton } from './ResendVerificationButton';
+import { MfaChallengeForm } from './MfaChallengeForm';
 
-interface LoginPageProps {
-  onLoginSuccess?: (user: AppUser, authToken?: string, refreshToken?: string, authTokenExp?: string, refreshTokenExp?: string) => void;
+// Failed attempts before the forgot-password path is offered
+const SUGGEST_RESET_AFTER = 3;
+
+const BLOCK_TITLES: Record<LoginBlockReason, string> = {
+  backoff: 'Too many failed attempts',
+  rateLimited: 'Too many sign-in attempts',
+  locked: 'Account temporarily locked',
+};
+
+// 75 -> "1:15"
+function formatCountdown(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  return `${minutes}:${String(totalSeconds % 60).padStart(2, '0')}`;
 }
 
-export function LoginPage({ onLoginSuccess }: LoginPageProps) {
+// The challenge travels in the error response's value
+function readMfaChallenge(error: MfaRequiredError): MfaChallenge | null {
+  try {
+    return decodeResponse(mfaChallengeDecoder, error.response?.value, error.status, error.request);
+  } catch (decodeError) {
+    console.error('Could not read the MFA challenge:', decodeError);
+    return null;
+  }
+}
+
+export function LoginPage() {
+  const { login } = useAuth();
   const [formData, setFormData] = useState<LoginRequest>({
     email: '',
     password: ''
@@ -19,7 +62,30 @@ export function LoginPage({ onLoginSuccess }: LoginPageProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  // The account exists but its email address hasn't been confirmed yet
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null);
+  // Password accepted; waiting for the authenticator or recovery code
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
+  const [ssoLoading, setSsoLoading] = useState(false);
+  // Backoff survives a reload (sessionStorage); now drives the countdown
+  const [throttle, setThrottle] = useState<LoginThrottleState>(getLoginThrottle);
+  const [now, setNow] = useState(Date.now());
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+
+  const secondsLeft = Math.max(0, Math.ceil((throttle.blockedUntil - now) / 1000));
+
+  // Tick once per second while sign-in is blocked
+  useEffect(() => {
+    if (secondsLeft <= 0) return;
+    const timeoutId = setTimeout(() => setNow(Date.now()), 1000);
+    return () => clearTimeout(timeoutId);
+  }, [secondsLeft, now]);
+
+  const applyThrottle = (state: LoginThrottleState) => {
+    setThrottle(state);
+    setNow(Date.now());
+  };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -30,6 +96,7 @@ export function LoginPage({ onLoginSuccess }: LoginPageProps) {
     
     // Clear errors when user starts typing
     if (error) setError('');
+    if (name === 'email') setUnverifiedEmail(null);
     if (fieldErrors[name]) {
       setFieldErrors(prev => ({
         ...prev,
@@ -38,6 +105,29 @@ export function LoginPage({ onLoginSuccess }: LoginPageProps) {
     }
   };
 
+  // Only called with tokens, i.e. after every required factor has passed
+  const completeLogin = (credentials: Credentials) => {
+    clearLoginThrottle();
+
+    // AuthProvider decodes the user, stores the tokens and starts the session
+    const user = login(credentials);
+
+    if (!user) {
+      setMfaChallenge(null);
+      setError('Failed to decode user information. Please try again.');
+      return;
+    }
+
+    // Redirect to the page that sent the user here (e.g. a guarded route), or the home page
+    navigate(getSafeReturnUrl(searchParams), { replace: true });
+  };
+
+  const restartLogin = (message: string) => {
+    setMfaChallenge(null);
+    setFormData(prev => ({ ...prev, password: '' }));
+    setError(message);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -47,10 +137,12 @@ export function LoginPage({ onLoginSuccess }: LoginPageProps) {
       setError('Please fill in all fields');
       return;
     }
+    if (secondsLeft > 0) return;
 
     setLoading(true);
     setError('');
     setFieldErrors({});
+    setUnverifiedEmail(null);
 
     try {
       console.log('Attempting login with:', { email, password: '***' });
@@ -60,27 +152,7 @@ export function LoginPage({ onLoginSuccess }: LoginPageProps) {
       
       const loginData = ApiResponseHandler.handleResponse(response);
       console.log('Login successful:', loginData);
-      
-      // Decode user and handle null case
-      const decodedUser = decodeJwtToAppUser(loginData.authToken)!;
-      
-      if (!decodedUser) {
-        setError('Failed to decode user information. Please try again.');
-        return;
-      }
-      
-      const user: AppUser = decodedUser;
-      const authToken = loginData.authToken;
-      const refreshToken = loginData.refreshToken;
-      const authTokenExp = loginData.authTokenExp;
-      const refreshTokenExp = loginData.refreshTokenExp;
-      
-      // REMOVED: Token setting (App.tsx handles this via onLoginSuccess)
-      // Handle successful login - App.tsx will manage tokens
-      onLoginSuccess?.(user, authToken, refreshToken, authTokenExp, refreshTokenExp);
-      
-      // Redirect to home page or dashboard
-      navigate('/');
+      completeLogin(loginData);
       
     } catch (error) {
       console.error('Login error:', error);
@@ -90,6 +162,27 @@ export function LoginPage({ onLoginSuccess }: LoginPageProps) {
         const formErrors = FormValidationHelper.extractFieldErrors(error.response);
         setFieldErrors(formErrors);
         setError('Please correct the errors below');
+      } else if (error instanceof MfaRequiredError) {
+        const challenge = readMfaChallenge(error);
+        if (challenge) {
+          setMfaChallenge(challenge);
+        } else {
+          setError('An unexpected error occurred. Please try again.');
+        }
+      } else if (error instanceof AccountLockedError) {
+        applyThrottle(recordServerBlock('locked', error.retryAfterSeconds));
+      } else if (error instanceof RateLimitedError) {
+        applyThrottle(recordServerBlock('rateLimited', error.retryAfterSeconds));
+      } else if (error instanceof UnauthorizedError) {
+        // Wrong email or password: each further failure waits twice as long
+        applyThrottle(recordLoginFailure());
+        setError(error.message);
+      } else if (error instanceof EmailNotVerifiedError) {
+        // Offer a new link instead of a dead end
+        setUnverifiedEmail(email);
+      } else if (ApiResponseHandler.isTransientError(error)) {
+        // Network failures and timeouts get a friendlier message than the raw fetch error
+        setError(ApiResponseHandler.getUserMessage(error));
       } else if (error instanceof Error) {
         setError(error.message);
       } else {
@@ -100,7 +193,30 @@ export function LoginPage({ onLoginSuccess }: LoginPageProps) {
     }
   };
 
+  // Leaves the app for the identity provider; AuthCallbackPage finishes the login
+  const handleSsoLogin = async () => {
+    setSsoLoading(true);
+    setError('');
+    try {
+      await oidcService.startSignIn(getSafeReturnUrl(searchParams));
+    } catch (error) {
+      console.error('SSO start error:', error);
+      setError(error instanceof Error ? error.message : 'Single sign-on is not available right now.');
+      setSsoLoading(false);
+    }
+  };
+
   const isFormValid = formData.email.trim() !== '' && formData.password.trim() !== '';
+  const suggestPasswordReset = throttle.failures >= SUGGEST_RESET_AFTER || throttle.reason === 'locked';
+  const goToForgotPassword = () => navigate('/forgot-password', { state: { email: formData.email } });
+
+  if (mfaChallenge) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
+        <MfaChallengeForm challenge={mfaChallenge} onVerified={completeLogin} onRestart={restartLogin} />
+      </div>
+    );
+  }
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
@@ -113,7 +229,7 @@ export function LoginPage({ onLoginSuccess }: LoginPageProps) {
           <p className="mt-2 text-center text-sm text-muted-foreground">
             Or{' '}
             <button
-              onClick={() => navigate('/register')}
+              onClick={() => navigate(buildRegisterUrl(getSafeReturnUrl(searchParams)))}
               className="font-medium text-primary hover:text-primary/80 transition-colors"
             >
               create a new account
@@ -183,11 +299,71 @@ export function LoginPage({ onLoginSuccess }: LoginPageProps) {
             </div>
           )}
 
+          {/* Throttled or Locked */}
+          {secondsLeft > 0 && (
+            <div className="bg-destructive/10 border border-destructive/20 rounded-md p-3">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <Clock className="h-5 w-5 text-destructive" />
+                </div>
+                <div className="ml-3">
+                  <p className="text-sm font-medium text-destructive">{BLOCK_TITLES[throttle.reason ?? 'backoff']}</p>
+                  <p className="mt-1 text-sm text-destructive" aria-live="polite">
+                    You can try again in {formatCountdown(secondsLeft)}.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Repeated Failures */}
+          {suggestPasswordReset && (
+            <div className="bg-accent border border-border rounded-md p-4">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <KeyRound className="h-5 w-5 text-primary" />
+                </div>
+                <div className="ml-3">
+                  <p className="text-sm font-medium text-foreground">Can't remember your password?</p>
+                  <p className="mt-1 text-sm text-muted-foreground">
+                    We can email you a link to choose a new one instead.
+                  </p>
+                  <button
+                    type="button"
+                    onClick={goToForgotPassword}
+                    className="mt-2 text-sm font-medium text-primary hover:text-primary/80 transition-colors"
+                  >
+                    Reset your password
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Unverified Email */}
+          {unverifiedEmail && (
+            <div className="bg-accent border border-border rounded-md p-4 space-y-3">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <MailWarning className="h-5 w-5 text-primary" />
+                </div>
+                <div className="ml-3">
+                  <p className="text-sm font-medium text-foreground">Verify your email address</p>
+                  <p className="mt-1 text-sm text-muted-foreground">
+                    Open the link we sent to <strong>{unverifiedEmail}</strong> to activate your account.
+                    Can't find it? We can send a new one.
+                  </p>
+                </div>
+              </div>
+              <ResendVerificationButton email={unverifiedEmail} />
+            </div>
+          )}
+
           {/* Submit Button */}
           <div>
             <button
               type="submit"
-              disabled={!isFormValid || loading}
+              disabled={!isFormValid || loading || secondsLeft > 0}
               className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-primary-foreground bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-ring disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               {loading ? (
@@ -195,12 +371,41 @@ export function LoginPage({ onLoginSuccess }: LoginPageProps) {
                   <Loader2 className="animate-spin -ml-1 mr-3 h-5 w-5 text-primary-foreground" />
                   Signing in...
                 </div>
+              ) : secondsLeft > 0 ? (
+                `Try again in ${formatCountdown(secondsLeft)}`
               ) : (
                 'Sign in'
               )}
             </button>
           </div>
 
+          {/* Single Sign-On */}
+          {oidcService.isEnabled() && (
+            <>
+              <div className="relative">
+                <div className="absolute inset-0 flex items-center">
+                  <div className="w-full border-t border-border" />
+                </div>
+                <div className="relative flex justify-center text-sm">
+                  <span className="px-2 bg-background text-muted-foreground">or</span>
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={handleSsoLogin}
+                disabled={ssoLoading || loading}
+                className="w-full flex justify-center items-center py-2 px-4 border border-border text-sm font-medium rounded-md text-foreground bg-background hover:bg-accent disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {ssoLoading ? (
+                  <Loader2 className="animate-spin mr-2 h-4 w-4" />
+                ) : (
+                  <Building2 className="mr-2 h-4 w-4" />
+                )}
+                Sign in with {envConfig.oidcProviderName}
+              </button>
+            </>
+          )}
+
           {/* Additional Options */}
           <div className="flex items-center justify-between">
             <div className="text-sm">
@@ -213,12 +418,13 @@ export function LoginPage({ onLoginSuccess }: LoginPageProps) {
               </button>
             </div>
             <div className="text-sm">
-              <a
-                href="#"
+              <button
+                type="button"
+                onClick={goToForgotPassword}
                 className="font-medium text-primary hover:text-primary/80 transition-colors"
               >
                 Forgot your password?
-              </a>
+              </button>
             </div>
           </div>
         </form>
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { X, Loader2, ShieldCheck } from 'lucide-react';
+import { apiService } from '../api';
+import { ApiError, ApiResponseHandler, ValidationError, FormValidationHelper } from '../types';
+import type { Credentials, MfaChallenge } from '../contracts';
+
+interface MfaChallengeFormProps {
+  challenge: MfaChallenge;
+  onVerified: (credentials: Credentials) => void;
+  onRestart: (message: string) => void; // Back to the password step, e.g. when the challenge expired
+}
+
+type MfaMethod = 'totp' | 'recovery';
+
+/**
+ * MfaChallengeForm - Second login step: an authenticator code, or a recovery code as fallback
+ */
+export function MfaChallengeForm({ challenge, onVerified, onRestart }: MfaChallengeFormProps) {
+  const [method, setMethod] = useState<MfaMethod>('totp');
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const switchMethod = (next: MfaMethod) => {
+    setMethod(next);
+    setCode('');
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = method === 'totp'
+        ? await apiService.verifyMfa({ challengeId: challenge.challengeId, code: code.replace(/\s/g, '') })
+        : await apiService.verifyRecoveryCode({ challengeId: challenge.challengeId, recoveryCode: code.trim() });
+      console.log('MFA verification response:', response);
+
+      onVerified(ApiResponseHandler.handleResponse(response));
+    } catch (error) {
+      console.error('MFA verification error:', error);
+
+      if (error instanceof ValidationError) {
+        const fieldErrors = FormValidationHelper.extractFieldErrors(error.response);
+        setError(fieldErrors.code || fieldErrors.recoverycode || 'Please check the code and try again.');
+        setCode('');
+      } else if (error instanceof ApiError && error.status === 410) {
+        // Expired or too many wrong codes: the password has to be entered again
+        onRestart(error.message);
+      } else {
+        setError(ApiResponseHandler.getUserMessage(error));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isCodeComplete = method === 'totp'
+    ? /^\d{6}$/.test(code.replace(/\s/g, ''))
+    : code.trim().length > 0;
+
+  return (
+    <div className="max-w-md w-full space-y-8">
+      <div className="text-center">
+        <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-primary/10">
+          <ShieldCheck className="h-6 w-6 text-primary" />
+        </div>
+        <h2 className="mt-6 text-3xl font-extrabold text-foreground">Two-step verification</h2>
+        <p className="mt-2 text-sm text-muted-foreground">
+          {method === 'totp'
+            ? 'Enter the 6-digit code from your authenticator app.'
+            : 'Enter one of the recovery codes you saved when you turned on two-step verification. Each code works once.'}
+        </p>
+      </div>
+
+      <form className="space-y-6" onSubmit={handleSubmit} noValidate>
+        <div>
+          <label htmlFor="mfaCode" className="block text-sm font-medium text-foreground mb-1">
+            {method === 'totp' ? 'Authentication code' : 'Recovery code'}
+          </label>
+          <input
+            id="mfaCode"
+            name="code"
+            type="text"
+            inputMode={method === 'totp' ? 'numeric' : 'text'}
+            autoComplete="one-time-code"
+            autoFocus
+            value={code}
+            onChange={e => {
+              setCode(e.target.value);
+              if (error) setError('');
+            }}
+            maxLength={method === 'totp' ? 7 : 20}
+            className={`appearance-none relative block w-full px-3 py-2 border ${
+              error ? 'border-destructive' : 'border-border'
+            } placeholder-muted-foreground text-foreground bg-background rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:border-ring sm:text-sm ${
+              method === 'totp' ? 'tracking-[0.5em] text-center font-mono' : 'font-mono'
+            }`}
+            placeholder={method === 'totp' ? '123456' : 'xxxx-xxxx'}
+          />
+        </div>
+
+        {error && (
+          <div className="bg-destructive/10 border border-destructive/20 rounded-md p-3 flex">
+            <X className="h-5 w-5 text-destructive flex-shrink-0" />
+            <p className="ml-3 text-sm text-destructive">{error}</p>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={!isCodeComplete || loading}
+          className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-primary-foreground bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-ring disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {loading ? (
+            <div className="flex items-center">
+              <Loader2 className="animate-spin -ml-1 mr-3 h-5 w-5 text-primary-foreground" />
+              Verifying...
+            </div>
+          ) : (
+            'Verify'
+          )}
+        </button>
+
+        <div className="flex items-center justify-between text-sm">
+          <button
+            type="button"
+            onClick={() => onRestart('')}
+            className="font-medium text-muted-foreground hover:text-foreground transition-colors"
+          >
+            ← Back to sign in
+          </button>
+          <button
+            type="button"
+            onClick={() => switchMethod(method === 'totp' ? 'recovery' : 'totp')}
+            className="font-medium text-primary hover:text-primary/80 transition-colors"
+          >
+            {method === 'totp' ? 'Use a recovery code' : 'Use your authenticator app'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
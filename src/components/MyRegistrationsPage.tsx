@@ -2,22 +2,21 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { apiService } from '../api';
+import { apiService, eventQueries, eventMutations } from '../api';
 import { ApiResponseHandler, ApiError } from '../types';
-import type { EventRegistration, Event, AppUser } from '../models';
+import type { EventRegistration, Event } from '../models';
+import { useAuth } from '../hooks';
+import { buildLoginUrl } from '../utils/redirectUtils';
 import { dateUtils } from '../lib/utils';
 import { downloadEventCalendar } from '../lib/icsUtils';
 import { ClipboardX } from 'lucide-react';
 
-interface MyRegistrationsPageProps {
-  currentUser: AppUser | null;
-}
-
 interface RegistrationWithEvent extends EventRegistration {
   event?: Event;
 }
 
-export function MyRegistrationsPage({ currentUser }: MyRegistrationsPageProps) {
+export function MyRegistrationsPage() {
+  const { user: currentUser } = useAuth();
   const navigate = useNavigate();
   
   const [registrations, setRegistrations] = useState<RegistrationWithEvent[]>([]);
@@ -40,20 +39,20 @@ export function MyRegistrationsPage({ currentUser }: MyRegistrationsPageProps) {
       
       console.log('User registrations loaded:', userRegistrations);
       
-      // Load event details for each registration
+      // Load event details for all registrations in one batched request
       if (userRegistrations && userRegistrations.length > 0) {
-        const registrationsWithEvents = await Promise.all(
-          userRegistrations.map(async (registration) => {
-            try {
-              const eventResponse = await apiService.getEvent(registration.eventId);
-              const event = ApiResponseHandler.handleResponse(eventResponse);
-              return { ...registration, event };
-            } catch (error) {
-              console.error(`Failed to load event ${registration.eventId}:`, error);
-              return registration;
-            }
-          })
-        );
+        let eventsById = new Map<string, Event>();
+        try {
+          eventsById = await eventQueries.eventsByIds(userRegistrations.map(r => r.eventId));
+        } catch (error) {
+          // Still list the registrations, just without event details
+          console.error('Failed to load events for registrations:', error);
+        }
+
+        const registrationsWithEvents: RegistrationWithEvent[] = userRegistrations.map(registration => ({
+          ...registration,
+          event: eventsById.get(registration.eventId),
+        }));
         
         setRegistrations(registrationsWithEvents);
       } else {
@@ -104,12 +103,10 @@ export function MyRegistrationsPage({ currentUser }: MyRegistrationsPageProps) {
     try {
       console.log('Canceling registration:', registration.id);
       
-      const response = await apiService.cancelEventRegistration(registration.id, {
+      await eventMutations.cancelEventRegistration(registration, {
         appUserId: currentUser.userId
       });
       
-      ApiResponseHandler.handleResponse(response);
-      
       console.log('Registration canceled successfully');
       
       // Reload registrations to get updated data
@@ -199,7 +196,7 @@ export function MyRegistrationsPage({ currentUser }: MyRegistrationsPageProps) {
               </p>
               <div className="mt-4">
                 <button
-                  onClick={() => navigate('/login')}
+                  onClick={() => navigate(buildLoginUrl('/my-registrations'))}
                   className="text-sm text-primary hover:text-primary/80 font-medium"
                 >
                   Go to Login
@@ -1,20 +1,13 @@
 import { useState, useEffect, useRef } from 'react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { Menu, User, ChevronDown } from 'lucide-react';
+import { useAuth } from '../hooks';
+import { Can } from './Can';
+import { buildLoginUrl, buildRegisterUrl, getLocationPath, getSafeReturnUrl } from '../utils/redirectUtils';
 
-interface NavigationProps {
-  isLoggedIn?: boolean;
-  userRole?: string;
-  userName?: string;
-  onLogout?: () => void;
-}
-
-export function Navigation({ 
-  isLoggedIn = false, 
-  userRole = 'User',
-  userName = '',
-  onLogout
-}: NavigationProps) {
+export function Navigation() {
+  const { user, isLoggedIn, logout } = useAuth();
+  const userName = user ? user.userName || `${user.firstName} ${user.lastName}`.trim() : '';
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isUserDropdownOpen, setIsUserDropdownOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -60,16 +53,24 @@ export function Navigation({
     setIsUserDropdownOpen(!isUserDropdownOpen);
   };
 
+  // Come back to the current page after logging in; on the auth pages keep the return URL they already carry
+  const getReturnUrl = (): string => {
+    if (location.pathname === '/login' || location.pathname === '/register') {
+      return getSafeReturnUrl(new URLSearchParams(location.search));
+    }
+    return getLocationPath(location);
+  };
+
   const handleLoginClick = () => {
-    navigate('/login');
+    navigate(buildLoginUrl(getReturnUrl()));
   };
 
   const handleRegisterClick = () => {
-    navigate('/register');
+    navigate(buildRegisterUrl(getReturnUrl()));
   };
 
   const handleLogoutClick = () => {
-    onLogout?.();
+    logout();
     navigate('/login');
   };
 
@@ -106,16 +107,16 @@ export function Navigation({
               Events
             </Link> */}
             
-            {isLoggedIn && (
+            <Can perform="registration:view">
               <Link
                 to="/my-registrations"
                 className={getMenuItemClasses('/my-registrations', "px-3 py-2 rounded-md text-sm font-medium transition-colors border")}
               >
                 My Event Registrations
               </Link>
-            )}
+            </Can>
 
-            {isLoggedIn && userRole === 'Admin' && (
+            <Can perform="event:create">
               <>
                 <Link
                   to="/admin/my-events"
@@ -130,7 +131,16 @@ export function Navigation({
                   Dashboard
                 </Link> */}
               </>
-            )}
+            </Can>
+
+            <Can perform="users:manage">
+              <Link
+                to="/admin/invitations"
+                className={getMenuItemClasses('/admin/invitations', "px-3 py-2 rounded-md text-sm font-medium transition-colors border")}
+              >
+                Invitations
+              </Link>
+            </Can>
 
             {/* User Actions */}
             {isLoggedIn ? (
@@ -154,15 +164,15 @@ export function Navigation({
                         Welcome, {userName}
                       </div>
                       <Link
-                        to="/profile"
+                        to="/account"
                         className={`block px-4 py-2 text-sm transition-colors ${
-                          isActiveRoute('/profile') 
+                          isActiveRoute('/account') 
                             ? 'text-primary bg-primary/10' 
                             : 'text-foreground hover:bg-accent'
                         }`}
                         onClick={() => setIsUserDropdownOpen(false)}
                       >
-                        View Profile
+                        Account Settings
                       </Link>
                       <button
                         onClick={() => {
@@ -218,16 +228,16 @@ export function Navigation({
                 Events Calendar
               </Link>
               
-              {isLoggedIn && (
+              <Can perform="registration:view">
                 <Link
                   to="/my-registrations"
                   className={getMenuItemClasses('/my-registrations', "block px-3 py-2 rounded-md text-base font-medium transition-colors border")}
                 >
                   My Registrations
                 </Link>
-              )}
+              </Can>
 
-              {isLoggedIn && userRole === 'Admin' && (
+              <Can perform="event:create">
                 <>
                   <Link
                     to="/admin/my-events"
@@ -242,7 +252,16 @@ export function Navigation({
                     Dashboard
                   </Link>
                 </>
-              )}
+              </Can>
+
+              <Can perform="users:manage">
+                <Link
+                  to="/admin/invitations"
+                  className={getMenuItemClasses('/admin/invitations', "block px-3 py-2 rounded-md text-base font-medium transition-colors border")}
+                >
+                  Invitations
+                </Link>
+              </Can>
 
               {/* Mobile User Actions */}
               {isLoggedIn ? (
@@ -256,15 +275,15 @@ export function Navigation({
                     </span>
                   </div>
                   <Link
-                    to="/profile"
+                    to="/account"
                     className={`block px-3 py-2 text-sm rounded-md transition-colors mx-2 border ${
-                      isActiveRoute('/profile') 
+                      isActiveRoute('/account') 
                         ? 'text-primary bg-primary/10 border-primary/20' 
                         : 'text-foreground hover:bg-accent border-transparent'
                     }`}
                     onClick={() => setIsMobileMenuOpen(false)}
                   >
-                    View Profile
+                    Account Settings
                   </Link>
                   <button
                     onClick={handleLogoutClick}
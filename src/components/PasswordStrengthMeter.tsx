@@ -0,0 +1,51 @@
+import { Check, X } from 'lucide-react';
+import { PASSWORD_STRENGTH_LABELS, type PasswordCheck, type PasswordStrength } from '../utils/passwordPolicy';
+
+interface PasswordStrengthMeterProps {
+  check: PasswordCheck; // The same result the form validates with on submit
+  password: string;
+  id?: string; // For aria-describedby on the password input
+}
+
+const STRENGTH_COLORS: Record<PasswordStrength, string> = {
+  0: 'bg-destructive',
+  1: 'bg-destructive',
+  2: 'bg-yellow-500',
+  3: 'bg-green-500',
+  4: 'bg-green-500',
+};
+
+/**
+ * PasswordStrengthMeter - Live strength bar and per-rule checklist under a new-password input
+ */
+export function PasswordStrengthMeter({ check, password, id }: PasswordStrengthMeterProps) {
+  return (
+    <div id={id} className="mt-2 space-y-2">
+      {password && (
+        <div>
+          <div className="flex gap-1" aria-hidden="true">
+            {[1, 2, 3, 4].map(level => (
+              <div
+                key={level}
+                className={`h-1.5 flex-1 rounded-full ${level <= Math.max(check.strength, 1) ? STRENGTH_COLORS[check.strength] : 'bg-muted'}`}
+              />
+            ))}
+          </div>
+          <p className="mt-1 text-xs text-muted-foreground" aria-live="polite">
+            Strength: <span className="font-medium text-foreground">{PASSWORD_STRENGTH_LABELS[check.strength]}</span>
+          </p>
+        </div>
+      )}
+
+      <ul className="space-y-1">
+        {check.rules.map(rule => (
+          <li key={rule.id} className={`flex items-center text-xs ${rule.passed ? 'text-green-600' : 'text-muted-foreground'}`}>
+            {rule.passed ? <Check className="h-3.5 w-3.5 mr-1.5 flex-shrink-0" /> : <X className="h-3.5 w-3.5 mr-1.5 flex-shrink-0" />}
+            {rule.label}
+            <span className="sr-only">{rule.passed ? ' (met)' : ' (not met)'}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+import { Repeat } from 'lucide-react';
+import {
+  describeRecurrence,
+  getOccurrenceDates,
+  getWeekday,
+  MAX_RECURRENCE_COUNT,
+  WEEKDAY_LABELS,
+  WEEKDAYS,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type Weekday,
+} from '../lib/recurrenceUtils';
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | null; // null for a one-off event
+  onChange: (rule: RecurrenceRule | null) => void;
+  startDate: string; // First date of the series, as entered in the date input
+  exceptions: string[]; // Skipped dates (ISO start times)
+  onExceptionsChange: (exceptions: string[]) => void;
+  error?: string;
+  disabled?: boolean;
+}
+
+type EndMode = 'never' | 'until' | 'count';
+
+const PREVIEW_COUNT = 8;
+const DEFAULT_COUNT = 10;
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+};
+
+// YYYY-MM-DD in local time, for date inputs and UNTIL
+const toDateInputValue = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const inputClassName = 'rounded-md border-border shadow-sm focus:border-ring focus:ring-ring disabled:opacity-50';
+
+/**
+ * RecurrenceEditor - Repeat settings for an event: frequency, weekdays, end and skipped dates
+ */
+export function RecurrenceEditor({ value, onChange, startDate, exceptions, onExceptionsChange, error, disabled }: RecurrenceEditorProps) {
+  const start = startDate ? new Date(startDate) : null;
+  const hasStart = !!start && !isNaN(start.getTime());
+  const endMode: EndMode = value?.until ? 'until' : value?.count ? 'count' : 'never';
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const handleFrequencyChange = (frequency: string) => {
+    if (!frequency) {
+      onChange(null);
+      onExceptionsChange([]);
+      return;
+    }
+    onChange({
+      frequency: frequency as RecurrenceFrequency,
+      interval: value?.interval ?? 1,
+      byWeekday: frequency === 'WEEKLY' && hasStart ? [getWeekday(start)] : [],
+      until: value?.until ?? null,
+      count: value?.count ?? null,
+    });
+  };
+
+  const handleEndModeChange = (mode: EndMode) => {
+    if (mode === 'never') {
+      update({ until: null, count: null });
+    } else if (mode === 'until') {
+      // Default to three months after the first date
+      const until = hasStart ? new Date(start.getFullYear(), start.getMonth() + 3, start.getDate()) : new Date();
+      update({ until: toDateInputValue(until), count: null });
+    } else {
+      update({ until: null, count: DEFAULT_COUNT });
+    }
+  };
+
+  // An empty weekday list repeats on the start date's weekday, so that day is shown as selected
+  const selectedWeekdays: Weekday[] = value && value.byWeekday.length > 0
+    ? value.byWeekday
+    : hasStart ? [getWeekday(start)] : [];
+
+  const toggleWeekday = (day: Weekday) => {
+    const next = selectedWeekdays.includes(day)
+      ? selectedWeekdays.filter(selected => selected !== day)
+      : [...selectedWeekdays, day];
+    if (next.length === 0) return; // A weekly series needs at least one day
+    update({ byWeekday: WEEKDAYS.filter(weekday => next.includes(weekday)) });
+  };
+
+  // Upcoming dates, skipped ones included so they can be restored
+  // Skipped dates are matched by day, so they stay skipped when the start time changes
+  const skipped = new Set(exceptions.map(date => new Date(date).toDateString()));
+  const previewDates = value && hasStart
+    ? getOccurrenceDates(start.toISOString(), value, start, new Date(start.getFullYear() + 10, 0, 1), { limit: PREVIEW_COUNT })
+    : [];
+
+  const toggleException = (date: Date) => {
+    if (skipped.has(date.toDateString())) {
+      onExceptionsChange(exceptions.filter(exception => new Date(exception).toDateString() !== date.toDateString()));
+    } else {
+      onExceptionsChange([...exceptions, date.toISOString()]);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="recurrenceFrequency" className="block text-sm font-medium text-foreground">
+          Repeats
+        </label>
+        <select
+          id="recurrenceFrequency"
+          value={value?.frequency ?? ''}
+          onChange={(e) => handleFrequencyChange(e.target.value)}
+          disabled={disabled}
+          className={`mt-1 block w-full ${inputClassName} ${error ? 'border-destructive' : ''}`}
+        >
+          <option value="">Does not repeat</option>
+          <option value="DAILY">Daily</option>
+          <option value="WEEKLY">Weekly</option>
+          <option value="MONTHLY">Monthly</option>
+        </select>
+      </div>
+
+      {value && (
+        <>
+          <div className="flex items-center gap-2 text-sm text-foreground">
+            <label htmlFor="recurrenceInterval">Every</label>
+            <input
+              type="number"
+              id="recurrenceInterval"
+              min="1"
+              max="99"
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+              disabled={disabled}
+              className={`w-20 ${inputClassName}`}
+            />
+            <span>{FREQUENCY_UNITS[value.frequency]}{value.interval === 1 ? '' : 's'}</span>
+          </div>
+
+          {value.frequency === 'WEEKLY' && (
+            <div>
+              <span className="block text-sm font-medium text-foreground">On</span>
+              <div className="mt-1 flex flex-wrap gap-2" role="group" aria-label="Repeat on">
+                {WEEKDAYS.map(day => {
+                  const selected = selectedWeekdays.includes(day);
+                  return (
+                    <button
+                      key={day}
+                      type="button"
+                      onClick={() => toggleWeekday(day)}
+                      aria-pressed={selected}
+                      disabled={disabled}
+                      className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                        selected
+                          ? 'bg-primary text-primary-foreground border-primary'
+                          : 'bg-background text-foreground border-border hover:bg-accent'
+                      }`}
+                    >
+                      {WEEKDAY_LABELS[day]}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {value.frequency === 'WEEKLY' && hasStart && !selectedWeekdays.includes(getWeekday(start)) && (
+            <p className="text-xs text-muted-foreground">
+              The first date ({WEEKDAY_LABELS[getWeekday(start)]}) is part of the series as well.
+            </p>
+          )}
+
+          {value.frequency === 'MONTHLY' && hasStart && start.getDate() > 28 && (
+            <p className="text-xs text-muted-foreground">
+              Months without day {start.getDate()} are skipped.
+            </p>
+          )}
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-foreground">Ends</legend>
+            <div className="mt-1 space-y-2 text-sm text-foreground">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="recurrenceEnd"
+                  checked={endMode === 'never'}
+                  onChange={() => handleEndModeChange('never')}
+                  disabled={disabled}
+                />
+                Never
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="recurrenceEnd"
+                  checked={endMode === 'until'}
+                  onChange={() => handleEndModeChange('until')}
+                  disabled={disabled}
+                />
+                On
+                <input
+                  type="date"
+                  aria-label="Last date"
+                  value={value.until ?? ''}
+                  min={hasStart ? toDateInputValue(start) : undefined}
+                  onChange={(e) => update({ until: e.target.value || null, count: null })}
+                  disabled={disabled || endMode !== 'until'}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="recurrenceEnd"
+                  checked={endMode === 'count'}
+                  onChange={() => handleEndModeChange('count')}
+                  disabled={disabled}
+                />
+                After
+                <input
+                  type="number"
+                  aria-label="Number of dates"
+                  min="1"
+                  max={MAX_RECURRENCE_COUNT}
+                  value={value.count ?? DEFAULT_COUNT}
+                  onChange={(e) => update({ count: Math.min(MAX_RECURRENCE_COUNT, Math.max(1, parseInt(e.target.value) || 1)), until: null })}
+                  disabled={disabled || endMode !== 'count'}
+                  className={`w-20 ${inputClassName}`}
+                />
+                dates
+              </label>
+            </div>
+          </fieldset>
+
+          {hasStart ? (
+            <div className="rounded-md border border-border bg-muted/40 p-3">
+              <p className="flex items-center text-sm font-medium text-foreground">
+                <Repeat className="h-4 w-4 mr-2 text-muted-foreground" />
+                {describeRecurrence(value, start)}
+              </p>
+              <p className="mt-2 text-xs text-muted-foreground">
+                Next dates - click a date to skip it, or click a skipped date to restore it.
+              </p>
+              <ul className="mt-2 flex flex-wrap gap-2">
+                {previewDates.map(date => {
+                  const isSkipped = skipped.has(date.toDateString());
+                  return (
+                    <li key={date.getTime()}>
+                      <button
+                        type="button"
+                        onClick={() => toggleException(date)}
+                        aria-pressed={isSkipped}
+                        disabled={disabled}
+                        title={isSkipped ? 'Skipped - click to restore' : 'Click to skip this date'}
+                        className={`px-2 py-1 text-xs rounded border transition-colors ${
+                          isSkipped
+                            ? 'border-border text-muted-foreground line-through'
+                            : 'border-border bg-background text-foreground hover:bg-accent'
+                        }`}
+                      >
+                        {date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+              {exceptions.length > 0 && (
+                <p className="mt-2 text-xs text-muted-foreground">
+                  {exceptions.length} {exceptions.length === 1 ? 'date' : 'dates'} skipped
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">Choose the event date to preview the series.</p>
+          )}
+        </>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -1,10 +1,19 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { X, ArrowLeft, Loader2 } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { X, ArrowLeft, Loader2, MailCheck } from 'lucide-react';
 import { apiService } from '../api';
 import { ApiResponseHandler, ValidationError, FormValidationHelper } from '../types';
 import type { RegisterUserRequest } from '../contracts';
 import type { AppUser } from '../models';
+import { buildLoginUrl, getSafeReturnUrl } from '../utils/redirectUtils';
+import { envConfig } from '../utils/envConfig';
+import { checkPassword, getPasswordError } from '../utils/passwordPolicy';
+import { usePasswordPolicy } from '../hooks';
+import { ResendVerificationButton } from './ResendVerificationButton';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
+
+// Matches the backend's cooldown between verification emails
+const VERIFICATION_EMAIL_COOLDOWN_SECONDS = 60;
 
 interface RegisterPageProps {
   onRegisterSuccess?: (user: AppUser) => void;
@@ -22,7 +31,14 @@ export function RegisterPage({ onRegisterSuccess }: RegisterPageProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  // Set once registered when the account still has to be verified by email
+  const [pendingVerificationEmail, setPendingVerificationEmail] = useState<string | null>(null);
+  const passwordPolicy = usePasswordPolicy();
+  const passwordCheck = checkPassword(formData.password, passwordPolicy, { email: formData.email, userName: formData.userName });
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Hand the page the user came from on to login
+  const loginUrl = buildLoginUrl(getSafeReturnUrl(searchParams));
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -52,8 +68,11 @@ export function RegisterPage({ onRegisterSuccess }: RegisterPageProps) {
       return;
     }
 
-    if (password.length < 8) {
-      setError('Password must be at least 8 characters long');
+    // Same rules as the checklist under the password field
+    const passwordError = getPasswordError(passwordCheck);
+    if (passwordError) {
+      setFieldErrors({ password: passwordError });
+      setError('Please correct the errors below');
       return;
     }
 
@@ -88,9 +107,15 @@ export function RegisterPage({ onRegisterSuccess }: RegisterPageProps) {
       // Handle successful registration
       onRegisterSuccess?.(user);
       
+      if (registerData.emailVerificationRequired) {
+        // Login is refused until the emailed link is opened
+        setPendingVerificationEmail(registerData.email);
+        return;
+      }
+
       // Show success message and redirect to login or home
       alert('Registration successful! Please log in with your new account.');
-      navigate('/login');
+      navigate(loginUrl);
       
     } catch (error) {
       console.error('Registration error:', error);
@@ -100,6 +125,9 @@ export function RegisterPage({ onRegisterSuccess }: RegisterPageProps) {
         const formErrors = FormValidationHelper.extractFieldErrors(error.response);
         setFieldErrors(formErrors);
         setError('Please correct the errors below');
+      } else if (ApiResponseHandler.isTransientError(error)) {
+        // Network failures and timeouts get a friendlier message than the raw fetch error
+        setError(ApiResponseHandler.getUserMessage(error));
       } else if (error instanceof Error) {
         setError(error.message);
       } else {
@@ -114,6 +142,38 @@ export function RegisterPage({ onRegisterSuccess }: RegisterPageProps) {
                      formData.password.trim() !== '' && 
                      formData.userName.trim() !== '';
 
+  if (pendingVerificationEmail) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-6 text-center">
+          <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-primary/10">
+            <MailCheck className="h-6 w-6 text-primary" />
+          </div>
+          <h2 className="text-3xl font-extrabold text-foreground">Check your inbox</h2>
+          <p className="text-sm text-muted-foreground">
+            We sent a verification link to <strong>{pendingVerificationEmail}</strong>.
+            Open it to activate your account, then sign in.
+          </p>
+          {envConfig.useMockApi && (
+            <p className="text-xs text-muted-foreground bg-accent rounded-md p-3">
+              Demo mode: emails are not sent. Open the browser console to find the verification link.
+            </p>
+          )}
+          <ResendVerificationButton
+            email={pendingVerificationEmail}
+            initialCooldownSeconds={VERIFICATION_EMAIL_COOLDOWN_SECONDS}
+          />
+          <button
+            onClick={() => navigate(loginUrl)}
+            className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-primary-foreground bg-primary hover:bg-primary/90 transition-colors"
+          >
+            Go to sign in
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -125,7 +185,7 @@ export function RegisterPage({ onRegisterSuccess }: RegisterPageProps) {
           <p className="mt-2 text-center text-sm text-muted-foreground">
             Or{' '}
             <button
-              onClick={() => navigate('/login')}
+              onClick={() => navigate(loginUrl)}
               className="font-medium text-primary hover:text-primary/80 transition-colors"
             >
               sign in to your existing account
@@ -198,14 +258,13 @@ export function RegisterPage({ onRegisterSuccess }: RegisterPageProps) {
                 className={`appearance-none relative block w-full px-3 py-2 border ${
                   fieldErrors.password ? 'border-destructive' : 'border-border'
                 } placeholder-muted-foreground text-foreground rounded-md focus:outline-none focus:ring-ring focus:border-ring focus:z-10 sm:text-sm`}
-                placeholder="Create a password (min. 8 characters)"
+                placeholder="Create a password"
+                aria-describedby="password-requirements"
               />
               {fieldErrors.password && (
                 <p className="mt-1 text-sm text-destructive">{fieldErrors.password}</p>
               )}
-              <p className="mt-1 text-xs text-muted-foreground">
-                Password must be at least 8 characters long
-              </p>
+              <PasswordStrengthMeter id="password-requirements" check={passwordCheck} password={formData.password} />
             </div>
 
             {/* First Name Input */}
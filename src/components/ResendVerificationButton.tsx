@@ -0,0 +1,85 @@
+import { useState, useEffect } from 'react';
+import { Loader2, MailCheck } from 'lucide-react';
+import { apiService } from '../api';
+import { ApiError, ApiResponseHandler } from '../types';
+import type { ResendVerificationData } from '../contracts';
+
+interface ResendVerificationButtonProps {
+  email: string;
+  initialCooldownSeconds?: number; // e.g. right after registration, when an email was just sent
+}
+
+// The backend answers 429 with the remaining cooldown when asked too often
+function getRetryAfterSeconds(error: unknown): number | null {
+  if (error instanceof ApiError && error.status === 429) {
+    const value = error.response?.value as Partial<ResendVerificationData> | null | undefined;
+    return typeof value?.cooldownSeconds === 'number' ? value.cooldownSeconds : null;
+  }
+  return null;
+}
+
+export function ResendVerificationButton({ email, initialCooldownSeconds = 0 }: ResendVerificationButtonProps) {
+  const [cooldown, setCooldown] = useState(initialCooldownSeconds);
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState('');
+
+  // Count the cooldown down once per second
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timeoutId = setTimeout(() => setCooldown(seconds => seconds - 1), 1000);
+    return () => clearTimeout(timeoutId);
+  }, [cooldown]);
+
+  const handleResend = async () => {
+    setLoading(true);
+    setError('');
+    setSent(false);
+
+    try {
+      const response = await apiService.resendVerification({ email: email.trim() });
+      console.log('Resend verification response:', response);
+      const data = ApiResponseHandler.handleResponse(response);
+      setCooldown(data.cooldownSeconds);
+      setSent(true);
+    } catch (error) {
+      console.error('Resend verification error:', error);
+      const retryAfter = getRetryAfterSeconds(error);
+      if (retryAfter !== null) {
+        setCooldown(retryAfter);
+      }
+      setError(ApiResponseHandler.getUserMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <button
+        type="button"
+        onClick={handleResend}
+        disabled={loading || cooldown > 0 || !email.trim()}
+        className="w-full flex justify-center items-center py-2 px-4 border border-border text-sm font-medium rounded-md text-foreground bg-background hover:bg-accent disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {loading ? (
+          <>
+            <Loader2 className="animate-spin -ml-1 mr-3 h-4 w-4" />
+            Sending...
+          </>
+        ) : cooldown > 0 ? (
+          `Resend verification email (${cooldown}s)`
+        ) : (
+          'Resend verification email'
+        )}
+      </button>
+      {sent && (
+        <p className="flex items-center justify-center text-sm text-primary">
+          <MailCheck className="h-4 w-4 mr-1" />
+          A new verification link is on its way.
+        </p>
+      )}
+      {error && <p className="text-sm text-destructive text-center">{error}</p>}
+    </div>
+  );
+}
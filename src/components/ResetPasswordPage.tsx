@@ -0,0 +1,297 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { X, Loader2, CheckCircle, AlertTriangle } from 'lucide-react';
+import { apiService } from '../api';
+import { ApiError, ApiResponseHandler, ValidationError, FormValidationHelper } from '../types';
+import type { ResetTokenInfo } from '../contracts';
+import { usePasswordPolicy } from '../hooks';
+import { checkPassword, getPasswordError } from '../utils/passwordPolicy';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
+
+// validating -> ready -> done, or a link that can't be used (invalid/expired)
+type LinkStatus = 'validating' | 'ready' | 'invalid' | 'expired' | 'error' | 'done';
+
+// The backend answers 410 for expired links and 400 for unknown or used ones
+function getLinkStatus(error: unknown): LinkStatus {
+  if (error instanceof ApiError && !(error instanceof ValidationError)) {
+    if (error.status === 410) return 'expired';
+    if (error.status === 400 || error.status === 404) return 'invalid';
+  }
+  return 'error';
+}
+
+export function ResetPasswordPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+
+  const [status, setStatus] = useState<LinkStatus>(token ? 'validating' : 'invalid');
+  const [tokenInfo, setTokenInfo] = useState<ResetTokenInfo | null>(null);
+  const [validationAttempt, setValidationAttempt] = useState(0);
+  const [formData, setFormData] = useState({ newPassword: '', confirmPassword: '' });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const passwordPolicy = usePasswordPolicy();
+  const passwordCheck = checkPassword(formData.newPassword, passwordPolicy, { email: tokenInfo?.email });
+
+  // Check the link before asking for a new password
+  useEffect(() => {
+    if (!token) return;
+
+    const controller = new AbortController();
+    apiService.validateResetToken({ token }, controller.signal)
+      .then(response => {
+        setTokenInfo(ApiResponseHandler.handleResponse(response));
+        setStatus('ready');
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error('Reset link validation failed:', error);
+        setError(ApiResponseHandler.getUserMessage(error));
+        setStatus(getLinkStatus(error));
+      });
+
+    return () => controller.abort();
+  }, [token, validationAttempt]);
+
+  // The link may expire while the page is open
+  useEffect(() => {
+    if (status !== 'ready' || !tokenInfo) return;
+
+    const timeUntilExpiry = new Date(tokenInfo.expiresAt).getTime() - Date.now();
+    const timeoutId = setTimeout(() => setStatus('expired'), Math.max(0, timeUntilExpiry));
+    return () => clearTimeout(timeoutId);
+  }, [status, tokenInfo]);
+
+  const retryValidation = () => {
+    setError('');
+    setStatus('validating');
+    setValidationAttempt(attempt => attempt + 1);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }));
+
+    // Clear errors when user starts typing
+    if (error) setError('');
+    if (fieldErrors[name.toLowerCase()]) {
+      setFieldErrors(prev => ({
+        ...prev,
+        [name.toLowerCase()]: ''
+      }));
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const errors: Record<string, string> = {};
+
+    const passwordError = getPasswordError(passwordCheck);
+    if (passwordError) {
+      errors.newpassword = passwordError;
+    }
+    if (formData.confirmPassword !== formData.newPassword) {
+      errors.confirmpassword = 'Passwords do not match';
+    }
+
+    setFieldErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) return;
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await apiService.resetPassword({ token, newPassword: formData.newPassword });
+      console.log('Password reset response:', response);
+      setStatus('done');
+    } catch (error) {
+      console.error('Password reset error:', error);
+
+      if (error instanceof ValidationError) {
+        // Field names come back as "NewPassword" and are lower-cased by the helper
+        setFieldErrors(FormValidationHelper.extractFieldErrors(error.response));
+        setError('Please correct the errors below');
+        return;
+      }
+
+      const linkStatus = getLinkStatus(error);
+      if (linkStatus === 'expired' || linkStatus === 'invalid') {
+        setStatus(linkStatus);
+      }
+      setError(ApiResponseHandler.getUserMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderMessage = (icon: React.ReactNode, title: string, message: string, action: React.ReactNode) => (
+    <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6 text-center">
+        <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-primary/10">
+          {icon}
+        </div>
+        <h2 className="text-3xl font-extrabold text-foreground">{title}</h2>
+        <p className="text-sm text-muted-foreground">{message}</p>
+        {action}
+      </div>
+    </div>
+  );
+
+  const primaryButtonClasses = "w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-primary-foreground bg-primary hover:bg-primary/90 transition-colors";
+
+  if (status === 'validating') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <Loader2 className="animate-spin h-10 w-10 text-primary mx-auto" />
+          <p className="mt-4 text-muted-foreground">Checking your reset link...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (status === 'done') {
+    return renderMessage(
+      <CheckCircle className="h-6 w-6 text-primary" />,
+      'Password updated',
+      'Your password has been reset and you have been signed out everywhere. Sign in with your new password.',
+      <button onClick={() => navigate('/login')} className={primaryButtonClasses}>Go to sign in</button>
+    );
+  }
+
+  if (status === 'expired' || status === 'invalid') {
+    return renderMessage(
+      <AlertTriangle className="h-6 w-6 text-destructive" />,
+      status === 'expired' ? 'Reset link expired' : 'Reset link not valid',
+      status === 'expired'
+        ? 'For your security, password reset links are only valid for a limited time. Request a new one to continue.'
+        : 'This link is invalid or has already been used. Request a new one to reset your password.',
+      <button
+        onClick={() => navigate('/forgot-password', { state: { email: tokenInfo?.email } })}
+        className={primaryButtonClasses}
+      >
+        Request a new link
+      </button>
+    );
+  }
+
+  if (status === 'error') {
+    return renderMessage(
+      <AlertTriangle className="h-6 w-6 text-destructive" />,
+      'Could not check your link',
+      error || 'Something went wrong. Please try again.',
+      <button onClick={retryValidation} className={primaryButtonClasses}>Try again</button>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        {/* Header */}
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-foreground">
+            Choose a new password
+          </h2>
+          {tokenInfo && (
+            <p className="mt-2 text-center text-sm text-muted-foreground">
+              For <strong>{tokenInfo.email}</strong>. This link expires at{' '}
+              {new Date(tokenInfo.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.
+            </p>
+          )}
+        </div>
+
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit} noValidate>
+          <div className="rounded-md shadow-sm space-y-4">
+            {/* New Password Input */}
+            <div>
+              <label htmlFor="newPassword" className="block text-sm font-medium text-foreground mb-1">
+                New password
+              </label>
+              <input
+                id="newPassword"
+                name="newPassword"
+                type="password"
+                autoComplete="new-password"
+                required
+                autoFocus
+                value={formData.newPassword}
+                onChange={handleInputChange}
+                aria-describedby="newPassword-requirements"
+                className={`appearance-none relative block w-full px-3 py-2 border ${
+                  fieldErrors.newpassword ? 'border-destructive' : 'border-border'
+                } placeholder-muted-foreground text-foreground bg-background rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:border-ring focus:z-10 sm:text-sm`}
+                placeholder="Choose a new password"
+              />
+              {fieldErrors.newpassword && (
+                <p className="mt-1 text-sm text-destructive">{fieldErrors.newpassword}</p>
+              )}
+              <PasswordStrengthMeter id="newPassword-requirements" check={passwordCheck} password={formData.newPassword} />
+            </div>
+
+            {/* Confirm Password Input */}
+            <div>
+              <label htmlFor="confirmPassword" className="block text-sm font-medium text-foreground mb-1">
+                Confirm new password
+              </label>
+              <input
+                id="confirmPassword"
+                name="confirmPassword"
+                type="password"
+                autoComplete="new-password"
+                required
+                value={formData.confirmPassword}
+                onChange={handleInputChange}
+                className={`appearance-none relative block w-full px-3 py-2 border ${
+                  fieldErrors.confirmpassword ? 'border-destructive' : 'border-border'
+                } placeholder-muted-foreground text-foreground bg-background rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:border-ring focus:z-10 sm:text-sm`}
+                placeholder="Repeat the new password"
+              />
+              {fieldErrors.confirmpassword && (
+                <p className="mt-1 text-sm text-destructive">{fieldErrors.confirmpassword}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="bg-destructive/10 border border-destructive/20 rounded-md p-3">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <X className="h-5 w-5 text-destructive" />
+                </div>
+                <div className="ml-3">
+                  <p className="text-sm text-destructive">{error}</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Submit Button */}
+          <button
+            type="submit"
+            disabled={!formData.newPassword || !formData.confirmPassword || loading}
+            className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-primary-foreground bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-ring disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {loading ? (
+              <div className="flex items-center">
+                <Loader2 className="animate-spin -ml-1 mr-3 h-5 w-5 text-primary-foreground" />
+                Resetting password...
+              </div>
+            ) : (
+              'Reset password'
+            )}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
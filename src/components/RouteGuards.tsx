@@ -0,0 +1,75 @@
+// Route wrappers that keep guests and users without the needed capability out of protected pages
+
+import type { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { buildLoginUrl, getLocationPath } from '../utils/redirectUtils';
+import type { Permission } from '../utils/permissions';
+import { ForbiddenPage } from './ForbiddenPage';
+import { useAuth } from '../hooks/useAuth';
+
+interface RequireAuthProps {
+  children: ReactNode;
+}
+
+interface RequireCapabilityProps {
+  perform: Permission;
+  children: ReactNode;
+}
+
+// Shown instead of the page until we know whether the session could be restored
+function SessionLoading() {
+  return (
+    <div className="min-h-[60vh] flex items-center justify-center">
+      <div className="text-center">
+        <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        <p className="mt-4 text-gray-600">Loading...</p>
+      </div>
+    </div>
+  );
+}
+
+// Send guests to login, remembering the page they tried to open
+function RedirectToLogin() {
+  const location = useLocation();
+  return <Navigate to={buildLoginUrl(getLocationPath(location))} replace />;
+}
+
+/**
+ * Only render children for logged-in users
+ */
+export function RequireAuth({ children }: RequireAuthProps) {
+  const { isLoggedIn, isLoading } = useAuth();
+
+  if (isLoading) {
+    return <SessionLoading />;
+  }
+
+  if (!isLoggedIn) {
+    return <RedirectToLogin />;
+  }
+
+  return <>{children}</>;
+}
+
+/**
+ * Only render children for logged-in users with the given capability
+ * Guests are sent to login; logged-in users without the capability get a 403 page
+ */
+export function RequireCapability({ perform, children }: RequireCapabilityProps) {
+  const { user, isLoading, can } = useAuth();
+
+  if (isLoading) {
+    return <SessionLoading />;
+  }
+
+  if (!user) {
+    return <RedirectToLogin />;
+  }
+
+  if (!can(perform)) {
+    console.log(`Access denied: ${perform} capability required`);
+    return <ForbiddenPage />;
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,50 @@
+// Shown when the session was ended by the server, e.g. revoked from another device
+
+import { LogOut } from 'lucide-react';
+import { buildLoginUrl, getLocationPath } from '../utils/redirectUtils';
+
+interface SessionEndedDialogProps {
+  message: string;
+  onClose: () => void;
+}
+
+export function SessionEndedDialog({ message, onClose }: SessionEndedDialogProps) {
+  // Rendered by AuthProvider outside the router, so link with a plain URL
+  const loginUrl = buildLoginUrl(getLocationPath(window.location));
+
+  return (
+    <div
+      className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50"
+      role="alertdialog"
+      aria-modal="true"
+      aria-labelledby="session-ended-title"
+    >
+      <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+        <div className="mt-3 text-center">
+          <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-red-100">
+            <LogOut className="h-6 w-6 text-red-600" />
+          </div>
+          <h3 id="session-ended-title" className="text-lg font-medium text-gray-900 mt-4">You have been signed out</h3>
+          <div className="mt-2 px-7 py-3">
+            <p className="text-sm text-gray-500">{message}</p>
+          </div>
+          <div className="flex justify-center space-x-3 pt-4">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Close
+            </button>
+            <a
+              href={loginUrl}
+              autoFocus
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Sign in again
+            </a>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Loader2, CheckCircle, AlertTriangle } from 'lucide-react';
+import { apiService } from '../api';
+import { ApiError, ApiResponseHandler, ValidationError } from '../types';
+import { ResendVerificationButton } from './ResendVerificationButton';
+
+type VerificationStatus = 'verifying' | 'success' | 'invalid' | 'expired' | 'error';
+
+// The backend answers 410 for expired links and 400 for unknown or used ones
+function getVerificationStatus(error: unknown): VerificationStatus {
+  if (error instanceof ApiError && !(error instanceof ValidationError)) {
+    if (error.status === 410) return 'expired';
+    if (error.status === 400 || error.status === 404) return 'invalid';
+  }
+  return 'error';
+}
+
+export function VerifyEmailPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+
+  const [status, setStatus] = useState<VerificationStatus>(token ? 'verifying' : 'invalid');
+  const [attempt, setAttempt] = useState(0);
+  const [error, setError] = useState('');
+  // The link doesn't tell us whose it is, so ask for the address to send a new one to
+  const [email, setEmail] = useState('');
+  // Links are single-use: send each attempt once, even when StrictMode runs the effect twice
+  const submittedAttempt = useRef<string | null>(null);
+
+  useEffect(() => {
+    const attemptKey = `${token}:${attempt}`;
+    if (!token || submittedAttempt.current === attemptKey) return;
+    submittedAttempt.current = attemptKey;
+
+    apiService.verifyEmail({ token })
+      .then(response => {
+        console.log('Verify email response:', response);
+        setStatus('success');
+      })
+      .catch(error => {
+        console.error('Email verification failed:', error);
+        setError(ApiResponseHandler.getUserMessage(error));
+        setStatus(getVerificationStatus(error));
+      });
+  }, [token, attempt]);
+
+  const retry = () => {
+    setError('');
+    setStatus('verifying');
+    setAttempt(value => value + 1);
+  };
+
+  const primaryButtonClasses = "w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-primary-foreground bg-primary hover:bg-primary/90 transition-colors";
+
+  const renderMessage = (icon: React.ReactNode, title: string, message: string, action: React.ReactNode) => (
+    <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6 text-center">
+        <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-primary/10">
+          {icon}
+        </div>
+        <h2 className="text-3xl font-extrabold text-foreground">{title}</h2>
+        <p className="text-sm text-muted-foreground">{message}</p>
+        {action}
+      </div>
+    </div>
+  );
+
+  if (status === 'verifying') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <Loader2 className="animate-spin h-10 w-10 text-primary mx-auto" />
+          <p className="mt-4 text-muted-foreground">Verifying your email address...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (status === 'success') {
+    return renderMessage(
+      <CheckCircle className="h-6 w-6 text-primary" />,
+      'Email verified',
+      'Thanks for confirming your email address. Your account is ready to use.',
+      <button onClick={() => navigate('/login')} className={primaryButtonClasses}>Go to sign in</button>
+    );
+  }
+
+  if (status === 'error') {
+    return renderMessage(
+      <AlertTriangle className="h-6 w-6 text-destructive" />,
+      'Could not verify your email',
+      error || 'Something went wrong. Please try again.',
+      <button onClick={retry} className={primaryButtonClasses}>Try again</button>
+    );
+  }
+
+  return renderMessage(
+    <AlertTriangle className="h-6 w-6 text-destructive" />,
+    status === 'expired' ? 'Verification link expired' : 'Verification link not valid',
+    status === 'expired'
+      ? 'Verification links are only valid for 24 hours. Enter your email address to get a new one.'
+      : 'This link is invalid or has already been used. If your account is not verified yet, enter your email address to get a new link.',
+    <div className="space-y-4 text-left">
+      <div>
+        <label htmlFor="email" className="block text-sm font-medium text-foreground mb-1">
+          Email address
+        </label>
+        <input
+          id="email"
+          name="email"
+          type="email"
+          autoComplete="email"
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          className="appearance-none relative block w-full px-3 py-2 border border-border placeholder-muted-foreground text-foreground bg-background rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:border-ring sm:text-sm"
+          placeholder="Enter your email"
+        />
+      </div>
+      <ResendVerificationButton email={email} />
+      <button onClick={() => navigate('/login')} className={primaryButtonClasses}>Go to sign in</button>
+    </div>
+  );
+}
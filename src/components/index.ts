@@ -8,3 +8,19 @@ export { EventDetailPage } from './EventDetailPage';
 export { CreateEventPage } from './CreateEventPage';
 export { EditEventPage } from './EditEventPage';
 export { MyRegistrationsPage } from './MyRegistrationsPage';
+export { ForgotPasswordPage } from './ForgotPasswordPage';
+export { ResetPasswordPage } from './ResetPasswordPage';
+export { VerifyEmailPage } from './VerifyEmailPage';
+export { ResendVerificationButton } from './ResendVerificationButton';
+export { PasswordStrengthMeter } from './PasswordStrengthMeter';
+export { RecurrenceEditor } from './RecurrenceEditor';
+export { MfaChallengeForm } from './MfaChallengeForm';
+export { InvitationsPage } from './InvitationsPage';
+export { AcceptInvitePage } from './AcceptInvitePage';
+export { AccountPage } from './AccountPage';
+export { AuthCallbackPage } from './AuthCallbackPage';
+export { IdleTimeoutDialog } from './IdleTimeoutDialog';
+export { SessionEndedDialog } from './SessionEndedDialog';
+export { ForbiddenPage } from './ForbiddenPage';
+export { RequireAuth, RequireCapability } from './RouteGuards';
+export { Can } from './Can';
@@ -0,0 +1,24 @@
+import { createContext } from 'react';
+import type { AppUser } from '../models';
+import type { Credentials } from '../contracts/response/AuthenticationResponses';
+import type { Permission, PermissionResource } from '../utils/permissions';
+
+// Profile fields the user can edit on the account page
+export type UserProfileChanges = Partial<Pick<AppUser, 'email' | 'userName' | 'firstName' | 'lastName' | 'phoneNumber'>>;
+
+export interface AuthContextValue {
+  user: AppUser | null;
+  role: string | null;
+  isLoggedIn: boolean;
+  isLoading: boolean; // Session restore from the refresh token is still running
+  isAdmin: boolean;
+  hasRole: (role: string) => boolean;
+  capabilities: ReadonlySet<string>;
+  can: (permission: Permission, resource?: PermissionResource) => boolean;
+  login: (credentials: Credentials) => AppUser | null; // Start a session from the credentials returned by the login endpoint
+  logout: () => Promise<void>;
+  updateUser: (changes: UserProfileChanges) => void; // Apply saved profile edits before the next token refresh carries them
+}
+
+// Provided by AuthProvider; read it through the useAuth hook
+export const AuthContext = createContext<AuthContextValue | null>(null);
@@ -0,0 +1,280 @@
+import { useState, useEffect, useCallback, useMemo, type ReactNode } from 'react';
+import { apiService, queryCache } from '../api';
+import type { AppUser } from '../models';
+import type { Credentials } from '../contracts/response/AuthenticationResponses';
+import { IdleTimeoutDialog } from '../components/IdleTimeoutDialog';
+import { SessionEndedDialog } from '../components/SessionEndedDialog';
+import { ApiResponseHandler, SessionRevokedError, type ApiError } from '../types';
+import { decodeJwtToAppUser } from '../utils/jwtUtils';
+import { userUtils } from '../utils/domainUtils';
+import { can, getCapabilities, type Permission, type PermissionResource } from '../utils/permissions';
+import { tokenRefreshService, sessionSyncService, idleTimeoutService } from '../services';
+import { AuthContext, type AuthContextValue, type UserProfileChanges } from './AuthContext';
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * AuthProvider - Owns the session for the whole app
+ * - Restores the session from the stored refresh token on load
+ * - Login and logout, including starting/stopping token refresh, tab sync and idle timeout
+ * Components read it through useAuth() instead of receiving the user as props.
+ */
+export function AuthProvider({ children }: AuthProviderProps) {
+  // Authentication state management
+  const [isLoggedIn, setIsLoggedIn] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [currentUser, setCurrentUser] = useState<AppUser | null>(null);
+  const [idleWarningSeconds, setIdleWarningSeconds] = useState<number | null>(null);
+  // Why the server ended the session, shown once the user has been logged out
+  const [sessionEndedMessage, setSessionEndedMessage] = useState<string | null>(null);
+
+  // Clear everything this tab knows about the session
+  const clearLocalSession = useCallback(() => {
+    setIsLoggedIn(false);
+    setCurrentUser(null);
+    
+    // Stop automatic token refresh service
+    tokenRefreshService.stop();
+    
+    // Clear all tokens
+    apiService.clearAllTokens();
+
+    // Drop cached data so nothing user-specific survives into the next session
+    queryCache.clear();
+  }, [setIsLoggedIn, setCurrentUser]);
+
+  // SIMPLIFIED: Use ApiService
+  const handleLogout = useCallback(async () => {
+    try {
+      // Call the logout endpoint to invalidate tokens on the server
+      await apiService.logout();
+      console.log('Logout request sent to server');
+    } catch (error) {
+      console.error('Error during logout request:', error);
+      // Continue with local logout even if server request fails
+    }
+    
+    clearLocalSession();
+
+    // Log out the other open tabs as well
+    sessionSyncService.broadcastLogout();
+    
+    console.log('User logged out and all tokens cleared');
+  }, [clearLocalSession]);
+
+  // Forced logout; a revoked session gets an explanation instead of silently landing on the login page
+  const handleSessionEnded = useCallback((reason?: ApiError) => {
+    handleLogout();
+    if (reason instanceof SessionRevokedError) {
+      setSessionEndedMessage(ApiResponseHandler.getUserMessage(reason));
+    }
+  }, [handleLogout]);
+
+  // Let ApiService log the user out when a 401 cannot be recovered by a token refresh
+  useEffect(() => {
+    apiService.setUnauthorizedHandler((reason) => {
+      console.log('Session could not be refreshed after a 401, logging out user');
+      handleSessionEnded(reason);
+    });
+
+    return () => {
+      apiService.setUnauthorizedHandler(undefined);
+    };
+  }, [handleSessionEnded]);
+
+  // Start automatic token refresh for the current session
+  const startTokenRefresh = useCallback(() => {
+    tokenRefreshService.start(
+      // On successful token refresh, update current user
+      (refreshedUser: AppUser) => {
+        setCurrentUser(refreshedUser);
+        console.log('Token refreshed automatically, user updated:', refreshedUser);
+      },
+      // On token refresh failure, logout user
+      (reason) => {
+        console.log('Token refresh failed, logging out user');
+        handleSessionEnded(reason);
+      }
+    );
+  }, [setCurrentUser, handleSessionEnded]);
+
+  // NEW: Keep login, logout and refreshed tokens in sync with the other open tabs
+  useEffect(() => {
+    sessionSyncService.start({
+      onRemoteLogin: (user) => {
+        console.log('Logged in from another tab:', user);
+        setCurrentUser(user);
+        setIsLoggedIn(true);
+        startTokenRefresh();
+      },
+      onRemoteLogout: () => {
+        console.log('Logged out from another tab');
+        clearLocalSession();
+      },
+      onRemoteTokensRefreshed: (user) => {
+        console.log('Tokens refreshed by another tab, user updated:', user);
+        setCurrentUser(user);
+      },
+    });
+
+    return () => sessionSyncService.stop();
+  }, [setCurrentUser, setIsLoggedIn, startTokenRefresh, clearLocalSession]);
+
+  // NEW: Log out after a period of inactivity, with a warning countdown first
+  useEffect(() => {
+    if (!isLoggedIn) return;
+
+    idleTimeoutService.start({
+      onWarning: (remainingMs) => setIdleWarningSeconds(Math.ceil(remainingMs / 1000)),
+      onActive: () => setIdleWarningSeconds(null),
+      onTimeout: () => {
+        console.log('User was idle for too long, logging out');
+        setIdleWarningSeconds(null);
+        handleLogout();
+      },
+    });
+
+    return () => idleTimeoutService.stop();
+  }, [isLoggedIn, handleLogout]);
+
+  const handleStaySignedIn = () => {
+    idleTimeoutService.stayActive();
+    setIdleWarningSeconds(null);
+  };
+
+  const handleIdleLogout = () => {
+    setIdleWarningSeconds(null);
+    handleLogout();
+  };
+
+  // SIMPLIFIED: Use ApiService for all token operations
+  const attemptTokenRefresh = useCallback(async (): Promise<boolean> => {
+    try {
+      // Reuse the session of an open tab instead of rotating the shared refresh token
+      let credentials = await sessionSyncService.requestCredentials();
+      if (credentials) {
+        console.log('Credentials received from another tab');
+        apiService.setTokens(credentials.authToken, credentials.refreshToken, credentials.authTokenExp, credentials.refreshTokenExp);
+      } else {
+        credentials = await apiService.refreshTokens();
+      }
+      
+      if (credentials) {
+        const user = decodeJwtToAppUser(credentials.authToken);
+        if (user) {
+          setCurrentUser(user);
+          setIsLoggedIn(true);
+          
+          // Start automatic token refresh service for existing sessions
+          startTokenRefresh();
+          
+          console.log('Token refresh successful, user logged in');
+          return true;
+        }
+      }
+      
+      console.log('Token refresh failed or invalid user data');
+      return false;
+    } catch (error) {
+      console.error('Error during token refresh:', error);
+      if (error instanceof SessionRevokedError) {
+        setSessionEndedMessage(ApiResponseHandler.getUserMessage(error));
+      }
+      return false;
+    }
+  }, [setCurrentUser, setIsLoggedIn, startTokenRefresh]);
+
+  // Check for existing authentication on app load
+  useEffect(() => {
+    const initializeAuth = async () => {
+      setIsLoading(true);
+      console.log('Checking for stored authentication...');
+
+      // Wait for ApiService to load tokens from the configured token store
+      await apiService.ready;
+      
+      // Check if we have a refresh token
+      const refreshToken = apiService.getRefreshToken();
+      
+      if (refreshToken) {
+        console.log('Refresh token found, attempting to refresh credentials');
+        const success = await attemptTokenRefresh();
+        
+        if (!success) {
+          console.log('Could not refresh tokens, continuing as guest');
+        }
+      } else {
+        console.log('No refresh token found, continuing as guest');
+      }
+      
+      setIsLoading(false);
+    };
+
+    initializeAuth();
+  }, [attemptTokenRefresh]);
+
+  // Start a session from the credentials returned by the login endpoint
+  const login = useCallback((credentials: Credentials): AppUser | null => {
+    const user = decodeJwtToAppUser(credentials.authToken);
+    if (!user) {
+      console.error('Login returned an auth token that could not be decoded');
+      return null;
+    }
+
+    // Use ApiService for all token management
+    apiService.setTokens(credentials.authToken, credentials.refreshToken, credentials.authTokenExp, credentials.refreshTokenExp);
+    setIsLoggedIn(true);
+    setCurrentUser(user);
+
+    // Log in the other open tabs as well
+    sessionSyncService.broadcastLogin(credentials);
+    
+    // Start automatic token refresh service
+    startTokenRefresh();
+    
+    console.log('User logged in:', user);
+    return user;
+  }, [setIsLoggedIn, setCurrentUser, startTokenRefresh]);
+
+  // The token keeps the old claims until it is refreshed, so merge the saved profile in directly
+  const updateUser = useCallback((changes: UserProfileChanges) => {
+    setCurrentUser(prev => (prev ? { ...prev, ...changes } : prev));
+  }, [setCurrentUser]);
+
+  const value = useMemo<AuthContextValue>(() => ({
+    user: currentUser,
+    role: currentUser?.userRole ?? null,
+    isLoggedIn,
+    isLoading,
+    isAdmin: !!currentUser && userUtils.isAdmin(currentUser),
+    hasRole: (role: string) => !!currentUser && userUtils.hasRole(currentUser, role),
+    capabilities: getCapabilities(currentUser),
+    can: (permission: Permission, resource?: PermissionResource) => can(currentUser, permission, resource),
+    login,
+    logout: handleLogout,
+    updateUser,
+  }), [currentUser, isLoggedIn, isLoading, login, handleLogout, updateUser]);
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+
+      {isLoggedIn && idleWarningSeconds !== null && (
+        <IdleTimeoutDialog
+          remainingSeconds={idleWarningSeconds}
+          onStaySignedIn={handleStaySignedIn}
+          onLogout={handleIdleLogout}
+        />
+      )}
+
+      {sessionEndedMessage && (
+        <SessionEndedDialog
+          message={sessionEndedMessage}
+          onClose={() => setSessionEndedMessage(null)}
+        />
+      )}
+    </AuthContext.Provider>
+  );
+}
@@ -0,0 +1,4 @@
+// Export all contexts
+export { AuthContext } from './AuthContext';
+export type { AuthContextValue, UserProfileChanges } from './AuthContext';
+export { AuthProvider } from './AuthProvider';
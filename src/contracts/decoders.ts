@@ -0,0 +1,153 @@
+// Runtime decoders for API contracts
+// The response interfaces are compile-time only; these check the JSON actually received.
+
+import { envConfig } from '../utils/envConfig';
+import { ContractViolationError, type ApiRequestInfo } from '../types';
+
+export interface DecodeContext {
+  strict: boolean; // Unknown object fields are violations instead of being ignored
+}
+
+export type Decoder<T> = (value: unknown, path: string, context: DecodeContext) => T;
+
+// Internal failure, turned into a ContractViolationError by decodeResponse
+class DecodeFailure extends Error {
+  path: string;
+  expected: string;
+  received: string;
+
+  constructor(path: string, expected: string, received: string) {
+    super(`${path}: expected ${expected}, received ${received}`);
+    this.name = 'DecodeFailure';
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value.length > 40 ? `${value.slice(0, 40)}...` : value}"`;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return typeof value === 'object' ? 'an object' : typeof value;
+}
+
+function primitive<T>(expected: string, guard: (value: unknown) => value is T): Decoder<T> {
+  return (value, path) => {
+    if (!guard(value)) {
+      throw new DecodeFailure(path, expected, describe(value));
+    }
+    return value;
+  };
+}
+
+// Primitive decoders
+export const string = primitive('a string', (value): value is string => typeof value === 'string');
+export const number = primitive('a number', (value): value is number => typeof value === 'number' && !isNaN(value));
+export const boolean = primitive('a boolean', (value): value is boolean => typeof value === 'boolean');
+
+// ISO 8601 date string (kept as a string, like the interfaces declare it)
+export const isoDate = primitive(
+  'an ISO 8601 date string',
+  (value): value is string => typeof value === 'string' && !isNaN(new Date(value).getTime())
+);
+
+// One of a fixed set of strings, for union types like 'Pending' | 'Accepted'
+export function oneOf<T extends string>(...values: T[]): Decoder<T> {
+  return primitive(
+    `one of ${values.map(v => `"${v}"`).join(', ')}`,
+    (value): value is T => typeof value === 'string' && (values as string[]).includes(value)
+  );
+}
+
+export function nullable<T>(decoder: Decoder<T>): Decoder<T | null> {
+  return (value, path, context) => (value === null ? null : decoder(value, path, context));
+}
+
+// For interface fields declared with "?" (missing and undefined are both accepted)
+export function optional<T>(decoder: Decoder<T>): Decoder<T | undefined> {
+  return (value, path, context) => (value === undefined ? undefined : decoder(value, path, context));
+}
+
+export function array<T>(decoder: Decoder<T>): Decoder<T[]> {
+  return (value, path, context) => {
+    if (!Array.isArray(value)) {
+      throw new DecodeFailure(path, 'an array', describe(value));
+    }
+    value.forEach((item, index) => decoder(item, `${path}[${index}]`, context));
+    return value as T[];
+  };
+}
+
+// Object with arbitrary keys, e.g. validation errors keyed by field name
+export function record<T>(decoder: Decoder<T>): Decoder<Record<string, T>> {
+  return (value, path, context) => {
+    if (!isPlainObject(value)) {
+      throw new DecodeFailure(path, 'an object', describe(value));
+    }
+    Object.entries(value).forEach(([key, item]) => decoder(item, `${path}.${key}`, context));
+    return value as Record<string, T>;
+  };
+}
+
+type DecodedShape<S> = { [K in keyof S]: S[K] extends Decoder<infer T> ? T : never };
+
+export function object<S extends Record<string, Decoder<unknown>>>(shape: S): Decoder<DecodedShape<S>> {
+  return (value, path, context) => {
+    if (!isPlainObject(value)) {
+      throw new DecodeFailure(path, 'an object', describe(value));
+    }
+
+    Object.entries(shape).forEach(([key, decoder]) => decoder(value[key], `${path}.${key}`, context));
+
+    if (context.strict) {
+      const unknownKey = Object.keys(value).find(key => !(key in shape));
+      if (unknownKey) {
+        throw new DecodeFailure(`${path}.${unknownKey}`, 'absent (unknown field)', describe(value[unknownKey]));
+      }
+    }
+
+    // Values are returned as received so lenient mode keeps extra fields
+    return value as DecodedShape<S>;
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Dev-only console report with everything needed to update the contract
+function reportViolation(error: ContractViolationError, data: unknown) {
+  console.group(`[Contract] ${error.request?.method ?? ''} ${error.request?.endpoint ?? ''} violated its response contract`);
+  console.error(`${error.path} should be ${error.expected} but was ${error.received}`);
+  console.log('Validation mode:', envConfig.contractValidation);
+  console.log('Response body:', data);
+  console.groupEnd();
+}
+
+/**
+ * Decode a response body, throwing ContractViolationError when it does not match
+ */
+export function decodeResponse<T>(
+  decoder: Decoder<T>,
+  data: unknown,
+  status: number,
+  request?: ApiRequestInfo
+): T {
+  if (envConfig.contractValidation === 'off') {
+    return data as T;
+  }
+
+  try {
+    return decoder(data, 'response', { strict: envConfig.contractValidation === 'strict' });
+  } catch (error) {
+    if (!(error instanceof DecodeFailure)) throw error;
+
+    const violation = new ContractViolationError(error.path, error.expected, error.received, status, request);
+    if (envConfig.isDevelopment) {
+      reportViolation(violation, data);
+    }
+    throw violation;
+  }
+}
@@ -1,9 +1,17 @@
 // Export all request interfaces
+export * from "./request/AccountRequests";
 export * from "./request/AuthenticationRequests";
 export * from "./request/EventRegistrationRequests";
 export * from "./request/EventRequests";
+export * from "./request/InvitationRequests";
 
 // Export all response interfaces
+export * from "./response/AccountResponses";
 export * from "./response/AuthenticationResponses";
 export * from "./response/EventRegistrationResponses";
 export * from "./response/EventResponses";
+export * from "./response/InvitationResponses";
+
+// Export runtime decoders for response contracts
+export * from "./decoders";
+export * from "./response/ResponseDecoders";
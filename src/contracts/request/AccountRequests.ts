@@ -0,0 +1,33 @@
+// Account settings request interfaces (the signed-in user's own account)
+
+export interface UpdateProfileRequest {
+  userName: string;
+  firstName: string;
+  lastName: string;
+  phoneNumber: string;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+// Confirms enrollment with a code generated from the secret returned by setup
+export interface EnableMfaRequest {
+  code: string;
+}
+
+export interface DisableMfaRequest {
+  currentPassword: string;
+}
+
+// Replaces every unused recovery code
+export interface RegenerateRecoveryCodesRequest {
+  currentPassword: string;
+}
+
+// The new address only replaces the current one once its verification link is opened
+export interface ChangeEmailRequest {
+  newEmail: string;
+  currentPassword: string;
+}
@@ -5,6 +5,23 @@ export interface LoginRequest {
   password: string;
 }
 
+// Second login step, after login answered MfaRequired
+export interface VerifyMfaRequest {
+  challengeId: string; // From the MfaRequired login response
+  code: string; // 6-digit code from the authenticator app
+}
+
+// Fallback for a lost authenticator; each recovery code works once
+export interface VerifyRecoveryCodeRequest {
+  challengeId: string;
+  recoveryCode: string;
+}
+
+// Single sign-on: exchanges the identity provider's ID token for app credentials
+export interface SsoLoginRequest {
+  idToken: string; // From the IdP token endpoint, after the client checked state and nonce
+}
+
 export interface RefreshRequest {
   refreshToken: string;
 }
@@ -18,7 +35,9 @@ export interface RegisterUserRequest {
   phoneNumber?: string;
 }
 
+// Completes an invitation; the email must match the invited address
 export interface RegisterAdminRequest {
+  invitationToken: string; // From the ?token= query string of the invitation link
   email: string;
   password: string;
   firstName?: string;
@@ -26,3 +45,25 @@ export interface RegisterAdminRequest {
   userName: string;
   phoneNumber?: string;
 }
+
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+// Check a reset link before asking for the new password
+export interface ValidateResetTokenRequest {
+  token: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string; // From the ?token= query string of the emailed link
+  newPassword: string;
+}
+
+export interface VerifyEmailRequest {
+  token: string; // From the ?token= query string of the emailed link
+}
+
+export interface ResendVerificationRequest {
+  email: string;
+}
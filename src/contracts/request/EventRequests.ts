@@ -8,14 +8,27 @@ export interface CreateEventRequest {
   type: string;
   capacity: number;
   registrationCutoffDate: string; // ISO 8601 date string
+  recurrenceRule?: string | null; // RRULE value; omit or null for a one-off event
+  recurrenceExceptions?: string[]; // Skipped occurrence start times (ISO 8601)
 }
 
 export interface UpdateEventRequest {
   title: string;
   description?: string;
-  eventDate: string; // ISO 8601 date string
+  eventDate: string; // ISO 8601 date string; for a series, its first date
   location: string;
   type: string;
   capacity: number;
   registrationCutoffDate: string; // ISO 8601 date string
+  recurrenceRule?: string | null; // RRULE value; null turns a series into a one-off event
+  recurrenceExceptions?: string[]; // Skipped occurrence start times (ISO 8601)
+}
+
+// Edit one date of a series: it is removed from the series and saved as its own event
+export interface UpdateEventOccurrenceRequest extends Omit<UpdateEventRequest, 'recurrenceRule' | 'recurrenceExceptions'> {
+  occurrenceDate: string; // The series date being replaced (ISO 8601)
+}
+
+export interface GetEventsByIdsRequest {
+  eventIds: string[];
 }
@@ -0,0 +1,11 @@
+// Invitation request interfaces
+
+export interface CreateInvitationRequest {
+  email: string;
+  role: string;
+}
+
+// Check an invitation link before showing the registration form
+export interface ValidateInvitationRequest {
+  token: string; // From the ?token= query string of the emailed link
+}
@@ -0,0 +1,53 @@
+// Account settings response interfaces
+
+import type { ApiResponse } from '../../types';
+
+// The signed-in user's profile, including fields the auth token doesn't carry
+export interface UserProfile {
+  userId: string;
+  email: string;
+  userName: string;
+  firstName: string;
+  lastName: string;
+  phoneNumber: string;
+  userRole: string;
+  avatarUrl: string | null;
+  pendingEmail: string | null; // New address waiting for its verification link to be opened
+  mfaEnabled: boolean; // Login asks for an authenticator code
+  recoveryCodesRemaining: number; // Unused recovery codes, 0 while MFA is off
+}
+
+// Authenticator enrollment, not active until confirmed with a code
+export interface MfaSetup {
+  secret: string; // Base32, for manual entry
+  otpauthUri: string; // otpauth://totp/... for the QR code
+}
+
+// Shown once; only their count can be read back later
+export interface MfaRecoveryCodes {
+  recoveryCodes: string[];
+}
+
+// A signed-in device: one refresh token family, from login until logout or revocation
+export interface UserSession {
+  id: string;
+  browser: string; // e.g. "Chrome on Windows", derived from the User-Agent at login
+  locationLabel: string; // Approximate, e.g. "Berlin, Germany"
+  createdAt: string; // First seen (login)
+  lastRefreshedAt: string; // Last token refresh
+  isCurrent: boolean; // The session making the request
+}
+
+export type GetProfileResponse = ApiResponse<UserProfile>;
+export type UpdateProfileResponse = ApiResponse<UserProfile>;
+export type ChangePasswordResponse = ApiResponse<null>;
+export type ChangeEmailResponse = ApiResponse<UserProfile>;
+export type UploadAvatarResponse = ApiResponse<UserProfile>;
+export type DeleteAvatarResponse = ApiResponse<UserProfile>;
+export type SetupMfaResponse = ApiResponse<MfaSetup>;
+export type EnableMfaResponse = ApiResponse<MfaRecoveryCodes>;
+export type DisableMfaResponse = ApiResponse<UserProfile>;
+export type RegenerateRecoveryCodesResponse = ApiResponse<MfaRecoveryCodes>;
+export type GetSessionsResponse = ApiResponse<UserSession[]>;
+export type RevokeSessionResponse = ApiResponse<null>;
+export type RevokeAllSessionsResponse = ApiResponse<null>;
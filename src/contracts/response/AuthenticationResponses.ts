@@ -9,6 +9,12 @@ export interface Credentials {
   refreshTokenExp: string; // Refresh token expiration timestamp (ISO string)
 }
 
+// Sent with a 403 MfaRequired login response: the password was right, a second factor is needed
+export interface MfaChallenge {
+  challengeId: string; // Pass to verify-mfa or the recovery endpoint
+  expiresAt: string; // The password has to be entered again after this (ISO string)
+}
+
 // Registration response data structure (returns user info)
 export interface RegisterData {
   userId: string;
@@ -19,9 +25,41 @@ export interface RegisterData {
   userRole: string;
   phoneNumber: string;
   token?: string; // Optional token for auto-login after registration
+  emailVerificationRequired?: boolean; // A verification link was emailed; login is refused until it is opened
+}
+
+// Resend-verification result
+export interface ResendVerificationData {
+  cooldownSeconds: number; // Wait at least this long before asking for another email
+}
+
+// Password reset link details (returned while the link is still valid)
+export interface ResetTokenInfo {
+  email: string; // Account the link belongs to
+  expiresAt: string; // Link expiration timestamp (ISO string)
+}
+
+// Rules a new password has to meet; the backend enforces the same policy
+export interface PasswordPolicy {
+  minLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  blockCommonPasswords: boolean; // Reject well-known passwords like "password123"
+  blockPersonalInfo: boolean; // Reject passwords containing the email name or username
 }
 
 // Standardized response types
 export type LoginResponse = ApiResponse<Credentials>;
 export type RegisterResponse = ApiResponse<RegisterData>;
+export type SsoLoginResponse = ApiResponse<Credentials>;
+export type VerifyMfaResponse = ApiResponse<Credentials>;
+export type VerifyRecoveryCodeResponse = ApiResponse<Credentials>;
 export type RefreshResponse = ApiResponse<Credentials>;
+export type ForgotPasswordResponse = ApiResponse<null>; // Always succeeds so the response does not reveal which emails exist
+export type ValidateResetTokenResponse = ApiResponse<ResetTokenInfo>;
+export type ResetPasswordResponse = ApiResponse<null>;
+export type VerifyEmailResponse = ApiResponse<null>;
+export type ResendVerificationResponse = ApiResponse<ResendVerificationData>;
+export type GetPasswordPolicyResponse = ApiResponse<PasswordPolicy>;
@@ -5,6 +5,8 @@ import type { Event } from "../../models/Event";
 // Standardized response types using generics
 export type CreateEventResponse = ApiResponse<Event>;
 export type UpdateEventResponse = ApiResponse<Event>;
+export type UpdateEventOccurrenceResponse = ApiResponse<Event>; // The new stand-alone event
 export type DeleteEventResponse = ApiResponse<null>;
 export type GetEventResponse = ApiResponse<Event>;
 export type GetAllEventsResponse = ApiResponse<Event[]>;
+export type GetEventsByIdsResponse = ApiResponse<Event[]>; // Events that were not found are omitted
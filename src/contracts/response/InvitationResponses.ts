@@ -0,0 +1,16 @@
+// Invitation response interfaces
+
+import type { Invitation } from '../../models';
+import type { ApiResponse } from '../../types';
+
+// Invitation details shown on the accept page (returned while the link is still valid)
+export interface InvitationInfo {
+  email: string; // Locked on the registration form
+  role: string;
+  invitedBy: string;
+  expiresAt: string; // Link expiration timestamp (ISO string)
+}
+
+export type GetInvitationsResponse = ApiResponse<Invitation[]>;
+export type CreateInvitationResponse = ApiResponse<Invitation>;
+export type ValidateInvitationResponse = ApiResponse<InvitationInfo>;
@@ -0,0 +1,169 @@
+// Runtime decoders for the response interfaces
+import type { ApiResponse } from '../../types';
+import type { Event } from '../../models/Event';
+import type { EventRegistration } from '../../models/EventRegistration';
+import type { Invitation } from '../../models/Invitation';
+import type { MfaRecoveryCodes, MfaSetup, UserProfile, UserSession } from './AccountResponses';
+import type { Credentials, MfaChallenge, PasswordPolicy, ResendVerificationData, ResetTokenInfo } from './AuthenticationResponses';
+import type { GetEventsExtendedResponse, PaginatedResult } from './GetEventsExtendedResponse';
+import type { InvitationInfo } from './InvitationResponses';
+import {
+  array,
+  boolean,
+  isoDate,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  string,
+  type Decoder,
+} from '../decoders';
+
+// Standard envelope around every response value
+export function apiResponseDecoder<T>(valueDecoder: Decoder<T>): Decoder<ApiResponse<T>> {
+  return object({
+    isSuccess: boolean,
+    message: nullable(string),
+    status: number,
+    error: nullable(string),
+    value: nullable(valueDecoder),
+    code: optional(nullable(string)),
+  });
+}
+
+export const credentialsDecoder: Decoder<Credentials> = object({
+  authToken: string,
+  refreshToken: string,
+  authTokenExp: isoDate,
+  refreshTokenExp: isoDate,
+});
+
+export const mfaChallengeDecoder: Decoder<MfaChallenge> = object({
+  challengeId: string,
+  expiresAt: isoDate,
+});
+
+export const resetTokenInfoDecoder: Decoder<ResetTokenInfo> = object({
+  email: string,
+  expiresAt: isoDate,
+});
+
+export const resendVerificationDataDecoder: Decoder<ResendVerificationData> = object({
+  cooldownSeconds: number,
+});
+
+export const passwordPolicyDecoder: Decoder<PasswordPolicy> = object({
+  minLength: number,
+  requireLowercase: boolean,
+  requireUppercase: boolean,
+  requireDigit: boolean,
+  requireSymbol: boolean,
+  blockCommonPasswords: boolean,
+  blockPersonalInfo: boolean,
+});
+
+export const invitationDecoder: Decoder<Invitation> = object({
+  id: string,
+  email: string,
+  role: string,
+  status: oneOf('Pending', 'Accepted', 'Expired'),
+  invitedBy: string,
+  createdAt: isoDate,
+  expiresAt: isoDate,
+  acceptedAt: nullable(isoDate),
+});
+
+export const invitationInfoDecoder: Decoder<InvitationInfo> = object({
+  email: string,
+  role: string,
+  invitedBy: string,
+  expiresAt: isoDate,
+});
+
+export const userProfileDecoder: Decoder<UserProfile> = object({
+  userId: string,
+  email: string,
+  userName: string,
+  firstName: string,
+  lastName: string,
+  phoneNumber: string,
+  userRole: string,
+  avatarUrl: nullable(string),
+  pendingEmail: nullable(string),
+  mfaEnabled: boolean,
+  recoveryCodesRemaining: number,
+});
+
+export const mfaSetupDecoder: Decoder<MfaSetup> = object({
+  secret: string,
+  otpauthUri: string,
+});
+
+export const mfaRecoveryCodesDecoder: Decoder<MfaRecoveryCodes> = object({
+  recoveryCodes: array(string),
+});
+
+export const userSessionDecoder: Decoder<UserSession> = object({
+  id: string,
+  browser: string,
+  locationLabel: string,
+  createdAt: isoDate,
+  lastRefreshedAt: isoDate,
+  isCurrent: boolean,
+});
+
+export const eventDecoder: Decoder<Event> = object({
+  id: string,
+  adminId: string,
+  title: string,
+  description: string,
+  eventDate: isoDate,
+  location: string,
+  type: string,
+  capacity: number,
+  isOpenForRegistration: boolean,
+  registrationCutoffDate: isoDate,
+  noOfRegistrations: number,
+  imageUrl: optional(nullable(string)),
+  registeredIds: optional(array(string)),
+  owner: optional(string),
+  recurrenceRule: optional(nullable(string)),
+  recurrenceExceptions: optional(array(isoDate)),
+  seriesId: optional(nullable(string)),
+  originalOccurrenceDate: optional(nullable(isoDate)),
+});
+
+export const eventRegistrationDecoder: Decoder<EventRegistration> = object({
+  id: string,
+  eventId: string,
+  userId: string,
+  name: string,
+  email: string,
+  phone: string,
+  registeredAt: isoDate,
+  isCanceled: boolean,
+});
+
+export function paginatedResultDecoder<T>(itemDecoder: Decoder<T>): Decoder<PaginatedResult<T>> {
+  return object({
+    items: array(itemDecoder),
+    totalCount: number,
+    pageNumber: number,
+    itemsPerPage: number,
+    totalPages: number,
+    hasPreviousPage: boolean,
+    hasNextPage: boolean,
+  });
+}
+
+// GetSorted uses its own envelope (statusCode/statusText/errors)
+export const getEventsExtendedResponseDecoder: Decoder<GetEventsExtendedResponse> = object({
+  isSuccess: boolean,
+  message: string,
+  value: paginatedResultDecoder(eventDecoder),
+  statusCode: number,
+  statusText: string,
+  errors: nullable(record(array(string))),
+});
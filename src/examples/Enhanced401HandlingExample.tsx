@@ -1,4 +1,4 @@
-// Enhanced API Usage Example with Infinite Loop Protection Demo
+// Enhanced API Usage Example with transparent 401 recovery demo
 import { useState } from 'react';
 import { apiService } from '../api';
 import { apiUtils } from '../utils/domainUtils';
@@ -14,15 +14,14 @@ export const Enhanced401HandlingExample = () => {
     setLogs(prev => [...prev.slice(-9), `${new Date().toLocaleTimeString()}: ${message}`]);
   };
 
-  // Test case 1: Normal API call with token refresh
+  // Test case 1: Normal API call - a 401 is recovered inside ApiService.request
   const testNormalCall = async () => {
     setLoading(true);
     setError(null);
     addLog('Testing normal API call...');
 
     const { data, error: apiError } = await apiUtils.handleApiResponse(
-      () => apiService.getAllEvents(),
-      'getAllEvents' // Request identifier for tracking
+      () => apiService.getAllEvents()
     );
 
     if (data?.value) {
@@ -36,44 +35,32 @@ export const Enhanced401HandlingExample = () => {
     setLoading(false);
   };
 
-  // Test case 2: Simulate insufficient permissions (would cause infinite loop without protection)
-  const testInsufficientPermissions = async () => {
+  // Test case 2: Concurrent calls after the auth token expired share one refresh
+  const testConcurrentCalls = async () => {
     setLoading(true);
     setError(null);
-    addLog('Testing insufficient permissions scenario...');
+    addLog('Expiring auth token and firing 3 concurrent requests...');
 
-    // Simulate a call that would return 401 due to insufficient permissions
-    const { data, error: apiError } = await apiUtils.handleApiResponse(
-      async () => {
-        // This simulates an admin-only endpoint that regular user tries to access
-        addLog('Attempting admin-only operation...');
-        throw new Error('401: Insufficient permissions for admin operation');
-      },
-      'adminOperation' // Request identifier for tracking
-    );
+    // Simulate an expired/invalid access token while keeping the refresh token
+    apiService.setAuthToken('expired-token');
 
-    if (data) {
-      addLog('✅ Unexpected success');
+    const results = await Promise.all([
+      apiUtils.handleApiResponse(() => apiService.getAllEvents()),
+      apiUtils.handleApiResponse(() => apiService.getEventTypes()),
+      apiUtils.handleApiResponse(() => apiService.getAllEvents()),
+    ]);
+
+    const failures = results.filter(result => result.error);
+    if (failures.length === 0) {
+      addLog('✅ All requests replayed after a single shared token refresh');
     } else {
-      setError(apiError || 'Failed');
-      addLog(`🛡️ Protected: ${apiError}`);
+      setError(failures[0].error);
+      addLog(`❌ ${failures.length} request(s) failed: ${failures[0].error}`);
     }
 
     setLoading(false);
   };
 
-  // Test case 3: Show retry tracking stats
-  const showRetryStats = () => {
-    const stats = apiUtils.getRetryStats();
-    addLog(`📊 Retry Stats: ${stats.activeRetries} active, tracking: [${stats.trackedRequests.join(', ')}]`);
-  };
-
-  // Clear retry tracker
-  const clearRetryTracker = () => {
-    apiUtils.clearRetryTracker();
-    addLog('🧹 Retry tracker cleared');
-  };
-
   // Clear logs
   const clearLogs = () => {
     setLogs([]);
@@ -86,10 +73,10 @@ export const Enhanced401HandlingExample = () => {
       <div className="bg-blue-50 p-4 rounded-lg mb-6">
         <h3 className="font-semibold text-blue-800 mb-2">🛡️ Protection Features:</h3>
         <ul className="text-sm text-blue-700 space-y-1">
-          <li>• <strong>Single Retry Limit:</strong> Maximum 1 retry per request</li>
-          <li>• <strong>Time-based Protection:</strong> 5-minute cooldown between retries</li>
-          <li>• <strong>Permission Detection:</strong> Distinguishes expired tokens from insufficient permissions</li>
-          <li>• <strong>Request Tracking:</strong> Prevents duplicate retries for same request</li>
+          <li>• <strong>Single Replay:</strong> A request is replayed at most once after a 401</li>
+          <li>• <strong>Shared Refresh:</strong> Concurrent 401s wait for one refresh call</li>
+          <li>• <strong>Permission Detection:</strong> A 401 after a successful refresh is returned to the caller</li>
+          <li>• <strong>Forced Logout:</strong> The app is only logged out when the refresh itself fails</li>
         </ul>
       </div>
 
@@ -106,25 +93,11 @@ export const Enhanced401HandlingExample = () => {
             </button>
 
             <button
-              onClick={testInsufficientPermissions}
+              onClick={testConcurrentCalls}
               disabled={loading}
               className="w-full px-4 py-2 bg-yellow-500 text-white rounded hover:bg-yellow-600 disabled:opacity-50"
             >
-              {loading ? 'Testing...' : '🛡️ Test Insufficient Permissions'}
-            </button>
-
-            <button
-              onClick={showRetryStats}
-              className="w-full px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
-            >
-              📊 Show Retry Stats
-            </button>
-
-            <button
-              onClick={clearRetryTracker}
-              className="w-full px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600"
-            >
-              🧹 Clear Retry Tracker
+              {loading ? 'Testing...' : '🔁 Test Concurrent 401 Recovery'}
             </button>
 
             <button
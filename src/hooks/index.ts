@@ -0,0 +1,5 @@
+// Export all hooks
+export * from './useQuery';
+export * from './useEventQueries';
+export * from './useAuth';
+export * from './usePasswordPolicy';
@@ -0,0 +1,14 @@
+import { useContext } from 'react';
+import { AuthContext, type AuthContextValue } from '../contexts/AuthContext';
+
+/**
+ * Current session: the user, their role, capability checks and login/logout
+ * Must be used inside AuthProvider
+ */
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,34 @@
+// Cached event hooks built on the query cache
+
+import { useQuery } from './useQuery';
+import { eventFetchers, eventQueryKeys, eventQueryOptions } from '../api/eventQueries';
+import type { GetEventsExtendedRequest } from '../contracts/request/GetEventsExtendedRequest';
+
+/**
+ * A single event by id (served from the list cache first when available)
+ */
+export function useEvent(eventId: string | undefined) {
+  return useQuery(
+    eventId ? eventQueryKeys.detail(eventId) : null,
+    eventFetchers.detail(eventId ?? ''),
+    eventQueryOptions.detail
+  );
+}
+
+/**
+ * One page of the GetSorted search; each distinct request is cached separately
+ */
+export function useEventsPage(request: GetEventsExtendedRequest | null) {
+  return useQuery(
+    request ? eventQueryKeys.page(request) : null,
+    eventFetchers.page(request ?? { itemsPerPage: 1, pageNumber: 1 }),
+    eventQueryOptions.page
+  );
+}
+
+/**
+ * All event types (long stale time, shared by list, calendar and forms)
+ */
+export function useEventTypes() {
+  return useQuery(eventQueryKeys.types(), eventFetchers.types, eventQueryOptions.types);
+}
@@ -0,0 +1,23 @@
+// Password policy from the backend, cached for every form that sets a password
+
+import { useQuery } from './useQuery';
+import { apiService } from '../api/ApiService';
+import { ApiResponseHandler } from '../types';
+import type { PasswordPolicy } from '../contracts/response/AuthenticationResponses';
+import { defaultPasswordPolicy } from '../utils/passwordPolicy';
+
+const passwordPolicyKey = ['password-policy'] as const;
+
+const fetchPasswordPolicy = async (signal: AbortSignal): Promise<PasswordPolicy> => {
+  const response = await apiService.getPasswordPolicy(signal);
+  return ApiResponseHandler.handleResponse(response);
+};
+
+/**
+ * The policy new passwords are checked against
+ * Falls back to the envConfig policy while loading or when the backend has no policy endpoint
+ */
+export function usePasswordPolicy(): PasswordPolicy {
+  const { data } = useQuery(passwordPolicyKey, fetchPasswordPolicy, { staleTime: 30 * 60 * 1000 });
+  return data ?? defaultPasswordPolicy;
+}
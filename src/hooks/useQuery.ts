@@ -0,0 +1,73 @@
+// React binding for the query cache
+
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { queryCache, QueryCache, IDLE_QUERY_STATE } from '../api/QueryCache';
+import type { QueryFetcher, QueryKey, QueryOptions, QueryState } from '../api/QueryCache';
+
+export interface QueryResult<T> {
+  data: T | undefined;
+  error: unknown;
+  isLoading: boolean; // No data yet and a request is running
+  isFetching: boolean; // Any request is running, including background revalidation
+  refetch: () => Promise<T | undefined>;
+}
+
+const noopUnsubscribe = () => {};
+
+/**
+ * Subscribe a component to a cached query
+ * Pass a null key to skip the query (e.g. while a route param is missing)
+ */
+export function useQuery<T>(
+  key: QueryKey | null,
+  fetcher: QueryFetcher<T>,
+  options: QueryOptions = {}
+): QueryResult<T> {
+  const hash = key ? QueryCache.hashKey(key) : null;
+
+  // Key rebuilt from its hash so it only changes identity when its content does
+  const stableKey = useMemo(() => (hash ? JSON.parse(hash) as QueryKey : null), [hash]);
+
+  // Keep the latest fetcher/options without re-subscribing on every render
+  const latest = useRef({ fetcher, options });
+  useEffect(() => {
+    latest.current = { fetcher, options };
+  });
+
+  const subscribe = useCallback((onStoreChange: () => void) => {
+    return stableKey ? queryCache.subscribe(stableKey, onStoreChange) : noopUnsubscribe;
+  }, [stableKey]);
+
+  const getSnapshot = useCallback((): QueryState<T> => {
+    return stableKey ? queryCache.getState<T>(stableKey) : IDLE_QUERY_STATE;
+  }, [stableKey]);
+
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  // Fetch on mount, when the key changes and whenever the key is invalidated
+  useEffect(() => {
+    if (!stableKey) return;
+
+    const { fetcher: currentFetcher, options: currentOptions } = latest.current;
+    queryCache.fetch(stableKey, currentFetcher, currentOptions).catch(() => {
+      // The error is exposed through the query state
+    });
+  }, [stableKey, state.isInvalidated]);
+
+  const refetch = useCallback(async () => {
+    if (!stableKey) return undefined;
+
+    const { fetcher: currentFetcher, options: currentOptions } = latest.current;
+    queryCache.invalidate(stableKey);
+    // Errors are exposed through the query state like any other fetch
+    return queryCache.fetch(stableKey, currentFetcher, currentOptions).catch(() => undefined);
+  }, [stableKey]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    isLoading: !!stableKey && state.updatedAt === 0 && !state.error,
+    isFetching: state.isFetching,
+    refetch,
+  };
+}
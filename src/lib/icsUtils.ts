@@ -1,6 +1,7 @@
 // ICS (iCalendar) utility functions for generating calendar files
 import { createEvent, type EventAttributes } from 'ics';
 import type { Event, EventRegistration } from '../models';
+import { describeRecurrence, formatRRule, parseRRule, toICalLocalDateTime } from './recurrenceUtils';
 
 /**
  * Generates an ICS calendar file content for an event with optional registration details
@@ -12,6 +13,7 @@ export const generateEventICS = (event: Event, registration?: EventRegistration)
   try {
     // Parse event start date
     const startDate = new Date(event.eventDate);
+    const recurrence = parseRRule(event.recurrenceRule);
     
     // Calculate end date - assume 2 hours duration since Event model doesn't have endDate
     const endDate = new Date(startDate.getTime() + (2 * 60 * 60 * 1000)); // 2 hours default
@@ -30,6 +32,9 @@ export const generateEventICS = (event: Event, registration?: EventRegistration)
     }
     
     description += `\n\nEvent Type: ${event.type || 'Not specified'}`;
+    if (recurrence) {
+      description += `\nRepeats: ${describeRecurrence(recurrence, startDate)}`;
+    }
     description += `\nMax Capacity: ${event.capacity || 'Not specified'}`;
     description += `\nRegistrations: ${event.noOfRegistrations || 0}/${event.capacity}`;
 
@@ -77,6 +82,17 @@ export const generateEventICS = (event: Event, registration?: EventRegistration)
         ],
     };
 
+    // Repeating events are expanded in local time in the app, so the file uses floating local times
+    // for DTSTART, RRULE's UNTIL and EXDATE alike
+    if (recurrence) {
+      eventAttributes.startOutputType = 'local';
+      eventAttributes.endOutputType = 'local';
+      eventAttributes.recurrenceRule = formatRRule(recurrence);
+      if (event.recurrenceExceptions?.length) {
+        eventAttributes.exclusionDates = event.recurrenceExceptions.map(date => toICalLocalDateTime(new Date(date)));
+      }
+    }
+
     // Add attendee information if registration is provided
     if (registration) {
       eventAttributes.attendees = [
@@ -0,0 +1,274 @@
+// Recurrence rules for repeating events (a subset of the iCalendar RRULE, RFC 5545)
+// Supported: FREQ=DAILY|WEEKLY|MONTHLY with INTERVAL, BYDAY (weekly), UNTIL and COUNT.
+// Occurrences are expanded in local time, so "every Tuesday at 19:00" stays at 19:00 across DST changes.
+import type { Event } from '../models';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days, weeks or months
+  byWeekday: Weekday[]; // Weekly only; empty repeats on the start date's weekday
+  until: string | null; // Last day of the series (YYYY-MM-DD, inclusive)
+  count: number | null; // Or the number of occurrences; skipped dates still count, as in RFC 5545
+}
+
+// An event as shown on one date; occurrenceDate is set when the date comes from a recurrence rule
+export interface EventOccurrence extends Event {
+  occurrenceDate: string | null;
+}
+
+// Monday first, the RFC 5545 default week start
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun',
+};
+
+export const MAX_RECURRENCE_COUNT = 365; // Longest series by COUNT the backend accepts
+export const OCCURRENCE_PARAM = 'occurrence'; // Query parameter naming one date of a series
+
+const SUPPORTED_PARTS = new Set(['FREQ', 'INTERVAL', 'BYDAY', 'UNTIL', 'COUNT', 'WKST']);
+const MAX_PERIODS = 10000; // Safety limit for series that never end
+
+// Date.getDay() is Sunday-based; WEEKDAYS is Monday-based
+export const getWeekday = (date: Date): Weekday => WEEKDAYS[(date.getDay() + 6) % 7];
+
+const sortWeekdays = (days: Weekday[]): Weekday[] =>
+  WEEKDAYS.filter(day => days.includes(day));
+
+/**
+ * Parse an RRULE value ("FREQ=WEEKLY;BYDAY=TU,TH;COUNT=10")
+ * Returns null for an empty value and for rules using parts this app does not support
+ */
+export function parseRRule(value: string | null | undefined): RecurrenceRule | null {
+  if (!value) return null;
+
+  const parts = new Map(
+    value.replace(/^RRULE:/i, '').split(';').filter(Boolean).map(part => {
+      const [key, partValue = ''] = part.split('=');
+      return [key.trim().toUpperCase(), partValue.trim().toUpperCase()] as const;
+    })
+  );
+  if ([...parts.keys()].some(key => !SUPPORTED_PARTS.has(key))) return null;
+
+  const frequency = parts.get('FREQ');
+  if (frequency !== 'DAILY' && frequency !== 'WEEKLY' && frequency !== 'MONTHLY') return null;
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+  const count = parts.has('COUNT') ? Number(parts.get('COUNT')) : null;
+  const byWeekday = (parts.get('BYDAY') || '').split(',').filter(Boolean);
+  const untilMatch = parts.has('UNTIL') ? /^(\d{4})(\d{2})(\d{2})/.exec(parts.get('UNTIL')!) : null;
+
+  if (!Number.isInteger(interval) || interval < 1) return null;
+  if (count !== null && (!Number.isInteger(count) || count < 1)) return null;
+  if (byWeekday.some(day => !WEEKDAYS.includes(day as Weekday))) return null;
+  if (byWeekday.length > 0 && frequency !== 'WEEKLY') return null;
+  if (parts.has('UNTIL') && !untilMatch) return null;
+  if (count !== null && untilMatch) return null; // RFC 5545 allows one or the other
+
+  return {
+    frequency,
+    interval,
+    byWeekday: sortWeekdays(byWeekday as Weekday[]),
+    until: untilMatch ? `${untilMatch[1]}-${untilMatch[2]}-${untilMatch[3]}` : null,
+    count,
+  };
+}
+
+/**
+ * Build the RRULE value for a rule
+ * UNTIL is written as floating local time, matching the local DTSTART of exported calendar files
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.frequency === 'WEEKLY' && rule.byWeekday.length > 0) parts.push(`BYDAY=${sortWeekdays(rule.byWeekday).join(',')}`);
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.replace(/-/g, '')}T235959`);
+  } else if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  return parts.join(';');
+}
+
+/**
+ * Human readable summary, e.g. "Every 2 weeks on Tue, Thu, until Dec 31, 2026"
+ */
+export function describeRecurrence(rule: RecurrenceRule, start: Date): string {
+  const every = (unit: string) => (rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`);
+
+  let summary: string;
+  if (rule.frequency === 'DAILY') {
+    summary = every('day');
+  } else if (rule.frequency === 'WEEKLY') {
+    const days = rule.byWeekday.length > 0 ? rule.byWeekday : [getWeekday(start)];
+    summary = `${every('week')} on ${days.map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+  } else {
+    summary = `${every('month')} on day ${start.getDate()}`;
+  }
+
+  if (rule.until) {
+    const until = new Date(`${rule.until}T00:00:00`);
+    summary += `, until ${until.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  } else if (rule.count) {
+    summary += rule.count === 1 ? ', once' : `, ${rule.count} times`;
+  }
+  return summary;
+}
+
+// Candidate dates of one period (day, week or month) of the series, in order
+function periodDates(start: Date, rule: RecurrenceRule, period: number): Date[] {
+  const [year, month, day, hours, minutes] = [start.getFullYear(), start.getMonth(), start.getDate(), start.getHours(), start.getMinutes()];
+  const offset = period * rule.interval;
+
+  if (rule.frequency === 'DAILY') {
+    return [new Date(year, month, day + offset, hours, minutes)];
+  }
+
+  if (rule.frequency === 'WEEKLY') {
+    const weekStart = day - WEEKDAYS.indexOf(getWeekday(start)) + offset * 7;
+    const days = rule.byWeekday.length > 0 ? rule.byWeekday : [getWeekday(start)];
+    return days.map(weekday => new Date(year, month, weekStart + WEEKDAYS.indexOf(weekday), hours, minutes));
+  }
+
+  // Months without the start's day (e.g. the 31st) are skipped, as RFC 5545 does
+  const date = new Date(year, month + offset, day, hours, minutes);
+  return date.getDate() === day ? [date] : [];
+}
+
+// Every occurrence of the series in order, including skipped dates
+function* generateOccurrences(start: Date, rule: RecurrenceRule): Generator<Date> {
+  const untilTime = rule.until ? new Date(`${rule.until}T23:59:59`).getTime() : Infinity;
+
+  // The first date is always an occurrence, even on a day the rule skips (DTSTART in RFC 5545)
+  let produced = 1;
+  yield start;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const date of periodDates(start, rule, period)) {
+      if (date <= start) continue; // The first date, and days of the first week before it
+      if (date.getTime() > untilTime) return;
+      if (rule.count !== null && produced >= rule.count) return;
+      produced++;
+      yield date;
+    }
+  }
+}
+
+/**
+ * Start times of an event between rangeStart and rangeEnd (inclusive)
+ * A one-off event has its own date as the only occurrence; skipped dates are left out
+ */
+export function getOccurrenceDates(
+  eventDate: string,
+  rule: RecurrenceRule | null,
+  rangeStart: Date,
+  rangeEnd: Date,
+  options: { exceptions?: string[]; limit?: number } = {}
+): Date[] {
+  const start = new Date(eventDate);
+  if (isNaN(start.getTime())) return [];
+  if (!rule) return start >= rangeStart && start <= rangeEnd ? [start] : [];
+
+  const skipped = new Set((options.exceptions || []).map(date => new Date(date).getTime()));
+  const limit = options.limit ?? Infinity;
+  const dates: Date[] = [];
+
+  for (const date of generateOccurrences(start, rule)) {
+    if (date > rangeEnd || dates.length >= limit) break;
+    if (date >= rangeStart && !skipped.has(date.getTime())) dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Occurrences of a stored event (its RRULE and EXDATE list) in a date range
+ */
+export function getEventOccurrences(
+  event: Pick<Event, 'eventDate' | 'recurrenceRule' | 'recurrenceExceptions'>,
+  rangeStart: Date,
+  rangeEnd: Date,
+  limit?: number
+): Date[] {
+  return getOccurrenceDates(event.eventDate, parseRRule(event.recurrenceRule), rangeStart, rangeEnd, {
+    exceptions: event.recurrenceExceptions,
+    limit,
+  });
+}
+
+/**
+ * Whether a date is one of the event's (not skipped) occurrences
+ */
+export function isEventOccurrence(event: Pick<Event, 'eventDate' | 'recurrenceRule' | 'recurrenceExceptions'>, occurrenceDate: string): boolean {
+  const date = new Date(occurrenceDate);
+  return !isNaN(date.getTime()) && getEventOccurrences(event, date, date, 1).length === 1;
+}
+
+/**
+ * Skipped dates that are still part of the series, e.g. after its first date or rule changed
+ * Skipped days keep their calendar date but move to the series' (possibly new) time of day
+ */
+export function pruneExceptions(eventDate: string, rule: RecurrenceRule, exceptions: string[]): string[] {
+  const start = new Date(eventDate);
+  if (isNaN(start.getTime())) return [];
+
+  return exceptions.flatMap(exception => {
+    const skippedDay = new Date(exception);
+    if (isNaN(skippedDay.getTime())) return [];
+
+    const date = new Date(skippedDay.getFullYear(), skippedDay.getMonth(), skippedDay.getDate(), start.getHours(), start.getMinutes());
+    return getOccurrenceDates(eventDate, rule, date, date, { limit: 1 }).length === 1 ? [date.toISOString()] : [];
+  });
+}
+
+const toOccurrence = (event: Event, date: Date): EventOccurrence => ({
+  ...event,
+  eventDate: date.toISOString(),
+  occurrenceDate: date.toISOString(),
+});
+
+/**
+ * One date of a recurring event, or null when the date is not part of the series
+ * Registration belongs to the series, so only the start time differs from the event
+ */
+export function getEventOccurrence(event: Event, occurrenceDate: string): EventOccurrence | null {
+  if (!parseRRule(event.recurrenceRule) || !isEventOccurrence(event, occurrenceDate)) return null;
+  return toOccurrence(event, new Date(occurrenceDate));
+}
+
+/**
+ * Replace each recurring event by its occurrences in the range (at most maxPerSeries each)
+ * One-off events are passed through unchanged
+ */
+export function expandEventOccurrences(events: Event[], rangeStart: Date, rangeEnd: Date, maxPerSeries?: number): EventOccurrence[] {
+  return events.flatMap(event => {
+    if (!parseRRule(event.recurrenceRule)) return [{ ...event, occurrenceDate: null }];
+    return getEventOccurrences(event, rangeStart, rangeEnd, maxPerSeries).map(date => toOccurrence(event, date));
+  });
+}
+
+/**
+ * Unique key for lists and calendars, where a series appears once per date
+ */
+export function getOccurrenceKey(event: EventOccurrence): string {
+  return event.occurrenceDate ? `${event.id}:${event.occurrenceDate}` : event.id;
+}
+
+/**
+ * Add the occurrence parameter to a link, so the page opens on that date of the series
+ */
+export function withOccurrence(path: string, occurrenceDate: string | null | undefined): string {
+  if (!occurrenceDate) return path;
+  const separator = path.includes('?') ? '&' : '?';
+  return `${path}${separator}${OCCURRENCE_PARAM}=${encodeURIComponent(occurrenceDate)}`;
+}
+
+/**
+ * Floating local date-time for calendar files (YYYYMMDDTHHMMSS, no time zone)
+ */
+export function toICalLocalDateTime(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
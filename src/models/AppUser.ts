@@ -5,7 +5,9 @@ export interface AppUser {
   userName: string;
   firstName: string;
   lastName: string;
-  userRole: string;
+  userRole: string; // Primary role (the first one when the token carries several)
+  roles?: string[]; // All roles from the token
+  permissions?: string[]; // Explicit permission claims from the token, added to the role capabilities
   phoneNumber: string;
   token?: string; // Optional token for authenticated requests
   tokenExpiration?: string; // Optional token expiration for session management
@@ -13,4 +13,8 @@ export interface Event {
   imageUrl?: string | null;
   registeredIds?: string[]; // List of user IDs who have registered for the event
   owner?: string;
+  recurrenceRule?: string | null; // RRULE value for repeating events, e.g. "FREQ=WEEKLY;BYDAY=TU;COUNT=10"
+  recurrenceExceptions?: string[]; // Start times (ISO) of dates removed from the series (EXDATE)
+  seriesId?: string | null; // Set on a date edited on its own: the series it was split from
+  originalOccurrenceDate?: string | null; // The series date it replaces (RECURRENCE-ID)
 }
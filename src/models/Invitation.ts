@@ -0,0 +1,13 @@
+// Invitation for a new organizer (or user) account, created by an admin
+export type InvitationStatus = 'Pending' | 'Accepted' | 'Expired';
+
+export interface Invitation {
+  id: string;
+  email: string; // The account can only be created with this address
+  role: string; // Role the account gets on acceptance
+  status: InvitationStatus;
+  invitedBy: string; // Name of the admin who sent it
+  createdAt: string;
+  expiresAt: string;
+  acceptedAt: string | null;
+}
@@ -2,3 +2,4 @@
 export * from "./AppUser";
 export * from "./Event";
 export * from "./EventRegistration";
+export * from "./Invitation";
@@ -0,0 +1,196 @@
+import { envConfig } from '../utils/envConfig';
+
+export interface IdleTimeoutHandlers {
+  onWarning?: (remainingMs: number) => void; // Called every second during the warning countdown
+  onActive?: () => void; // The user chose to stay signed in (in this or another tab)
+  onTimeout?: () => void; // Idle limit reached, the user should be logged out
+}
+
+// Activity that resets the idle timer
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart', 'scroll'] as const;
+
+const ACTIVITY_STORAGE_KEY = `${envConfig.localStoragePrefix}last_activity`;
+const ACTIVITY_WRITE_THROTTLE = 5000; // Share activity with other tabs at most every 5s
+const CHECK_INTERVAL = 1000;
+
+/**
+ * IdleTimeoutService - Logs out users who walked away (e.g. from a shared kiosk)
+ * - Pointer, keyboard and scroll activity plus the tab becoming visible reset the timer
+ * - Activity is shared through localStorage so working in one tab keeps the others alive
+ * - A warning countdown precedes the timeout; during it only stayActive() resets the timer
+ * TokenRefreshService checks isIdle() so an idle session is not kept alive by refreshes.
+ */
+export class IdleTimeoutService {
+  private static instance: IdleTimeoutService | null = null;
+  private handlers: IdleTimeoutHandlers = {};
+  private isActive: boolean = false;
+  private isWarning: boolean = false;
+  private lastActivity: number = Date.now();
+  private lastActivityWrite: number = 0;
+  private checkInterval: ReturnType<typeof setInterval> | null = null;
+
+  private readonly IDLE_TIMEOUT = envConfig.idleTimeout * 1000;
+  private readonly WARNING_DURATION = Math.min(envConfig.idleWarningDuration * 1000, envConfig.idleTimeout * 1000);
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): IdleTimeoutService {
+    if (!IdleTimeoutService.instance) {
+      IdleTimeoutService.instance = new IdleTimeoutService();
+    }
+    return IdleTimeoutService.instance;
+  }
+
+  /**
+   * Whether the idle logout is configured (VITE_IDLE_TIMEOUT > 0)
+   */
+  isEnabled(): boolean {
+    return this.IDLE_TIMEOUT > 0;
+  }
+
+  /**
+   * Start tracking activity
+   * Call this when user logs in
+   */
+  start(handlers: IdleTimeoutHandlers): void {
+    this.handlers = handlers;
+    if (this.isActive || !this.isEnabled()) return;
+
+    this.isActive = true;
+    this.isWarning = false;
+    this.recordActivity(true);
+
+    ACTIVITY_EVENTS.forEach(eventName => {
+      window.addEventListener(eventName, this.handleActivity, { passive: true });
+    });
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    window.addEventListener('storage', this.handleStorageEvent);
+    this.checkInterval = setInterval(() => this.checkIdle(), CHECK_INTERVAL);
+
+    console.log(`[IdleTimeoutService] Started (timeout: ${envConfig.idleTimeout}s, warning: ${this.WARNING_DURATION / 1000}s)`);
+  }
+
+  /**
+   * Stop tracking activity
+   * Call this when user logs out
+   */
+  stop(): void {
+    if (!this.isActive) return;
+
+    ACTIVITY_EVENTS.forEach(eventName => {
+      window.removeEventListener(eventName, this.handleActivity);
+    });
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    window.removeEventListener('storage', this.handleStorageEvent);
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+
+    this.isActive = false;
+    this.isWarning = false;
+    this.handlers = {};
+    console.log('[IdleTimeoutService] Stopped');
+  }
+
+  /**
+   * Whether the user counts as idle (warning shown or limit reached)
+   */
+  isIdle(): boolean {
+    return this.isActive && (this.isWarning || this.getIdleTime() >= this.IDLE_TIMEOUT - this.WARNING_DURATION);
+  }
+
+  /**
+   * "Stay signed in" - reset the timer and dismiss the warning
+   */
+  stayActive(): void {
+    if (!this.isActive) return;
+    this.recordActivity(true);
+    this.endWarning();
+  }
+
+  private getIdleTime(): number {
+    return Date.now() - this.lastActivity;
+  }
+
+  private handleActivity = () => {
+    // Once the warning is up, only the explicit "Stay signed in" counts
+    if (this.isWarning) return;
+    this.recordActivity(false);
+  };
+
+  private handleVisibilityChange = () => {
+    if (document.visibilityState !== 'visible') return;
+
+    // Timers are throttled in hidden tabs, so check before counting the return as activity
+    this.checkIdle();
+    if (this.isActive && !this.isWarning) {
+      this.recordActivity(false);
+    }
+  };
+
+  // Activity or "Stay signed in" in another tab
+  private handleStorageEvent = (event: StorageEvent) => {
+    if (event.key !== ACTIVITY_STORAGE_KEY || !event.newValue) return;
+
+    const timestamp = parseInt(event.newValue);
+    if (timestamp > this.lastActivity) {
+      this.lastActivity = timestamp;
+      if (this.isWarning) {
+        this.endWarning();
+      }
+    }
+  };
+
+  private recordActivity(forceShare: boolean): void {
+    const now = Date.now();
+    this.lastActivity = now;
+
+    if (forceShare || now - this.lastActivityWrite >= ACTIVITY_WRITE_THROTTLE) {
+      this.lastActivityWrite = now;
+      localStorage.setItem(ACTIVITY_STORAGE_KEY, String(now));
+    }
+  }
+
+  private endWarning(): void {
+    if (!this.isWarning) return;
+    this.isWarning = false;
+    console.log('[IdleTimeoutService] User is active again');
+    this.handlers.onActive?.();
+  }
+
+  private checkIdle(): void {
+    if (!this.isActive) return;
+
+    // Another tab may have seen activity that the storage event did not deliver (e.g. while hidden)
+    const sharedActivity = parseInt(localStorage.getItem(ACTIVITY_STORAGE_KEY) || '0');
+    if (sharedActivity > this.lastActivity) {
+      this.lastActivity = sharedActivity;
+      this.endWarning();
+    }
+
+    const remaining = this.IDLE_TIMEOUT - this.getIdleTime();
+
+    if (remaining <= 0) {
+      console.log('[IdleTimeoutService] Idle limit reached, logging out');
+      const onTimeout = this.handlers.onTimeout;
+      this.stop();
+      onTimeout?.();
+      return;
+    }
+
+    if (remaining <= this.WARNING_DURATION) {
+      if (!this.isWarning) {
+        this.isWarning = true;
+        console.log(`[IdleTimeoutService] User idle, showing warning (${Math.ceil(remaining / 1000)}s left)`);
+      }
+      this.handlers.onWarning?.(remaining);
+    }
+  }
+}
+
+// Export singleton instance for easy use
+export const idleTimeoutService = IdleTimeoutService.getInstance();
@@ -0,0 +1,268 @@
+import { envConfig } from '../utils/envConfig';
+
+// Discovery document fields the client needs
+interface OidcMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+// Kept in sessionStorage while the browser is away at the identity provider
+interface PendingSignIn {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  returnUrl: string;
+  createdAt: number;
+}
+
+export interface OidcSignInResult {
+  idToken: string; // Checked for state, nonce, issuer, audience and expiry; the backend verifies the signature
+  returnUrl: string; // Where the user was headed when they chose SSO
+}
+
+// The sign-in could not be completed; the message is safe to show to the user
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+const PENDING_STORAGE_KEY = `${envConfig.localStoragePrefix}oidc_pending`;
+const PENDING_LIFETIME = 10 * 60 * 1000; // Abandoned sign-ins are not resumed after 10 minutes
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function randomString(byteLength: number = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+// PKCE S256: base64url(SHA-256(code_verifier))
+async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+function decodeJwtPayload(token: string): Record<string, unknown> | null {
+  try {
+    const payload = token.split('.')[1];
+    if (!payload) return null;
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+    return JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * OidcService - Single sign-on with an OpenID Connect provider (authorization code flow + PKCE)
+ * - startSignIn() redirects to the provider with a fresh state, nonce and code challenge
+ * - completeSignIn() runs on /auth/callback: checks state, redeems the code and checks the ID token
+ * The ID token is then exchanged for app credentials (apiService.loginWithSso), so SSO
+ * sessions end up in the same AuthProvider login as password sessions.
+ */
+export class OidcService {
+  private static instance: OidcService | null = null;
+  private metadata: Promise<OidcMetadata> | null = null;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): OidcService {
+    if (!OidcService.instance) {
+      OidcService.instance = new OidcService();
+    }
+    return OidcService.instance;
+  }
+
+  /**
+   * Whether an identity provider is configured (VITE_OIDC_AUTHORITY and VITE_OIDC_CLIENT_ID)
+   */
+  isEnabled(): boolean {
+    return !!envConfig.oidcAuthority && !!envConfig.oidcClientId;
+  }
+
+  /**
+   * Redirect to the identity provider; the browser comes back to /auth/callback
+   */
+  async startSignIn(returnUrl: string = '/'): Promise<void> {
+    const metadata = await this.getMetadata();
+
+    const pending: PendingSignIn = {
+      state: randomString(),
+      nonce: randomString(),
+      codeVerifier: randomString(),
+      returnUrl,
+      createdAt: Date.now(),
+    };
+    sessionStorage.setItem(PENDING_STORAGE_KEY, JSON.stringify(pending));
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: envConfig.oidcClientId,
+      redirect_uri: this.getRedirectUri(),
+      scope: envConfig.oidcScope,
+      state: pending.state,
+      nonce: pending.nonce,
+      code_challenge: await createCodeChallenge(pending.codeVerifier),
+      code_challenge_method: 'S256',
+    }).toString();
+
+    console.log('[OidcService] Redirecting to identity provider');
+    window.location.assign(url.toString());
+  }
+
+  /**
+   * Handle the provider's redirect back to the app
+   * The pending sign-in is consumed first, so a callback URL can't be replayed
+   */
+  async completeSignIn(params: URLSearchParams): Promise<OidcSignInResult> {
+    const pending = this.takePendingSignIn();
+
+    const error = params.get('error');
+    if (error) {
+      throw new OidcError(error === 'access_denied'
+        ? 'Sign-in was cancelled.'
+        : params.get('error_description') || `The identity provider reported an error (${error}).`);
+    }
+
+    if (!pending || Date.now() - pending.createdAt > PENDING_LIFETIME) {
+      throw new OidcError('This sign-in attempt has expired or was started in another tab. Please try again.');
+    }
+    if (params.get('state') !== pending.state) {
+      throw new OidcError('The sign-in response did not match this sign-in attempt. Please try again.');
+    }
+
+    const code = params.get('code');
+    if (!code) {
+      throw new OidcError('The identity provider did not return an authorization code.');
+    }
+
+    const metadata = await this.getMetadata();
+    const idToken = await this.exchangeCode(metadata, code, pending.codeVerifier);
+    this.validateIdToken(metadata, idToken, pending.nonce);
+
+    console.log('[OidcService] Sign-in completed');
+    return { idToken, returnUrl: pending.returnUrl };
+  }
+
+  private getRedirectUri(): string {
+    return `${window.location.origin}/auth/callback`;
+  }
+
+  private takePendingSignIn(): PendingSignIn | null {
+    const stored = sessionStorage.getItem(PENDING_STORAGE_KEY);
+    sessionStorage.removeItem(PENDING_STORAGE_KEY);
+    if (!stored) return null;
+    try {
+      return JSON.parse(stored) as PendingSignIn;
+    } catch {
+      return null;
+    }
+  }
+
+  // The stand-in identity provider is served by the mock backend
+  private async getFetch(): Promise<typeof fetch> {
+    if (!envConfig.useMockApi || import.meta.env.VITE_OIDC_AUTHORITY) {
+      return fetch;
+    }
+    const { mockFetch } = await import('../api/mock');
+    return mockFetch;
+  }
+
+  private getMetadata(): Promise<OidcMetadata> {
+    if (!this.metadata) {
+      this.metadata = this.loadMetadata().catch(error => {
+        this.metadata = null; // Try again on the next sign-in
+        throw error;
+      });
+    }
+    return this.metadata;
+  }
+
+  private async loadMetadata(): Promise<OidcMetadata> {
+    const authority = envConfig.oidcAuthority.replace(/\/+$/, '');
+    const fetchImpl = await this.getFetch();
+
+    let response: Response;
+    try {
+      response = await fetchImpl(`${authority}/.well-known/openid-configuration`, {
+        signal: AbortSignal.timeout(envConfig.apiTimeout),
+      });
+    } catch (error) {
+      console.error('[OidcService] Discovery request failed:', error);
+      throw new OidcError('The sign-in service could not be reached. Please try again later.');
+    }
+
+    const metadata = response.ok ? await response.json() as Partial<OidcMetadata> : null;
+    if (!metadata?.issuer || !metadata.authorization_endpoint || !metadata.token_endpoint) {
+      console.error('[OidcService] Invalid discovery document:', response.status, metadata);
+      throw new OidcError('Single sign-on is not set up correctly. Please contact your administrator.');
+    }
+    return metadata as OidcMetadata;
+  }
+
+  private async exchangeCode(metadata: OidcMetadata, code: string, codeVerifier: string): Promise<string> {
+    const fetchImpl = await this.getFetch();
+
+    let response: Response;
+    let body: { id_token?: string; error?: string; error_description?: string } | null;
+    try {
+      response = await fetchImpl(metadata.token_endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: this.getRedirectUri(),
+          client_id: envConfig.oidcClientId,
+          code_verifier: codeVerifier,
+        }),
+        signal: AbortSignal.timeout(envConfig.apiTimeout),
+      });
+      body = await response.json().catch(() => null);
+    } catch (error) {
+      console.error('[OidcService] Token request failed:', error);
+      throw new OidcError('The sign-in service could not be reached. Please try again later.');
+    }
+
+    if (!response.ok || !body?.id_token) {
+      console.error('[OidcService] Token exchange failed:', response.status, body);
+      throw new OidcError(body?.error_description || 'The identity provider did not accept the sign-in. Please try again.');
+    }
+    return body.id_token;
+  }
+
+  private validateIdToken(metadata: OidcMetadata, idToken: string, nonce: string): void {
+    const claims = decodeJwtPayload(idToken);
+    const audience = claims?.aud;
+    const audiences = Array.isArray(audience) ? audience : [audience];
+
+    const problem =
+      !claims ? 'could not be decoded' :
+      claims.iss !== metadata.issuer ? 'has the wrong issuer' :
+      !audiences.includes(envConfig.oidcClientId) ? 'was issued to a different client' :
+      claims.nonce !== nonce ? 'has the wrong nonce' :
+      typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now() ? 'has expired' :
+      null;
+
+    if (problem) {
+      console.error(`[OidcService] ID token ${problem}`, claims);
+      throw new OidcError('The sign-in response could not be verified. Please try again.');
+    }
+  }
+}
+
+// Export singleton instance
+export const oidcService = OidcService.getInstance();
@@ -0,0 +1,296 @@
+import { apiService } from '../api';
+import { decodeJwtToAppUser } from '../utils/jwtUtils';
+import { envConfig } from '../utils/envConfig';
+import type { AppUser } from '../models';
+import type { Credentials } from '../contracts/response/AuthenticationResponses';
+
+type SessionMessage =
+  | { type: 'login'; credentials: Credentials }
+  | { type: 'logout' }
+  | { type: 'tokens-refreshed'; credentials: Credentials }
+  | { type: 'credentials-request'; requestId: string }
+  | { type: 'credentials-response'; requestId: string; credentials: Credentials };
+
+// Message as sent over the wire, tagged with the sending tab
+type SessionEnvelope = SessionMessage & { sourceTabId: string };
+
+interface LeaderLease {
+  tabId: string;
+  expiresAt: number;
+}
+
+export interface SessionSyncHandlers {
+  onRemoteLogin?: (user: AppUser) => void; // Another tab logged in; tokens are already applied
+  onRemoteLogout?: () => void; // Another tab logged out; the server session is already revoked
+  onRemoteTokensRefreshed?: (user: AppUser) => void; // The leader tab rotated the tokens
+}
+
+const CHANNEL_NAME = `${envConfig.localStoragePrefix}session`;
+const MESSAGE_STORAGE_KEY = `${envConfig.localStoragePrefix}session_message`;
+const LEADER_STORAGE_KEY = `${envConfig.localStoragePrefix}session_leader`;
+
+const LEASE_DURATION = 6000; // A leader that stops renewing loses the lease after 6s
+const LEASE_RENEW_INTERVAL = 2000;
+const CREDENTIALS_REQUEST_TIMEOUT = 500;
+
+/**
+ * SessionSyncService - Keeps the auth session consistent across browser tabs
+ * - Login, logout and refreshed tokens are broadcast to every tab
+ * - One tab is elected leader through a localStorage lease; only it refreshes proactively
+ * - A new tab asks the others for current credentials instead of rotating the refresh token itself
+ * Uses BroadcastChannel and falls back to storage events where it is unavailable.
+ */
+export class SessionSyncService {
+  private static instance: SessionSyncService | null = null;
+  private readonly tabId = crypto.randomUUID();
+  private channel: BroadcastChannel | null = null;
+  private handlers: SessionSyncHandlers = {};
+  private isActive: boolean = false;
+  private isLeaderTab: boolean = false;
+  private leaseInterval: ReturnType<typeof setInterval> | null = null;
+  private pendingCredentialRequests = new Map<string, (credentials: Credentials | null) => void>();
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): SessionSyncService {
+    if (!SessionSyncService.instance) {
+      SessionSyncService.instance = new SessionSyncService();
+    }
+    return SessionSyncService.instance;
+  }
+
+  private log(message: string, ...args: unknown[]) {
+    if (envConfig.debugApi) {
+      console.log(`[SessionSyncService] ${message}`, ...args);
+    }
+  }
+
+  /**
+   * Start listening to other tabs and take part in leader election
+   * Call once when the app mounts (also while logged out, to pick up logins)
+   */
+  start(handlers: SessionSyncHandlers): void {
+    this.handlers = handlers;
+    if (this.isActive) return;
+    this.isActive = true;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<SessionEnvelope>) => this.handleMessage(event.data);
+    } else {
+      this.log('BroadcastChannel unavailable, falling back to storage events');
+    }
+    window.addEventListener('storage', this.handleStorageEvent);
+    window.addEventListener('pagehide', this.releaseLeadership);
+
+    // Broadcast tokens whenever this tab refreshes them, whichever code path triggered it
+    apiService.setTokensRefreshedHandler((credentials) => {
+      this.broadcast({ type: 'tokens-refreshed', credentials });
+    });
+
+    this.renewLeadership();
+    this.leaseInterval = setInterval(() => this.renewLeadership(), LEASE_RENEW_INTERVAL);
+
+    this.log('Started', { tabId: this.tabId, transport: this.channel ? 'BroadcastChannel' : 'storage' });
+  }
+
+  /**
+   * Stop syncing and give up leadership
+   */
+  stop(): void {
+    if (!this.isActive) return;
+
+    this.releaseLeadership();
+    if (this.leaseInterval) {
+      clearInterval(this.leaseInterval);
+      this.leaseInterval = null;
+    }
+
+    this.channel?.close();
+    this.channel = null;
+    window.removeEventListener('storage', this.handleStorageEvent);
+    window.removeEventListener('pagehide', this.releaseLeadership);
+    apiService.setTokensRefreshedHandler(undefined);
+
+    this.pendingCredentialRequests.forEach(resolve => resolve(null));
+    this.pendingCredentialRequests.clear();
+    this.handlers = {};
+    this.isActive = false;
+    this.log('Stopped');
+  }
+
+  /**
+   * Whether this tab is responsible for proactive token refreshes
+   * Without an active sync every tab acts on its own
+   */
+  isLeader(): boolean {
+    return !this.isActive || this.isLeaderTab;
+  }
+
+  /**
+   * Tell the other tabs that this tab logged in
+   */
+  broadcastLogin(credentials: Credentials): void {
+    this.broadcast({ type: 'login', credentials });
+  }
+
+  /**
+   * Tell the other tabs that this tab logged out
+   */
+  broadcastLogout(): void {
+    this.broadcast({ type: 'logout' });
+  }
+
+  /**
+   * Ask the other tabs for their current credentials
+   * Resolves with null when no logged-in tab answers in time
+   */
+  requestCredentials(): Promise<Credentials | null> {
+    if (!this.isActive) return Promise.resolve(null);
+
+    const requestId = crypto.randomUUID();
+    return new Promise(resolve => {
+      const timeoutId = setTimeout(() => {
+        this.pendingCredentialRequests.delete(requestId);
+        resolve(null);
+      }, CREDENTIALS_REQUEST_TIMEOUT);
+
+      this.pendingCredentialRequests.set(requestId, (credentials) => {
+        clearTimeout(timeoutId);
+        this.pendingCredentialRequests.delete(requestId);
+        resolve(credentials);
+      });
+
+      this.broadcast({ type: 'credentials-request', requestId });
+    });
+  }
+
+  private broadcast(message: SessionMessage): void {
+    if (!this.isActive) return;
+
+    const envelope: SessionEnvelope = { ...message, sourceTabId: this.tabId };
+    this.log('Broadcasting', message.type);
+
+    if (this.channel) {
+      this.channel.postMessage(envelope);
+      return;
+    }
+
+    // Storage fallback: other tabs get a storage event for the write; the key is removed right away
+    try {
+      localStorage.setItem(MESSAGE_STORAGE_KEY, JSON.stringify({ ...envelope, nonce: Date.now() + Math.random() }));
+      localStorage.removeItem(MESSAGE_STORAGE_KEY);
+    } catch (error) {
+      console.error('[SessionSyncService] Failed to broadcast through storage:', error);
+    }
+  }
+
+  private handleStorageEvent = (event: StorageEvent) => {
+    if (event.key !== MESSAGE_STORAGE_KEY || !event.newValue) return;
+
+    try {
+      this.handleMessage(JSON.parse(event.newValue) as SessionEnvelope);
+    } catch (error) {
+      console.error('[SessionSyncService] Ignoring malformed session message:', error);
+    }
+  };
+
+  private handleMessage(message: SessionEnvelope): void {
+    if (message.sourceTabId === this.tabId) return;
+    this.log('Received', message.type, { from: message.sourceTabId });
+
+    switch (message.type) {
+      case 'login':
+      case 'tokens-refreshed': {
+        const user = this.applyCredentials(message.credentials);
+        if (!user) return;
+        if (message.type === 'login') {
+          this.handlers.onRemoteLogin?.(user);
+        } else {
+          this.handlers.onRemoteTokensRefreshed?.(user);
+        }
+        break;
+      }
+      case 'logout':
+        this.handlers.onRemoteLogout?.();
+        break;
+      case 'credentials-request': {
+        const credentials = this.getCurrentCredentials();
+        if (credentials) {
+          this.broadcast({ type: 'credentials-response', requestId: message.requestId, credentials });
+        }
+        break;
+      }
+      case 'credentials-response': {
+        const resolve = this.pendingCredentialRequests.get(message.requestId);
+        resolve?.(message.credentials);
+        break;
+      }
+    }
+  }
+
+  // Adopt tokens from another tab in ApiService; returns the user they belong to
+  private applyCredentials(credentials: Credentials): AppUser | null {
+    const user = decodeJwtToAppUser(credentials.authToken);
+    if (!user) {
+      console.error('[SessionSyncService] Received credentials with an undecodable auth token');
+      return null;
+    }
+
+    apiService.setTokens(credentials.authToken, credentials.refreshToken, credentials.authTokenExp, credentials.refreshTokenExp);
+    return user;
+  }
+
+  private getCurrentCredentials(): Credentials | null {
+    const authToken = apiService.getAuthToken();
+    const refreshToken = apiService.getRefreshToken();
+    const authTokenExp = apiService.getAuthTokenExpiration();
+    const refreshTokenExp = apiService.getRefreshTokenExpiration();
+
+    if (!authToken || !refreshToken || !authTokenExp || !refreshTokenExp || apiService.isAuthTokenExpired()) {
+      return null;
+    }
+    return { authToken, refreshToken, authTokenExp, refreshTokenExp };
+  }
+
+  private readLease(): LeaderLease | null {
+    try {
+      const stored = localStorage.getItem(LEADER_STORAGE_KEY);
+      return stored ? JSON.parse(stored) as LeaderLease : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Take the lease when it is free or expired, extend it when this tab holds it
+  private renewLeadership(): void {
+    const lease = this.readLease();
+    const now = Date.now();
+    const wasLeader = this.isLeaderTab;
+
+    if (!lease || lease.expiresAt <= now || lease.tabId === this.tabId) {
+      localStorage.setItem(LEADER_STORAGE_KEY, JSON.stringify({ tabId: this.tabId, expiresAt: now + LEASE_DURATION }));
+      // Another tab may have written at the same moment; whoever's write landed last wins
+      this.isLeaderTab = this.readLease()?.tabId === this.tabId;
+    } else {
+      this.isLeaderTab = false;
+    }
+
+    if (wasLeader !== this.isLeaderTab) {
+      this.log(this.isLeaderTab ? 'This tab is now the session leader' : 'This tab is no longer the session leader');
+    }
+  }
+
+  private releaseLeadership = () => {
+    if (this.isLeaderTab && this.readLease()?.tabId === this.tabId) {
+      localStorage.removeItem(LEADER_STORAGE_KEY);
+    }
+    this.isLeaderTab = false;
+  };
+}
+
+// Export singleton instance for easy use
+export const sessionSyncService = SessionSyncService.getInstance();
@@ -1,46 +1,40 @@
 import { apiService } from '../api';
 import { decodeJwtToAppUser } from '../utils/jwtUtils';
 import { envConfig } from '../utils/envConfig';
+import { ApiError, ApiResponseHandler, SessionRevokedError } from '../types';
 import type { AppUser } from '../models';
+import { sessionSyncService } from './SessionSyncService';
+import { idleTimeoutService } from './IdleTimeoutService';
+
+// Retry delays for refreshes that fail because the server could not be reached
+const RETRY_BASE_DELAY = 2000;
+const RETRY_MAX_DELAY = 60000;
+// How long to wait before checking again while another tab is the leader or the user is idle
+const DEFERRED_CHECK_DELAY = 5000;
+// setTimeout overflows above ~24.8 days
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
 
 /**
  * TokenRefreshService - Automatically manages token refresh in a timely manner
- * This service handles proactive token refreshing before expiration
+ * - Schedules a single timer for the moment the auth token enters its refresh buffer
+ * - Reschedules after every refresh, since each new token has its own lifetime
+ * - Checks right away when the tab becomes visible or the browser comes back online (timers stall during sleep)
+ * - Retries with jittered exponential backoff when the refresh fails on the network rather than on auth
  */
 export class TokenRefreshService {
   private static instance: TokenRefreshService | null = null;
-  private refreshInterval: NodeJS.Timeout | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private nextCheckAt: number | null = null;
+  private retryAttempt: number = 0;
+  private isRefreshing: boolean = false;
   private isActive: boolean = false;
   private onTokenRefreshSuccess?: (user: AppUser) => void;
-  private onTokenRefreshFailure?: () => void;
+  private onTokenRefreshFailure?: (reason?: ApiError) => void;
 
-  // Dynamic check interval: configurable from environment variables
-  private readonly MIN_CHECK_INTERVAL = envConfig.tokenMinCheckInterval * 1000; // Convert seconds to milliseconds
-  private readonly MAX_CHECK_INTERVAL = envConfig.tokenMaxCheckInterval * 1000; // Convert seconds to milliseconds
-  
   // Dynamic refresh buffer: calculated based on check intervals and multiplier
   private readonly MIN_REFRESH_BUFFER = Math.max(envConfig.tokenMinCheckInterval * 1000, envConfig.tokenMinCheckInterval * 1000 * 2); // Minimum 2x check interval
   private readonly MAX_REFRESH_BUFFER = Math.min(envConfig.tokenMaxCheckInterval * 1000, envConfig.tokenMaxCheckInterval * 1000 * 1.5); // Maximum 1.5x max check interval
 
-  /**
-   * Calculate optimal check interval based on token lifetime and environment configuration
-   */
-  private calculateCheckInterval(): number {
-    const authTokenExp = apiService.getAuthTokenExpiration();
-    if (!authTokenExp) return this.MIN_CHECK_INTERVAL;
-
-    const tokenLifetime = new Date(authTokenExp).getTime() - Date.now();
-    
-    // Check every 1/10th of token lifetime, but within min/max bounds from environment
-    const optimalInterval = Math.max(
-      this.MIN_CHECK_INTERVAL,
-      Math.min(this.MAX_CHECK_INTERVAL, tokenLifetime / 10)
-    );
-
-    console.log(`[TokenRefreshService] Calculated check interval: ${optimalInterval / 1000}s (token lifetime: ${tokenLifetime / 60000}min, bounds: ${envConfig.tokenMinCheckInterval}s-${envConfig.tokenMaxCheckInterval}s)`);
-    return optimalInterval;
-  }
-
   /**
    * Calculate dynamic refresh buffer based on token lifetime and environment configuration
    */
@@ -73,11 +67,10 @@ export class TokenRefreshService {
    */
   private logConfiguration(): void {
     console.log('[TokenRefreshService] Configuration:');
-    console.log(`  - Min Check Interval: ${envConfig.tokenMinCheckInterval}s (${this.MIN_CHECK_INTERVAL}ms)`);
-    console.log(`  - Max Check Interval: ${envConfig.tokenMaxCheckInterval}s (${this.MAX_CHECK_INTERVAL}ms)`);
     console.log(`  - Refresh Buffer Multiplier: ${(envConfig.tokenRefreshBufferMultiplier * 100).toFixed(1)}%`);
     console.log(`  - Min Refresh Buffer: ${this.MIN_REFRESH_BUFFER / 1000}s`);
     console.log(`  - Max Refresh Buffer: ${this.MAX_REFRESH_BUFFER / 1000}s`);
+    console.log(`  - Network Retry Backoff: ${RETRY_BASE_DELAY / 1000}s-${RETRY_MAX_DELAY / 1000}s`);
   }
 
   /**
@@ -91,12 +84,12 @@ export class TokenRefreshService {
   }
 
   /**
-   * Start automatic token refresh monitoring
+   * Start automatic token refresh scheduling
    * Call this when user logs in
    */
   start(
     onTokenRefreshSuccess?: (user: AppUser) => void,
-    onTokenRefreshFailure?: () => void
+    onTokenRefreshFailure?: (reason?: ApiError) => void
   ): void {
     if (this.isActive) {
       console.log('[TokenRefreshService] Already active, stopping previous instance');
@@ -106,61 +99,97 @@ export class TokenRefreshService {
     this.onTokenRefreshSuccess = onTokenRefreshSuccess;
     this.onTokenRefreshFailure = onTokenRefreshFailure;
     this.isActive = true;
+    this.retryAttempt = 0;
 
-    console.log('[TokenRefreshService] Starting automatic token refresh monitoring');
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    window.addEventListener('online', this.handleOnline);
 
-    // Calculate optimal check interval based on current token expiration
-    const checkInterval = this.calculateCheckInterval();
+    console.log('[TokenRefreshService] Starting automatic token refresh scheduling');
 
-    // Start monitoring interval with dynamic timing
-    this.refreshInterval = setInterval(() => {
-      this.checkAndRefreshTokens();
-    }, checkInterval);
-
-    // Initial check
+    // Initial check refreshes right away if the token is already due, otherwise schedules the timer
     this.checkAndRefreshTokens();
   }
 
   /**
-   * Stop automatic token refresh monitoring
+   * Stop automatic token refresh scheduling
    * Call this when user logs out
    */
   stop(): void {
-    if (this.refreshInterval) {
-      clearInterval(this.refreshInterval);
-      this.refreshInterval = null;
-    }
+    this.clearTimer();
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    window.removeEventListener('online', this.handleOnline);
     
     this.isActive = false;
+    this.retryAttempt = 0;
     this.onTokenRefreshSuccess = undefined;
     this.onTokenRefreshFailure = undefined;
     
-    console.log('[TokenRefreshService] Stopped automatic token refresh monitoring');
+    console.log('[TokenRefreshService] Stopped automatic token refresh scheduling');
   }
 
-  /**
-   * Restart the monitoring interval with updated timing based on new token expiration
-   */
-  private restartWithNewTiming(): void {
+  private clearTimer(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    this.nextCheckAt = null;
+  }
+
+  private scheduleCheck(delay: number, reason: string): void {
     if (!this.isActive) return;
 
-    // Clear existing interval
-    if (this.refreshInterval) {
-      clearInterval(this.refreshInterval);
+    this.clearTimer();
+    const clampedDelay = Math.min(Math.max(0, delay), MAX_TIMER_DELAY);
+    this.nextCheckAt = Date.now() + clampedDelay;
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.nextCheckAt = null;
+      this.checkAndRefreshTokens();
+    }, clampedDelay);
+
+    console.log(`[TokenRefreshService] Next check in ${Math.round(clampedDelay / 1000)}s (${reason})`);
+  }
+
+  /**
+   * Schedule the next refresh for the moment the auth token enters its refresh buffer
+   */
+  private scheduleNextRefresh(): void {
+    const authTokenExp = apiService.getAuthTokenExpiration();
+    if (!authTokenExp) {
+      this.scheduleCheck(0, 'no auth token expiration');
+      return;
     }
 
-    // Calculate new optimal check interval
-    const newCheckInterval = this.calculateCheckInterval();
+    const refreshAt = new Date(authTokenExp).getTime() - this.calculateRefreshBuffer();
+    this.scheduleCheck(refreshAt - Date.now(), `refresh at ${new Date(refreshAt).toLocaleTimeString()}`);
+  }
 
-    // Start new interval with updated timing
-    this.refreshInterval = setInterval(() => {
+  /**
+   * Retry a refresh that failed on the network, with exponential backoff and full jitter
+   */
+  private scheduleRetry(): void {
+    const backoff = Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** this.retryAttempt);
+    const delay = backoff / 2 + Math.random() * (backoff / 2);
+    this.retryAttempt++;
+    this.scheduleCheck(delay, `network retry #${this.retryAttempt}`);
+  }
+
+  // Timers do not fire while the device sleeps, so catch up as soon as the user is back
+  private handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') {
+      console.log('[TokenRefreshService] Tab became visible, checking tokens');
       this.checkAndRefreshTokens();
-    }, newCheckInterval);
+    }
+  };
+
+  private handleOnline = () => {
+    console.log('[TokenRefreshService] Browser is back online, checking tokens');
+    this.retryAttempt = 0;
+    this.checkAndRefreshTokens();
+  };
 
-    console.log(`[TokenRefreshService] Restarted monitoring with new interval: ${newCheckInterval / 1000}s`);
-  }
   private async checkAndRefreshTokens(): Promise<void> {
-    if (!this.isActive) return;
+    if (!this.isActive || this.isRefreshing) return;
 
     try {
       // Check if user has valid tokens
@@ -178,18 +207,27 @@ export class TokenRefreshService {
       }
 
       // Check if auth token needs refresh
-      if (this.shouldRefreshAuthToken()) {
-        console.log('[TokenRefreshService] Auth token needs refresh, attempting refresh...');
-        await this.performTokenRefresh();
-      } else {
-        // Log token status for debugging
-        const authTokenExp = apiService.getAuthTokenExpiration();
-        if (authTokenExp) {
-          const timeUntilExpiry = new Date(authTokenExp).getTime() - Date.now();
-          const minutesUntilExpiry = Math.floor(timeUntilExpiry / (60 * 1000));
-          console.log(`[TokenRefreshService] Auth token valid for ${minutesUntilExpiry} more minutes`);
-        }
+      if (!this.shouldRefreshAuthToken()) {
+        this.scheduleNextRefresh();
+        return;
       }
+
+      // Don't keep an idle session alive; the idle timeout logs the user out or they return first
+      if (idleTimeoutService.isIdle()) {
+        console.log('[TokenRefreshService] User is idle, deferring token refresh');
+        this.scheduleCheck(DEFERRED_CHECK_DELAY, 'user idle');
+        return;
+      }
+
+      // Only the leader tab rotates the shared refresh token; the others receive its broadcast
+      if (!sessionSyncService.isLeader()) {
+        console.log('[TokenRefreshService] Auth token needs refresh, waiting for the leader tab to refresh');
+        this.scheduleCheck(DEFERRED_CHECK_DELAY, 'waiting for leader tab');
+        return;
+      }
+
+      console.log('[TokenRefreshService] Auth token needs refresh, attempting refresh...');
+      await this.performTokenRefresh();
     } catch (error) {
       console.error('[TokenRefreshService] Error during token check:', error);
     }
@@ -228,6 +266,7 @@ export class TokenRefreshService {
    * Perform the actual token refresh
    */
   private async performTokenRefresh(): Promise<void> {
+    this.isRefreshing = true;
     try {
       console.log('[TokenRefreshService] Attempting to refresh tokens...');
       
@@ -235,6 +274,7 @@ export class TokenRefreshService {
       
       if (refreshedCredentials) {
         console.log('[TokenRefreshService] Tokens refreshed successfully');
+        this.retryAttempt = 0;
         
         // Verify that ApiService has stored the new tokens properly
         const storedAuthToken = apiService.getAuthToken();
@@ -260,28 +300,46 @@ export class TokenRefreshService {
         console.log(`[TokenRefreshService] New auth token expires at: ${authTokenExp.toLocaleString()}`);
         console.log(`[TokenRefreshService] New refresh token expires at: ${refreshTokenExp.toLocaleString()}`);
         
-        // Restart monitoring with new timing based on updated token expiration
-        this.restartWithNewTiming();
+        // The new token has its own lifetime, so schedule from its expiration
+        this.scheduleNextRefresh();
         
       } else {
         console.error('[TokenRefreshService] Token refresh failed - no credentials returned');
         this.handleRefreshFailure();
       }
     } catch (error) {
+      // The server could not be reached; the tokens are still valid, so try again later
+      if (ApiResponseHandler.isTransientError(error)) {
+        console.warn('[TokenRefreshService] Token refresh failed on the network, retrying:', error.message);
+        this.scheduleRetry();
+        return;
+      }
+
+      // A revoked session is a forced logout; pass the reason on so the user is told why
+      if (error instanceof SessionRevokedError) {
+        console.warn('[TokenRefreshService] Session was revoked from another device');
+        this.handleRefreshFailure(error);
+        return;
+      }
+
       console.error('[TokenRefreshService] Token refresh failed:', error);
       this.handleRefreshFailure();
+    } finally {
+      this.isRefreshing = false;
     }
   }
 
   /**
    * Handle refresh failure
    */
-  private handleRefreshFailure(): void {
+  private handleRefreshFailure(reason?: ApiError): void {
     console.log('[TokenRefreshService] Handling refresh failure, stopping service');
+    // stop() clears the callback, so keep it first
+    const onFailure = this.onTokenRefreshFailure;
     this.stop();
     
-    if (this.onTokenRefreshFailure) {
-      this.onTokenRefreshFailure();
+    if (onFailure) {
+      onFailure(reason);
     }
   }
 
@@ -342,6 +400,8 @@ export class TokenRefreshService {
     authTokenExpiration: string | null;
     refreshTokenExpiration: string | null;
     shouldRefresh: boolean;
+    nextCheckAt: string | null;
+    retryAttempt: number;
   } {
     return {
       isActive: this.isActive,
@@ -349,6 +409,8 @@ export class TokenRefreshService {
       authTokenExpiration: apiService.getAuthTokenExpiration(),
       refreshTokenExpiration: apiService.getRefreshTokenExpiration(),
       shouldRefresh: this.isActive ? this.shouldRefreshAuthToken() : false,
+      nextCheckAt: this.nextCheckAt ? new Date(this.nextCheckAt).toISOString() : null,
+      retryAttempt: this.retryAttempt,
     };
   }
 }
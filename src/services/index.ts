@@ -1 +1,7 @@
 export { TokenRefreshService, tokenRefreshService } from './TokenRefreshService';
+export { SessionSyncService, sessionSyncService } from './SessionSyncService';
+export type { SessionSyncHandlers } from './SessionSyncService';
+export { IdleTimeoutService, idleTimeoutService } from './IdleTimeoutService';
+export type { IdleTimeoutHandlers } from './IdleTimeoutService';
+export { OidcService, oidcService, OidcError } from './OidcService';
+export type { OidcSignInResult } from './OidcService';
@@ -6,43 +6,186 @@ export interface ApiResponse<T = unknown> {
   status: number;
   error: string | null;
   value: T | null;
+  code?: string | null; // Machine-readable reason for a failure, see ApiErrorCode
 }
 
+// Error codes the backend sends when the status alone is not specific enough
+export const ApiErrorCode = {
+  EmailNotVerified: 'EmailNotVerified',
+  SessionRevoked: 'SessionRevoked',
+  MfaRequired: 'MfaRequired',
+  AccountLocked: 'AccountLocked',
+} as const;
+
+export type ApiErrorCode = typeof ApiErrorCode[keyof typeof ApiErrorCode];
+
 export interface ValidationErrors {
   [fieldName: string]: string[];
 }
 
 export type ValidationErrorResponse = ApiResponse<ValidationErrors>;
 
+// Information about the request that produced an error
+export interface ApiRequestInfo {
+  method: string;
+  endpoint: string;
+  url: string;
+}
+
 // Custom Error Classes
 export class ApiError extends Error {
   public status: number;
+  public code?: string;
   public response?: ApiResponse<unknown>;
+  public request?: ApiRequestInfo;
 
   constructor(
     message: string,
     status: number,
-    response?: ApiResponse<unknown>
+    response?: ApiResponse<unknown>,
+    request?: ApiRequestInfo
   ) {
     super(message);
     this.name = 'ApiError';
     this.status = status;
+    this.code = response?.code ?? undefined;
     this.response = response;
+    this.request = request;
+  }
+}
+
+// The request never reached the server or no response came back (offline, DNS, CORS)
+export class NetworkError extends ApiError {
+  constructor(message: string, request?: ApiRequestInfo) {
+    super(message, 0, undefined, request);
+    this.name = 'NetworkError';
+  }
+}
+
+// The request was cancelled because it exceeded the configured API timeout
+export class TimeoutError extends ApiError {
+  public timeoutMs: number;
+
+  constructor(timeoutMs: number, request?: ApiRequestInfo) {
+    super(`Request timeout after ${timeoutMs}ms`, 0, undefined, request);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// 401 - missing, expired or invalid credentials
+export class UnauthorizedError extends ApiError {
+  constructor(message: string, response?: ApiResponse<unknown>, request?: ApiRequestInfo) {
+    super(message, 401, response, request);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+// 401 with code SessionRevoked - the session was signed out from another device
+export class SessionRevokedError extends UnauthorizedError {
+  constructor(message: string, response?: ApiResponse<unknown>, request?: ApiRequestInfo) {
+    super(message, response, request);
+    this.name = 'SessionRevokedError';
+  }
+}
+
+// 403 - authenticated but not allowed to perform the action
+export class ForbiddenError extends ApiError {
+  constructor(message: string, response?: ApiResponse<unknown>, request?: ApiRequestInfo) {
+    super(message, 403, response, request);
+    this.name = 'ForbiddenError';
+  }
+}
+
+// 403 with code EmailNotVerified - login refused until the email address is confirmed
+export class EmailNotVerifiedError extends ForbiddenError {
+  constructor(message: string, response?: ApiResponse<unknown>, request?: ApiRequestInfo) {
+    super(message, response, request);
+    this.name = 'EmailNotVerifiedError';
+  }
+}
+
+// 403 with code MfaRequired - the password was accepted, login continues with a second factor
+// The response value carries the challenge (see MfaChallenge in the contracts)
+export class MfaRequiredError extends ForbiddenError {
+  constructor(message: string, response?: ApiResponse<unknown>, request?: ApiRequestInfo) {
+    super(message, response, request);
+    this.name = 'MfaRequiredError';
+  }
+}
+
+// 423 with code AccountLocked - sign-in is blocked for a while after too many wrong passwords
+export class AccountLockedError extends ApiError {
+  public retryAfterSeconds: number | null; // From the Retry-After header, when the server sent one
+
+  constructor(message: string, retryAfterSeconds: number | null, response?: ApiResponse<unknown>, request?: ApiRequestInfo) {
+    super(message, response?.status ?? 423, response, request);
+    this.name = 'AccountLockedError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// 404 - the requested resource does not exist
+export class NotFoundError extends ApiError {
+  constructor(message: string, response?: ApiResponse<unknown>, request?: ApiRequestInfo) {
+    super(message, 404, response, request);
+    this.name = 'NotFoundError';
+  }
+}
+
+// 409 - the request conflicts with the current state (e.g. already registered)
+export class ConflictError extends ApiError {
+  constructor(message: string, response?: ApiResponse<unknown>, request?: ApiRequestInfo) {
+    super(message, 409, response, request);
+    this.name = 'ConflictError';
   }
 }
 
-export class ValidationError extends Error {
+// 429 - too many requests in a short time
+export class RateLimitedError extends ApiError {
+  public retryAfterSeconds: number | null; // From the Retry-After header, when the server sent one
+
+  constructor(message: string, retryAfterSeconds: number | null, response?: ApiResponse<unknown>, request?: ApiRequestInfo) {
+    super(message, 429, response, request);
+    this.name = 'RateLimitedError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// 400 with field-level validation details
+export class ValidationError extends ApiError {
   public validationErrors: ValidationErrors;
-  public response: ValidationErrorResponse;
+  declare public response: ValidationErrorResponse;
 
   constructor(
     validationErrors: ValidationErrors,
-    response: ValidationErrorResponse
+    response: ValidationErrorResponse,
+    request?: ApiRequestInfo
   ) {
-    super('Validation failed');
+    super('Validation failed', 400, response, request);
     this.name = 'ValidationError';
     this.validationErrors = validationErrors;
-    this.response = response;
+  }
+}
+
+// A successful response whose body does not match the expected contract
+export class ContractViolationError extends ApiError {
+  public path: string; // e.g. "value.items[2].eventDate"
+  public expected: string;
+  public received: string;
+
+  constructor(
+    path: string,
+    expected: string,
+    received: string,
+    status: number,
+    request?: ApiRequestInfo
+  ) {
+    super(`Unexpected response from ${request?.endpoint ?? 'the server'}: ${path} should be ${expected} but was ${received}`, status, undefined, request);
+    this.name = 'ContractViolationError';
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
   }
 }
 
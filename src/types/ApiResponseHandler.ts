@@ -1,10 +1,24 @@
 import type { 
   ApiResponse, 
+  ApiRequestInfo,
   ValidationErrors, 
   ValidationErrorResponse 
 } from './ApiResponse';
 import { 
+  AccountLockedError,
   ApiError, 
+  ApiErrorCode,
+  ConflictError,
+  ContractViolationError,
+  EmailNotVerifiedError,
+  MfaRequiredError,
+  SessionRevokedError,
+  ForbiddenError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  TimeoutError,
+  UnauthorizedError,
   ValidationError
 } from './ApiResponse';
 
@@ -17,20 +31,97 @@ export class ApiResponseHandler {
       return response.value;
     }
     
+    throw ApiResponseHandler.createError(response);
+  }
+
+  /**
+   * Maps a failed response to the matching error class
+   * retryAfterSeconds is the parsed Retry-After header, used by rate limit and lockout errors
+   */
+  static createError(response: ApiResponse<unknown>, request?: ApiRequestInfo, retryAfterSeconds: number | null = null): ApiError {
+    const message = ApiResponseHandler.getErrorMessage(response);
+
     // Handle validation errors (400 status with validation details)
-    if (response.status === 400 && response.value !== null && typeof response.value === 'object') {
-      throw new ValidationError(
+    if (ApiResponseHandler.isValidationError(response)) {
+      return new ValidationError(
         response.value as ValidationErrors,
-        response as ValidationErrorResponse
+        response,
+        request
       );
     }
-    
-    // Handle general API errors
-    throw new ApiError(
-      response.error || 'Unknown error occurred',
-      response.status,
-      response
-    );
+
+    // Specific error codes take precedence over the generic status mapping
+    if (response.code === ApiErrorCode.EmailNotVerified) {
+      return new EmailNotVerifiedError(message, response, request);
+    }
+    if (response.code === ApiErrorCode.MfaRequired) {
+      return new MfaRequiredError(message, response, request);
+    }
+    if (response.code === ApiErrorCode.AccountLocked) {
+      return new AccountLockedError(message, retryAfterSeconds, response, request);
+    }
+    if (response.code === ApiErrorCode.SessionRevoked) {
+      return new SessionRevokedError(message, response, request);
+    }
+
+    switch (response.status) {
+      case 401:
+        return new UnauthorizedError(message, response, request);
+      case 403:
+        return new ForbiddenError(message, response, request);
+      case 404:
+        return new NotFoundError(message, response, request);
+      case 409:
+        return new ConflictError(message, response, request);
+      case 429:
+        return new RateLimitedError(message, retryAfterSeconds, response, request);
+      default:
+        return new ApiError(message, response.status, response, request);
+    }
+  }
+
+  /**
+   * Checks if the error is worth retrying later (the server never answered)
+   */
+  static isTransientError(error: unknown): error is NetworkError | TimeoutError {
+    return error instanceof NetworkError || error instanceof TimeoutError;
+  }
+
+  /**
+   * Gets a user-facing message for any error thrown by ApiService
+   */
+  static getUserMessage(error: unknown, fallback: string = 'Something went wrong. Please try again.'): string {
+    if (error instanceof NetworkError) {
+      return 'Unable to reach the server. Please check your connection and try again.';
+    }
+    if (error instanceof TimeoutError) {
+      return 'The server took too long to respond. Please try again.';
+    }
+    if (error instanceof SessionRevokedError) {
+      return 'You were signed out because this session was ended from another device.';
+    }
+    if (error instanceof UnauthorizedError) {
+      return 'Your session has expired. Please log in again.';
+    }
+    if (error instanceof EmailNotVerifiedError) {
+      return 'Please verify your email address before signing in.';
+    }
+    if (error instanceof MfaRequiredError) {
+      return 'Enter the code from your authenticator app to finish signing in.';
+    }
+    if (error instanceof ForbiddenError) {
+      return 'You do not have permission to perform this action.';
+    }
+    if (error instanceof ValidationError) {
+      return 'Please correct the highlighted fields.';
+    }
+    if (error instanceof ContractViolationError) {
+      return 'The server sent data this version of the app does not understand. Please refresh the page or try again later.';
+    }
+    if (error instanceof ApiError) {
+      return error.message;
+    }
+    return fallback;
   }
   
   /**
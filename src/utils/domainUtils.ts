@@ -23,6 +23,15 @@ export const dateUtils = {
     return date.toISOString();
   },
 
+  /**
+   * Format a date for a datetime-local input (YYYY-MM-DDTHH:mm in local time)
+   */
+  formatDateForInput: (isoString: string): string => {
+    const date = new Date(isoString);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  },
+
   /**
    * Format event date for display
    */
@@ -65,14 +74,21 @@ export const userUtils = {
    * Check if user is admin
    */
   isAdmin: (user: AppUser): boolean => {
-    return user.userRole === 'Admin';
+    return userUtils.hasRole(user, 'Admin');
+  },
+
+  /**
+   * Check if user has a role (users can hold several roles)
+   */
+  hasRole: (user: AppUser, role: string): boolean => {
+    return (user.roles ?? [user.userRole]).includes(role);
   },
 
   /**
    * Check if user is regular user
    */
   isRegularUser: (user: AppUser): boolean => {
-    return user.userRole === 'User';
+    return userUtils.hasRole(user, 'User');
   },
 
   /**
@@ -237,104 +253,18 @@ export const registrationUtils = {
 
 // API Response Utilities
 export const apiUtils = {
-  // Track retry attempts to prevent infinite loops
-  retryTracker: new Map<string, { count: number; lastAttempt: number }>(),
-  
   /**
-   * Generic API call wrapper with error handling and smart 401 retry logic
-   * Prevents infinite retry loops for permission-based 401 errors
+   * Generic API call wrapper with error handling
+   * 401 recovery (token refresh + replay) happens inside ApiService.request,
+   * so any error that reaches this point is final
    */
   handleApiResponse: async <T>(
-    apiCall: () => Promise<T>,
-    requestIdentifier?: string // Optional identifier to track specific requests
+    apiCall: () => Promise<T>
   ): Promise<{ data: T | null; error: string | null }> => {
-    const requestId = requestIdentifier || Math.random().toString(36).substr(2, 9);
-    const now = Date.now();
-    
     try {
       const data = await apiCall();
-      // Clear successful request from retry tracker
-      apiUtils.retryTracker.delete(requestId);
       return { data, error: null };
     } catch (error) {
-      // Check if this is a 401 Unauthorized error
-      if (error instanceof Error && error.message.includes('401')) {
-        console.log('[apiUtils] 401 Unauthorized detected, checking retry eligibility...');
-        
-        // Check retry history for this request type
-        const retryInfo = apiUtils.retryTracker.get(requestId) || { count: 0, lastAttempt: 0 };
-        
-        // Prevent retries if:
-        // 1. Already retried once in the last 5 minutes
-        // 2. More than 1 retry attempt for this request
-        if (retryInfo.count >= 1 || (now - retryInfo.lastAttempt) < 300000) { // 5 minutes
-          console.log('[apiUtils] Retry limit reached or too recent - likely insufficient permissions');
-          apiUtils.retryTracker.delete(requestId);
-          return {
-            data: null,
-            error: 'Access denied - insufficient permissions or invalid credentials'
-          };
-        }
-        
-        // Update retry tracker
-        apiUtils.retryTracker.set(requestId, { count: retryInfo.count + 1, lastAttempt: now });
-        
-        try {
-          // Import tokenRefreshService to avoid circular dependencies
-          const { tokenRefreshService } = await import('../services');
-          
-          // Attempt to refresh tokens
-          const refreshResult = await tokenRefreshService.manualRefresh();
-          
-          if (refreshResult) {
-            console.log('[apiUtils] Token refresh successful, retrying original request...');
-            
-            try {
-              // Retry the original API call ONCE
-              const retryData = await apiCall();
-              console.log('[apiUtils] Retry after token refresh successful');
-              // Clear successful retry from tracker
-              apiUtils.retryTracker.delete(requestId);
-              return { data: retryData, error: null };
-            } catch (retryError) {
-              console.error('[apiUtils] Retry after token refresh failed:', retryError);
-              
-              // Check if the retry also failed with 401
-              if (retryError instanceof Error && retryError.message.includes('401')) {
-                console.log('[apiUtils] Second 401 detected - insufficient permissions, not retrying again');
-                apiUtils.retryTracker.delete(requestId);
-                return {
-                  data: null,
-                  error: 'Access denied - insufficient permissions for this resource'
-                };
-              }
-              
-              // For non-401 retry errors, return the actual error
-              apiUtils.retryTracker.delete(requestId);
-              return {
-                data: null,
-                error: retryError instanceof Error ? retryError.message : 'Request failed after token refresh'
-              };
-            }
-          } else {
-            console.error('[apiUtils] Token refresh failed, cannot retry request');
-            apiUtils.retryTracker.delete(requestId);
-            return {
-              data: null,
-              error: 'Authentication failed - please log in again'
-            };
-          }
-        } catch (refreshError) {
-          console.error('[apiUtils] Error during token refresh attempt:', refreshError);
-          apiUtils.retryTracker.delete(requestId);
-          return {
-            data: null,
-            error: 'Authentication failed - please log in again'
-          };
-        }
-      }
-      
-      // For non-401 errors, return the original error
       return {
         data: null,
         error: error instanceof Error ? error.message : 'Unknown error occurred'
@@ -343,20 +273,11 @@ export const apiUtils = {
   },
 
   /**
-   * Clear retry tracking (useful for testing or manual cleanup)
-   */
-  clearRetryTracker: (): void => {
-    apiUtils.retryTracker.clear();
-  },
-
-  /**
-   * Get current retry statistics (for debugging)
+   * Check if an error was caused by the caller aborting the request
+   * (e.g. a component unmounting or filters changing), which should not be shown to the user
    */
-  getRetryStats: (): { activeRetries: number; trackedRequests: string[] } => {
-    return {
-      activeRetries: apiUtils.retryTracker.size,
-      trackedRequests: Array.from(apiUtils.retryTracker.keys())
-    };
+  isAbortError: (error: unknown): boolean => {
+    return error instanceof Error && error.name === 'AbortError';
   }
 };
 
@@ -378,13 +299,6 @@ export const validationUtils = {
     return phoneRegex.test(phone.replace(/\s/g, ''));
   },
 
-  /**
-   * Validate password strength
-   */
-  isValidPassword: (password: string): boolean => {
-    return password.length >= 8;
-  },
-
   /**
    * Validate event capacity
    */
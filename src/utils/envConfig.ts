@@ -9,16 +9,45 @@ export const envConfig = {
   localStoragePrefix: import.meta.env.VITE_LOCAL_STORAGE_PREFIX || "calvent_",
   tokenStorageKey: import.meta.env.VITE_TOKEN_STORAGE_KEY || "AppUser",
   fallbackTokenKey: import.meta.env.VITE_FALLBACK_TOKEN_KEY || "authToken",
+  // Where the refresh token is kept: "memory", "session", "local" or "encrypted"
+  tokenStorage: (import.meta.env.VITE_TOKEN_STORAGE || "local") as 'memory' | 'session' | 'local' | 'encrypted',
   
   // Development Configuration
   debugApi: import.meta.env.VITE_DEBUG_API === 'true',
   logLevel: import.meta.env.VITE_LOG_LEVEL || "info",
   
+  // Response contract validation: "strict" rejects unknown fields, "lenient" ignores them, "off" skips decoding
+  contractValidation: (import.meta.env.VITE_CONTRACT_VALIDATION || (import.meta.env.DEV ? 'strict' : 'lenient')) as 'strict' | 'lenient' | 'off',
+  
+  // Mock API Configuration (in-browser demo backend, no .NET API needed)
+  useMockApi: import.meta.env.VITE_USE_MOCK_API === 'true',
+  mockApiLatency: parseInt(import.meta.env.VITE_MOCK_API_LATENCY) || 300, // milliseconds
+  
+  // OpenID Connect single sign-on (authorization code + PKCE); the SSO button shows when an authority and client id are set
+  // With the mock API, the stand-in identity provider at /mock-idp is used unless a real one is configured
+  oidcAuthority: import.meta.env.VITE_OIDC_AUTHORITY || (import.meta.env.VITE_USE_MOCK_API === 'true' ? `${window.location.origin}/mock-idp` : ""),
+  oidcClientId: import.meta.env.VITE_OIDC_CLIENT_ID || (import.meta.env.VITE_USE_MOCK_API === 'true' ? "calvent-spa" : ""),
+  oidcScope: import.meta.env.VITE_OIDC_SCOPE || "openid profile email",
+  oidcProviderName: import.meta.env.VITE_OIDC_PROVIDER_NAME || "SSO", // Button label: "Sign in with ..."
+  
+  // Password policy for new passwords, used until the backend's policy endpoint answers (or when it has none)
+  passwordMinLength: parseInt(import.meta.env.VITE_PASSWORD_MIN_LENGTH) || 8,
+  passwordRequireLowercase: import.meta.env.VITE_PASSWORD_REQUIRE_LOWERCASE !== 'false',
+  passwordRequireUppercase: import.meta.env.VITE_PASSWORD_REQUIRE_UPPERCASE !== 'false',
+  passwordRequireDigit: import.meta.env.VITE_PASSWORD_REQUIRE_DIGIT !== 'false',
+  passwordRequireSymbol: import.meta.env.VITE_PASSWORD_REQUIRE_SYMBOL === 'true',
+  passwordBlockCommon: import.meta.env.VITE_PASSWORD_BLOCK_COMMON !== 'false',
+  passwordBlockPersonalInfo: import.meta.env.VITE_PASSWORD_BLOCK_PERSONAL_INFO !== 'false',
+  
   // Token Refresh Service Configuration
   tokenMinCheckInterval: parseInt(import.meta.env.VITE_TOKEN_MIN_CHECK_INTERVAL) || 30, // seconds
   tokenMaxCheckInterval: parseInt(import.meta.env.VITE_TOKEN_MAX_CHECK_INTERVAL) || 300, // seconds (5 minutes)
   tokenRefreshBufferMultiplier: parseFloat(import.meta.env.VITE_TOKEN_REFRESH_BUFFER_MULTIPLIER) || 0.1, // 10%
   
+  // Idle Timeout Configuration (0 disables the idle logout)
+  idleTimeout: parseInt(import.meta.env.VITE_IDLE_TIMEOUT ?? '1800'), // seconds of inactivity before logout (30 minutes)
+  idleWarningDuration: parseInt(import.meta.env.VITE_IDLE_WARNING_DURATION) || 60, // seconds the warning dialog counts down
+  
   // Application Configuration
   appName: import.meta.env.VITE_APP_NAME || "CalVent",
   appVersion: import.meta.env.VITE_APP_VERSION || "1.0.0",
@@ -44,6 +73,12 @@ export function validateEnvironment(): void {
     'VITE_API_BASE_URL'
   ];
   
+  // The mock backend does not need a real API URL
+  if (import.meta.env.VITE_USE_MOCK_API === 'true') {
+    console.info('Mock API enabled: requests are served by the in-browser demo backend');
+    return;
+  }
+
   const missing = requiredVars.filter(varName => !import.meta.env[varName]);
   
   if (missing.length > 0) {
@@ -1,5 +1,11 @@
 import type { AppUser } from '../models/AppUser'
 
+// Claims may hold a single value or an array (e.g. .NET emits an array for multiple roles)
+function toStringArray(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string')
+  return typeof value === 'string' && value ? [value] : []
+}
+
 /**
  * Decodes a JWT token and maps its payload to an AppUser object.
  * @param token JWT token string
@@ -20,6 +26,18 @@ export function decodeJwtToAppUser(token: string): AppUser | null {
     )
     const payload = JSON.parse(jsonPayload)
 
+    const roles = toStringArray(
+      payload.UserRole ??
+      payload.userRole ??
+      payload.roles ??
+      payload['http://schemas.microsoft.com/ws/2008/06/identity/claims/role']
+    )
+    const permissions = [
+      ...toStringArray(payload.Permissions ?? payload.permissions ?? payload.Permission ?? payload.permission),
+      // OAuth-style scopes are space-separated
+      ...(typeof payload.scope === 'string' ? payload.scope.split(' ').filter((scope: string) => scope.includes(':')) : []),
+    ]
+
     // Map JWT payload fields to AppUser fields, handling different casing and claim URIs
     const appUser: AppUser = {
       userId:
@@ -37,10 +55,9 @@ export function decodeJwtToAppUser(token: string): AppUser | null {
         payload['http://schemas.xmlsoap.org/ws/2005/05/identity/claims/name'],
       firstName: payload.FirstName || payload.firstName,
       lastName: payload.LastName || payload.lastName,
-      userRole:
-        payload.UserRole ||
-        payload.userRole ||
-        payload['http://schemas.microsoft.com/ws/2008/06/identity/claims/role'],
+      userRole: roles[0],
+      roles,
+      permissions,
       phoneNumber: payload.PhoneNumber || payload.phoneNumber,
       token: token,
       tokenExpiration:
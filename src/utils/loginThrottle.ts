@@ -0,0 +1,96 @@
+// Client-side backoff between failed sign-in attempts
+// Kept in sessionStorage so reloading the login page doesn't skip the wait.
+// The server enforces its own limits (429 and account lockout); their waits are recorded here too.
+
+import { envConfig } from './envConfig';
+
+const STORAGE_KEY = `${envConfig.localStoragePrefix}login_throttle`;
+const FREE_ATTEMPTS = 2; // Failures before the backoff starts
+const BACKOFF_BASE_SECONDS = 2; // Doubles with every further failure
+const BACKOFF_MAX_SECONDS = 60;
+const FAILURE_MEMORY = 15 * 60 * 1000; // Forget failures after 15 minutes without a new one
+
+// Why sign-in is blocked: our own backoff, the server's rate limit, or a locked account
+export type LoginBlockReason = 'backoff' | 'rateLimited' | 'locked';
+
+export interface LoginThrottleState {
+  failures: number; // Failed attempts since the last successful sign-in
+  blockedUntil: number; // Epoch ms; 0 when not blocked
+  reason: LoginBlockReason | null;
+  lastFailureAt: number;
+}
+
+const EMPTY_STATE: LoginThrottleState = { failures: 0, blockedUntil: 0, reason: null, lastFailureAt: 0 };
+
+function save(state: LoginThrottleState): LoginThrottleState {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.error('Error saving login throttle state:', error);
+  }
+  return state;
+}
+
+/**
+ * Current throttle state (failures older than FAILURE_MEMORY are forgotten)
+ */
+export function getLoginThrottle(): LoginThrottleState {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    const state = stored ? { ...EMPTY_STATE, ...JSON.parse(stored) as Partial<LoginThrottleState> } : EMPTY_STATE;
+    if (state.blockedUntil <= Date.now() && Date.now() - state.lastFailureAt > FAILURE_MEMORY) {
+      return EMPTY_STATE;
+    }
+    return state;
+  } catch {
+    return EMPTY_STATE;
+  }
+}
+
+/**
+ * Count a wrong email/password and start the next backoff period
+ */
+export function recordLoginFailure(): LoginThrottleState {
+  const current = getLoginThrottle();
+  const now = Date.now();
+  const failures = current.failures + 1;
+  const backoffSeconds = failures > FREE_ATTEMPTS
+    ? Math.min(BACKOFF_BASE_SECONDS * 2 ** (failures - FREE_ATTEMPTS - 1), BACKOFF_MAX_SECONDS)
+    : 0;
+
+  // Never shorten a longer wait the server asked for
+  const backoffUntil = now + backoffSeconds * 1000;
+  const keepServerBlock = current.blockedUntil > backoffUntil;
+  return save({
+    failures,
+    blockedUntil: keepServerBlock ? current.blockedUntil : backoffSeconds > 0 ? backoffUntil : 0,
+    reason: keepServerBlock ? current.reason : backoffSeconds > 0 ? 'backoff' : null,
+    lastFailureAt: now,
+  });
+}
+
+/**
+ * Record a wait imposed by the server (429 rate limit or account lockout)
+ * Without a Retry-After value the client falls back to its longest backoff
+ */
+export function recordServerBlock(reason: Exclude<LoginBlockReason, 'backoff'>, retryAfterSeconds: number | null): LoginThrottleState {
+  const current = getLoginThrottle();
+  const now = Date.now();
+  const blockedUntil = now + (retryAfterSeconds ?? BACKOFF_MAX_SECONDS) * 1000;
+
+  // A short rate limit during a longer lockout keeps the lockout and its message
+  const keepCurrentBlock = current.blockedUntil > blockedUntil;
+  return save({
+    failures: current.failures + 1,
+    blockedUntil: keepCurrentBlock ? current.blockedUntil : blockedUntil,
+    reason: keepCurrentBlock ? current.reason : reason,
+    lastFailureAt: now,
+  });
+}
+
+/**
+ * Forget all failures, after a successful sign-in
+ */
+export function clearLoginThrottle(): void {
+  sessionStorage.removeItem(STORAGE_KEY);
+}
@@ -0,0 +1,152 @@
+// Password policy checks shared by every form that sets a password and by the mock backend
+// The strength meter and the submit validation both read the result of checkPassword,
+// so the checklist a user sees is exactly what decides whether the form can be sent.
+
+import type { PasswordPolicy } from '../contracts/response/AuthenticationResponses';
+import { envConfig } from './envConfig';
+
+// Policy from the environment, used until (or instead of) the backend's policy
+export const defaultPasswordPolicy: PasswordPolicy = {
+  minLength: envConfig.passwordMinLength,
+  requireLowercase: envConfig.passwordRequireLowercase,
+  requireUppercase: envConfig.passwordRequireUppercase,
+  requireDigit: envConfig.passwordRequireDigit,
+  requireSymbol: envConfig.passwordRequireSymbol,
+  blockCommonPasswords: envConfig.passwordBlockCommon,
+  blockPersonalInfo: envConfig.passwordBlockPersonalInfo,
+};
+
+// Most used passwords; compared case-insensitively and without trailing digits/symbols ("Password123!" -> "password")
+const COMMON_PASSWORDS = new Set([
+  'password', 'passw0rd', 'p@ssword', 'p@ssw0rd', 'qwerty', 'qwertyuiop', 'asdfgh', 'zxcvbnm', 'azerty',
+  'letmein', 'welcome', 'iloveyou', 'admin', 'administrator', 'login', 'master', 'secret', 'changeme',
+  'abc', 'abcdef', 'abcdefgh', 'monkey', 'dragon', 'football', 'baseball', 'soccer', 'hockey', 'superman',
+  'batman', 'sunshine', 'princess', 'shadow', 'trustno', 'whatever', 'freedom', 'starwars', 'pokemon',
+  'hello', 'summer', 'winter', 'spring', 'autumn', 'default', 'guest', 'test', 'user', 'calvent',
+  '123456', '12345678', '123456789', '1234567890', '111111', '000000', '654321', '123123',
+]);
+
+// Minimum length of an email name or username before it counts as personal info
+const MIN_PERSONAL_INFO_LENGTH = 3;
+
+export type PasswordRuleId = 'minLength' | 'lowercase' | 'uppercase' | 'digit' | 'symbol' | 'common' | 'personalInfo';
+
+export interface PasswordRuleResult {
+  id: PasswordRuleId;
+  label: string; // Checklist text, e.g. "At least 8 characters"
+  error: string; // Validation message when the rule fails
+  passed: boolean;
+}
+
+// 0 = too weak ... 4 = strong
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordCheck {
+  rules: PasswordRuleResult[]; // Only the rules the policy turns on
+  isValid: boolean; // Every rule passed
+  strength: PasswordStrength;
+}
+
+// Who the password is for, so it can't simply repeat their name
+export interface PasswordPersonalInfo {
+  email?: string;
+  userName?: string;
+}
+
+export const PASSWORD_STRENGTH_LABELS: Record<PasswordStrength, string> = {
+  0: 'Too weak',
+  1: 'Weak',
+  2: 'Fair',
+  3: 'Good',
+  4: 'Strong',
+};
+
+function isCommonPassword(password: string): boolean {
+  const lowered = password.toLowerCase();
+  return COMMON_PASSWORDS.has(lowered) || COMMON_PASSWORDS.has(lowered.replace(/[\d\W_]+$/, ''));
+}
+
+function containsPersonalInfo(password: string, personalInfo: PasswordPersonalInfo): boolean {
+  const lowered = password.toLowerCase();
+  const parts = [personalInfo.email?.split('@')[0], personalInfo.userName]
+    .map(part => (part || '').trim().toLowerCase())
+    .filter(part => part.length >= MIN_PERSONAL_INFO_LENGTH);
+  return parts.some(part => lowered.includes(part));
+}
+
+// Length and variety beyond the minimum raise the score; a password that breaks a rule is at most weak
+function getStrength(password: string, rules: PasswordRuleResult[], policy: PasswordPolicy): PasswordStrength {
+  if (!password) return 0;
+  if (rules.some(rule => !rule.passed && (rule.id === 'common' || rule.id === 'personalInfo'))) return 0;
+
+  const characterClasses = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter(pattern => pattern.test(password)).length;
+  let score = 0;
+  if (password.length >= policy.minLength) score++;
+  if (password.length >= policy.minLength + 4) score++;
+  if (characterClasses >= 3) score++;
+  if (characterClasses === 4 || password.length >= 16) score++;
+
+  const isValid = rules.every(rule => rule.passed);
+  return (isValid ? Math.max(score, 1) : Math.min(score, 1)) as PasswordStrength;
+}
+
+/**
+ * Check a password against the policy
+ * Returns one result per enabled rule plus an overall strength for the meter
+ */
+export function checkPassword(password: string, policy: PasswordPolicy, personalInfo: PasswordPersonalInfo = {}): PasswordCheck {
+  const candidates: Array<[enabled: boolean, rule: Omit<PasswordRuleResult, 'passed'>, passed: () => boolean]> = [
+    [true, {
+      id: 'minLength',
+      label: `At least ${policy.minLength} characters`,
+      error: `Password must be at least ${policy.minLength} characters long.`,
+    }, () => password.length >= policy.minLength],
+    [policy.requireLowercase, {
+      id: 'lowercase',
+      label: 'A lowercase letter',
+      error: 'Password must contain a lowercase letter.',
+    }, () => /[a-z]/.test(password)],
+    [policy.requireUppercase, {
+      id: 'uppercase',
+      label: 'An uppercase letter',
+      error: 'Password must contain an uppercase letter.',
+    }, () => /[A-Z]/.test(password)],
+    [policy.requireDigit, {
+      id: 'digit',
+      label: 'A number',
+      error: 'Password must contain a number.',
+    }, () => /\d/.test(password)],
+    [policy.requireSymbol, {
+      id: 'symbol',
+      label: 'A symbol, like ! or #',
+      error: 'Password must contain a symbol.',
+    }, () => /[^A-Za-z0-9]/.test(password)],
+    [policy.blockCommonPasswords, {
+      id: 'common',
+      label: 'Not a commonly used password',
+      error: 'This password is too common. Choose one that is harder to guess.',
+    }, () => !!password && !isCommonPassword(password)],
+    [policy.blockPersonalInfo, {
+      id: 'personalInfo',
+      label: 'Does not contain your email name or username',
+      error: 'Password must not contain your email name or username.',
+    }, () => !!password && !containsPersonalInfo(password, personalInfo)],
+  ];
+
+  const rules = candidates
+    .filter(([enabled]) => enabled)
+    .map(([, rule, passed]) => ({ ...rule, passed: passed() }));
+
+  return {
+    rules,
+    isValid: rules.every(rule => rule.passed),
+    strength: getStrength(password, rules, policy),
+  };
+}
+
+/**
+ * First failed rule's message, for a field error (null when the password is acceptable)
+ */
+export function getPasswordError(check: PasswordCheck): string | null {
+  return check.rules.find(rule => !rule.passed)?.error ?? null;
+}
@@ -0,0 +1,73 @@
+// Capability-based permissions
+// Roles from the JWT map to capabilities; explicit permission claims in the token are added on top.
+
+import type { AppUser } from '../models';
+
+// Actions the UI can ask about
+export type Permission =
+  | 'event:create'
+  | 'event:edit'
+  | 'event:delete'
+  | 'event:dashboard'
+  | 'registration:create'
+  | 'registration:view'
+  | 'users:manage';
+
+// A granted capability: the plain action, or scoped to the user's own resources or any resource
+export type Capability = Permission | `${Permission}:own` | `${Permission}:any`;
+
+// The resource an action targets, for ":own" capabilities
+export interface PermissionResource {
+  ownerId?: string;
+}
+
+export const ROLE_CAPABILITIES: Record<string, Capability[]> = {
+  User: [
+    'registration:create',
+    'registration:view:own',
+  ],
+  Admin: [
+    'event:create',
+    'event:edit:own',
+    'event:delete:own',
+    'event:dashboard:own',
+    'registration:create',
+    'registration:view:any',
+    'users:manage',
+  ],
+};
+
+/**
+ * All capabilities of a user: those of each role plus any permission claims in the token
+ */
+export function getCapabilities(user: AppUser | null): Set<string> {
+  if (!user) return new Set();
+
+  const roles = user.roles ?? (user.userRole ? [user.userRole] : []);
+  const capabilities = new Set<string>(user.permissions ?? []);
+  roles.forEach(role => {
+    ROLE_CAPABILITIES[role]?.forEach(capability => capabilities.add(capability));
+  });
+  return capabilities;
+}
+
+/**
+ * Check whether the user may perform an action
+ * - "action" or "action:any" always allow it
+ * - "action:own" allows it on resources the user owns; without a resource it counts,
+ *   since the user can perform the action on at least their own resources
+ */
+export function can(user: AppUser | null, permission: Permission, resource?: PermissionResource): boolean {
+  if (!user) return false;
+
+  const capabilities = getCapabilities(user);
+  if (capabilities.has(permission) || capabilities.has(`${permission}:any`)) {
+    return true;
+  }
+
+  if (capabilities.has(`${permission}:own`)) {
+    return !resource || resource.ownerId === user.userId;
+  }
+
+  return false;
+}
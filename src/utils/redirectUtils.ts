@@ -0,0 +1,56 @@
+// Helpers for sending users to login and back to where they came from
+
+export const RETURN_URL_PARAM = 'returnUrl';
+
+function withReturnUrl(page: string, returnUrl: string): string {
+  // The home page is the default anyway, keep the URL clean
+  if (!returnUrl || returnUrl === '/') return page;
+  return `${page}?${RETURN_URL_PARAM}=${encodeURIComponent(returnUrl)}`;
+}
+
+/**
+ * Build the login URL that returns to the given path after a successful login
+ */
+export function buildLoginUrl(returnUrl: string): string {
+  return withReturnUrl('/login', returnUrl);
+}
+
+/**
+ * Build the registration URL; the return URL is handed on to login after registering
+ */
+export function buildRegisterUrl(returnUrl: string): string {
+  return withReturnUrl('/register', returnUrl);
+}
+
+/**
+ * Read the return URL from the login page's query string
+ * Only same-site paths are accepted so the parameter can't be used as an open redirect
+ */
+export function getSafeReturnUrl(searchParams: URLSearchParams, fallback: string = '/'): string {
+  const returnUrl = searchParams.get(RETURN_URL_PARAM);
+  if (!returnUrl || !returnUrl.startsWith('/') || returnUrl.startsWith('//') || returnUrl.startsWith('/\\')) {
+    return fallback;
+  }
+  return returnUrl;
+}
+
+// Action to resume once the user is back on the page, e.g. opening the registration form
+export const RESUME_ACTION_PARAM = 'action';
+
+export type ResumeAction = 'register';
+
+/**
+ * Path, query string and hash of a router location, for use as a return URL
+ */
+export function getLocationPath(location: { pathname: string; search: string; hash: string }): string {
+  return `${location.pathname}${location.search}${location.hash}`;
+}
+
+/**
+ * Add the action to resume to a return URL, keeping its existing query string (e.g. ?source=events)
+ */
+export function withResumeAction(path: string, action: ResumeAction): string {
+  const url = new URL(path, window.location.origin);
+  url.searchParams.set(RESUME_ACTION_PARAM, action);
+  return `${url.pathname}${url.search}${url.hash}`;
+}